@@ -0,0 +1,13 @@
+"use server";
+
+import { encryptCameraPassword } from "@/lib/camera-credentials";
+import { requireUser } from "@/lib/request-user";
+
+// Only administrators get ciphertext under the server's camera key
+export async function encryptCameraPasswordAction(
+  password: string,
+  accessToken: string
+) {
+  await requireUser(accessToken, ["administrator"]);
+  return encryptCameraPassword(password);
+}
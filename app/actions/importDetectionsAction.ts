@@ -0,0 +1,25 @@
+"use server";
+
+import { recordDetections } from "@/lib/detections";
+import type { DetectedPlate } from "@/lib/detection-backend";
+import type { FrameSize } from "@/lib/zones";
+import { STAFF_ROLES, requireUser } from "@/lib/request-user";
+
+// Plates found in uploaded footage; each carries its own captured_at
+export async function importDetectionsAction(
+  accessToken: string,
+  plates: DetectedPlate[],
+  cameraId: string,
+  sourceFile: string,
+  frame?: FrameSize
+) {
+  await requireUser(accessToken, STAFF_ROLES);
+  const { recorded, failed } = await recordDetections(plates, cameraId, undefined, frame, {
+    historical: true,
+    metadata: { source: "upload", source_file: sourceFile },
+  });
+  return {
+    detections: recorded.map(({ detection }) => detection),
+    failed: failed.length,
+  };
+}
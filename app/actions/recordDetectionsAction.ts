@@ -0,0 +1,23 @@
+"use server";
+
+import { recordDetections } from "@/lib/detections";
+import type { DetectedPlate } from "@/lib/detection-backend";
+import type { FrameSize } from "@/lib/zones";
+import { STAFF_ROLES, requireUser } from "@/lib/request-user";
+
+// Recording can text owners and security, so only signed-in staff may call it
+export async function recordDetectionsAction(
+  accessToken: string,
+  plates: DetectedPlate[],
+  cameraId?: string,
+  capturedAt?: number,
+  frame?: FrameSize
+) {
+  await requireUser(accessToken, STAFF_ROLES);
+  return await recordDetections(
+    plates,
+    cameraId,
+    capturedAt ? new Date(capturedAt) : undefined,
+    frame
+  );
+}
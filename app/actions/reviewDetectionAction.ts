@@ -0,0 +1,20 @@
+"use server";
+
+import { reviewDetection, type ReviewDecision } from "@/lib/detection-review";
+import { STAFF_ROLES, requireUser } from "@/lib/request-user";
+
+export async function reviewDetectionAction(
+  detectionId: string,
+  decision: ReviewDecision,
+  accessToken: string,
+  correctedPlate?: string
+) {
+  // Recorded as verified_by, so it must come from the session
+  const reviewerId = await requireUser(accessToken, STAFF_ROLES);
+  return await reviewDetection(
+    detectionId,
+    decision,
+    reviewerId,
+    correctedPlate
+  );
+}
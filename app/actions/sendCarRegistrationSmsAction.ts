@@ -1,19 +1,25 @@
 "use server";
 
-import { sendCarRegistrationSms } from "@/lib/sms-service";
+import { carRegistrationMessage } from "@/lib/sms-service";
+import { sendLoggedSms } from "@/lib/sms-log";
+import { userIdFromToken } from "@/lib/request-user";
 
 export async function sendCarRegistrationSmsAction(
   ownerName: string,
   phone: string,
   licensePlate: string,
   make: string,
-  model: string
+  model: string,
+  vehicleId?: string,
+  accessToken?: string
 ) {``
-  return await sendCarRegistrationSms(
-    ownerName, 
-    phone,
-    licensePlate,
-    make,
-    model
+  const sentBy = await userIdFromToken(accessToken);
+  if (!sentBy) throw new Error("Sign in to send SMS");
+
+  const { results } = await sendLoggedSms(
+    [{ phone }],
+    carRegistrationMessage(ownerName, licensePlate, make, model),
+    { messageType: "car_registration", relatedVehicleId: vehicleId, sentBy }
   );
+  return results[0];
 }
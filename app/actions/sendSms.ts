@@ -1,8 +1,43 @@
 "use server";
 
-import { sendBulkSms } from "@/lib/sms-service";
+import { sendLoggedSms, type SmsLogOptions, type SmsTarget } from "@/lib/sms-log";
+import { processSmsQueue, queueLoggedSms } from "@/lib/sms-queue";
+import { userIdFromToken } from "@/lib/request-user";
 
-export async function sendBulkSmsAction(phone: string[], message: string) {
-  ``;
-  return await sendBulkSms(phone, message);
+// Sent before the action returns, so a broadcast starts going out even with
+// no SMS worker running; the worker or /api/sms/queue sends the rest
+const INLINE_SEND_JOBS = 20;
+
+// The sender comes from the caller's session; per-user rate limits count against it
+async function requireSender(accessToken: string): Promise<string> {
+  const sentBy = await userIdFromToken(accessToken);
+  if (!sentBy) throw new Error("Sign in to send SMS");
+  return sentBy;
+}
+
+export async function sendLoggedSmsAction(
+  targets: SmsTarget[],
+  message: string,
+  options: Omit<SmsLogOptions, "sentBy">,
+  accessToken: string
+) {
+  const sentBy = await requireSender(accessToken);
+  return await sendLoggedSms(targets, message, { ...options, sentBy });
+}
+
+export async function queueSmsAction(
+  targets: SmsTarget[],
+  message: string,
+  options: Omit<SmsLogOptions, "sentBy">,
+  accessToken: string
+) {
+  const sentBy = await requireSender(accessToken);
+  const queued = await queueLoggedSms(targets, message, { ...options, sentBy });
+  try {
+    await processSmsQueue(INLINE_SEND_JOBS);
+  } catch (error) {
+    // The jobs are saved, so they stay queued for the worker
+    console.error("SMS queue run failed:", error);
+  }
+  return queued;
 }
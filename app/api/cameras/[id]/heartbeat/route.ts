@@ -0,0 +1,78 @@
+import { type NextRequest, NextResponse } from "next/server";
+import {
+  checkCameraHealthThrottled,
+  getHeartbeatIntervalSeconds,
+  recordHeartbeat,
+  type HeartbeatHealth,
+} from "@/lib/camera-monitor";
+import { checkParkingOverstaysThrottled } from "@/lib/parking";
+import { cleanupExpiredDetectionsThrottled } from "@/lib/detections";
+import { getSetting } from "@/lib/system-settings";
+import { userIdFromToken } from "@/lib/request-user";
+
+// =============================================
+// CAMERA HEARTBEAT API ROUTE
+// Camera clients post here every camera_heartbeat_interval seconds.
+// Requires "Authorization: Bearer <token>": a signed-in user's access
+// token (browser camera pages) or $CRON_SECRET (headless agents).
+// =============================================
+
+// Longest client error text kept in the activity log
+const MAX_REASON_LENGTH = 200;
+
+async function isAuthorized(request: NextRequest): Promise<boolean> {
+  const header = request.headers.get("authorization");
+  if (!header?.startsWith("Bearer ")) return false;
+  const token = header.slice("Bearer ".length);
+
+  const secret = process.env.CRON_SECRET;
+  if (secret && token === secret) return true;
+
+  return !!(await userIdFromToken(token));
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!(await isAuthorized(request))) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const health: HeartbeatHealth = body.status === "error" ? "error" : "online";
+    const reason =
+      typeof body.error === "string"
+        ? body.error.slice(0, MAX_REASON_LENGTH)
+        : undefined;
+
+    const transition = await recordHeartbeat(params.id, health, reason);
+    // Piggyback the offline and overstay sweeps on live heartbeats
+    await checkCameraHealthThrottled();
+    await checkParkingOverstaysThrottled();
+    // Retention can take a while, so the camera doesn't wait for it
+    cleanupExpiredDetectionsThrottled().catch((error) =>
+      console.error("Detection cleanup failed:", error)
+    );
+
+    return NextResponse.json({
+      success: true,
+      status: transition?.to,
+      intervalSeconds: await getHeartbeatIntervalSeconds(),
+      storeFrames: await getSetting("store_detection_frames", false),
+    });
+  } catch (error) {
+    console.error("Camera heartbeat error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Heartbeat failed",
+      },
+      { status: 500 }
+    );
+  }
+}
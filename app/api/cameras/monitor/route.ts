@@ -0,0 +1,32 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { checkCameraHealth } from "@/lib/camera-monitor";
+
+// =============================================
+// CAMERA MONITOR API ROUTE
+// Marks silent cameras offline; call from a scheduler.
+// Requires "Authorization: Bearer $CRON_SECRET" when CRON_SECRET is set.
+// =============================================
+
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (secret && request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const transitions = await checkCameraHealth();
+    return NextResponse.json({ success: true, transitions });
+  } catch (error) {
+    console.error("Camera monitor error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Monitor failed",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { getDetectionBackend } from "@/lib/detection-backend-config";
+
+// =============================================
+// DETECTION PROXY API ROUTE
+// Forwards camera frames to the configured detection backend
+// =============================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const frame = formData.get("file");
+
+    if (!(frame instanceof Blob)) {
+      return NextResponse.json(
+        { success: false, error: "Missing frame upload (file)" },
+        { status: 400 }
+      );
+    }
+
+    const backend = await getDetectionBackend();
+    const detections = await backend.detect(frame);
+
+    return NextResponse.json({
+      success: true,
+      backend: backend.name,
+      detections,
+    });
+  } catch (error) {
+    console.error("Detection proxy error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Detection failed",
+      },
+      { status: 502 }
+    );
+  }
+}
+
+export async function GET() {
+  const backend = await getDetectionBackend();
+  const healthy = await backend.checkHealth();
+
+  return NextResponse.json(
+    { success: healthy, backend: backend.name },
+    { status: healthy ? 200 : 503 }
+  );
+}
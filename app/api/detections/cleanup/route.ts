@@ -0,0 +1,33 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { cleanupExpiredDetections } from "@/lib/detections";
+
+// =============================================
+// DETECTION CLEANUP API ROUTE
+// Deletes detections (and their stored images) older than
+// auto_cleanup_detections_days; call daily from a scheduler.
+// Requires "Authorization: Bearer $CRON_SECRET" when CRON_SECRET is set.
+// =============================================
+
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (secret && request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const deleted = await cleanupExpiredDetections();
+    return NextResponse.json({ success: true, deleted });
+  } catch (error) {
+    console.error("Detection cleanup error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Cleanup failed",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { checkParkingOverstays } from "@/lib/parking";
+
+// =============================================
+// PARKING MONITOR API ROUTE
+// Ends stale parking sessions and sends overstay texts; call from a scheduler.
+// Requires "Authorization: Bearer $CRON_SECRET" when CRON_SECRET is set.
+// =============================================
+
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (secret && request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const overstays = await checkParkingOverstays();
+    return NextResponse.json({ success: true, overstays });
+  } catch (error) {
+    console.error("Parking monitor error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Monitor failed",
+      },
+      { status: 500 }
+    );
+  }
+}
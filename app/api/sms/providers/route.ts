@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { smsService } from "@/lib/sms-service";
+
+// =============================================
+// SMS PROVIDERS API ROUTE
+// Provider chain order and health as seen by this server process
+// =============================================
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  await smsService.loadChain();
+  return NextResponse.json({
+    success: true,
+    primary: smsService.getProviderName(),
+    providers: smsService.getProviderHealth(),
+  });
+}
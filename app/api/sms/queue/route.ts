@@ -0,0 +1,36 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { processSmsQueue } from "@/lib/sms-queue";
+
+// =============================================
+// SMS QUEUE API ROUTE
+// Sends a batch of due SMS jobs; call from a scheduler when the SMS
+// worker isn't running. Requires "Authorization: Bearer $CRON_SECRET"
+// when CRON_SECRET is set.
+// =============================================
+
+// Keeps one call inside a serverless time limit; the next call picks up the rest
+const MAX_JOBS_PER_CALL = 100;
+
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (secret && request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await processSmsQueue(MAX_JOBS_PER_CALL);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("SMS queue error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Queue run failed",
+      },
+      { status: 500 }
+    );
+  }
+}
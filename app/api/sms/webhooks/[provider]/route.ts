@@ -0,0 +1,86 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { SMS_PROVIDERS, isSmsProviderId } from "@/lib/sms-providers";
+import { acceptsReceipts, readDeliveryReceipt } from "@/lib/sms-webhooks";
+import { applyDeliveryReceipt } from "@/lib/sms-log";
+
+// =============================================
+// SMS DELIVERY RECEIPT WEBHOOK
+// Gateways report delivered / undelivered here (Twilio posts a form,
+// Arkesel may post JSON or call with a query string)
+// =============================================
+
+type Params = { params: { provider: string } };
+
+// Twilio signs the public URL it called, which a proxy may have rewritten
+function publicUrl(request: NextRequest): string {
+  const base = process.env.SMS_WEBHOOK_BASE_URL;
+  const { pathname, search } = request.nextUrl;
+  return base ? new URL(pathname + search, base).toString() : request.url;
+}
+
+async function readParams(request: NextRequest): Promise<Record<string, string>> {
+  const params: Record<string, string> = Object.fromEntries(
+    request.nextUrl.searchParams
+  );
+  if (request.method !== "POST") return params;
+
+  const contentType = request.headers.get("content-type") || "";
+  if (contentType.includes("application/json")) {
+    const body = await request.json().catch(() => ({}));
+    for (const [key, value] of Object.entries(body ?? {})) {
+      if (value != null) params[key] = String(value);
+    }
+  } else {
+    const body = new URLSearchParams(await request.text());
+    body.forEach((value, key) => (params[key] = value));
+  }
+  return params;
+}
+
+async function handleReceipt(request: NextRequest, { params }: Params) {
+  const provider = params.provider.toLowerCase();
+  if (!isSmsProviderId(provider) || !acceptsReceipts(provider)) {
+    return NextResponse.json(
+      { success: false, error: "Unknown SMS provider" },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const receipt = readDeliveryReceipt(provider, {
+      url: publicUrl(request),
+      params: await readParams(request),
+      headers: request.headers,
+    });
+
+    if (receipt === "unverified") {
+      return NextResponse.json(
+        { success: false, error: "Invalid signature" },
+        { status: 401 }
+      );
+    }
+    // Statuses we don't track are acknowledged so the gateway stops retrying
+    if (!receipt) return NextResponse.json({ success: true, updated: 0 });
+
+    const updated = await applyDeliveryReceipt(
+      SMS_PROVIDERS[provider].name,
+      receipt
+    );
+    if (updated === 0) {
+      console.warn(
+        `No SMS delivery matched ${provider} receipt ${receipt.providerMessageId}`
+      );
+    }
+
+    return NextResponse.json({ success: true, updated });
+  } catch (error) {
+    console.error(`${provider} delivery receipt failed:`, error);
+    return NextResponse.json(
+      { success: false, error: "Failed to process delivery receipt" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = handleReceipt;
+export const POST = handleReceipt;
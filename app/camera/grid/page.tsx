@@ -0,0 +1,207 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  DEFAULT_SAMPLER_CONFIG,
+  loadSamplerConfig,
+  type SamplerConfig,
+} from "@/lib/frame-sampler";
+import { useRegisteredCameras } from "@/hooks/use-registered-cameras";
+import CameraTile from "@/components/CameraTile";
+import Link from "next/link";
+import { ArrowLeft, LayoutGrid, RefreshCw, Square } from "lucide-react";
+
+const STORAGE_KEY = "acdns.gridDevices";
+
+const deviceLabel = (device: MediaDeviceInfo, index: number) =>
+  device.label || `Camera ${index + 1}`;
+
+export default function CameraGrid() {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  // Device ids shown in the grid, remembered in this browser
+  const [activeIds, setActiveIds] = useState<string[]>([]);
+  const registeredCameras = useRegisteredCameras();
+  const [samplerConfig, setSamplerConfig] = useState<SamplerConfig>(
+    DEFAULT_SAMPLER_CONFIG
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDevices = useCallback(async () => {
+    setError(null);
+    try {
+      // Labels are only exposed once camera permission has been granted
+      try {
+        const temp = await navigator.mediaDevices.getUserMedia({ video: true });
+        temp.getTracks().forEach((t) => t.stop());
+      } catch (permErr) {
+        console.warn("Camera permission prompt failed:", permErr);
+      }
+
+      const all = await navigator.mediaDevices.enumerateDevices();
+      const videoDevices = all.filter((d) => d.kind === "videoinput");
+      setDevices(videoDevices);
+      if (videoDevices.length === 0) {
+        setError("No cameras found. Please connect a camera and try again.");
+      }
+
+      const ids = new Set(videoDevices.map((d) => d.deviceId));
+      setActiveIds((prev) => prev.filter((id) => ids.has(id)));
+    } catch (err: any) {
+      console.error("Error loading cameras:", err);
+      setError(
+        err.name === "NotAllowedError"
+          ? "Camera access denied. Please grant permission and try again."
+          : "Failed to access cameras. Please check permissions or connect a camera."
+      );
+    }
+  }, []);
+
+  useEffect(() => {
+    setSamplerConfig(loadSamplerConfig());
+    try {
+      setActiveIds(JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]"));
+    } catch {
+      setActiveIds([]);
+    }
+
+    loadDevices();
+    navigator.mediaDevices.addEventListener("devicechange", loadDevices);
+    return () =>
+      navigator.mediaDevices.removeEventListener("devicechange", loadDevices);
+  }, [loadDevices]);
+
+  const updateActive = (ids: string[]) => {
+    setActiveIds(ids);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(ids));
+  };
+
+  const toggleDevice = (deviceId: string, checked: boolean) => {
+    updateActive(
+      checked
+        ? [...activeIds, deviceId]
+        : activeIds.filter((id) => id !== deviceId)
+    );
+  };
+
+  const activeDevices = devices.filter((d) => activeIds.includes(d.deviceId));
+
+  return (
+    <div className="min-h-screen bg-gray-950 text-gray-100 font-sans">
+      <div className="container mx-auto px-4 sm:px-6 py-6">
+        {/* Header */}
+        <header className="mb-6 flex flex-col sm:flex-row justify-between items-center gap-4 bg-gray-900/80 p-4 rounded-xl shadow-lg">
+          <div className="flex items-center gap-4">
+            <Link href="/camera">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-cyan-400 hover:text-cyan-300 transition-colors"
+              >
+                <ArrowLeft className="h-5 w-5 mr-2" />
+                Single View
+              </Button>
+            </Link>
+            <h1 className="text-xl font-bold bg-gradient-to-r from-cyan-400 to-purple-400 bg-clip-text text-transparent">
+              Camera Grid
+            </h1>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={loadDevices}
+              className="text-cyan-500 hover:text-cyan-200"
+            >
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Rescan
+            </Button>
+            {activeIds.length > 0 ? (
+              <Button
+                size="sm"
+                onClick={() => updateActive([])}
+                className="bg-red-600 hover:bg-red-700"
+              >
+                <Square className="h-4 w-4 mr-2" />
+                Stop All
+              </Button>
+            ) : (
+              <Button
+                size="sm"
+                onClick={() => updateActive(devices.map((d) => d.deviceId))}
+                disabled={devices.length === 0}
+                className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600"
+              >
+                <LayoutGrid className="h-4 w-4 mr-2" />
+                Start All
+              </Button>
+            )}
+          </div>
+        </header>
+
+        {error && (
+          <div className="mb-6 p-4 rounded-lg border bg-red-500/10 border-red-500/30 text-red-400">
+            {error}
+          </div>
+        )}
+
+        {/* Device picker */}
+        <div className="mb-6 bg-gray-900/50 p-4 rounded-xl shadow-lg">
+          <h2 className="text-sm sm:text-base font-semibold text-teal-300 mb-3">
+            Devices
+          </h2>
+          {devices.length === 0 ? (
+            <p className="text-gray-400 text-sm">No cameras detected.</p>
+          ) : (
+            <div className="flex flex-wrap gap-4">
+              {devices.map((device, idx) => (
+                <div key={device.deviceId} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`grid-${device.deviceId}`}
+                    checked={activeIds.includes(device.deviceId)}
+                    onCheckedChange={(checked) =>
+                      toggleDevice(device.deviceId, checked === true)
+                    }
+                    className="border-teal-500"
+                  />
+                  <Label
+                    htmlFor={`grid-${device.deviceId}`}
+                    className="text-gray-100 text-sm cursor-pointer capitalize"
+                  >
+                    {deviceLabel(device, idx)}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          )}
+          <p className="text-xs text-gray-500 mt-3">
+            Each tile sends frames on its own. Sampling settings are shared
+            with the single camera view.
+          </p>
+        </div>
+
+        {/* Tiles */}
+        {activeDevices.length === 0 ? (
+          <p className="text-gray-400 italic">
+            Pick one or more devices to start streaming.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+            {activeDevices.map((device) => (
+              <CameraTile
+                key={device.deviceId}
+                device={device}
+                label={deviceLabel(device, devices.indexOf(device))}
+                registeredCameras={registeredCameras}
+                samplerConfig={samplerConfig}
+                onRemove={() => toggleDevice(device.deviceId, false)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,32 +5,50 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
-import { sendDetectionAlert } from "@/lib/sms-service";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/lib/supabase";
+import {
+  DEFAULT_SAMPLER_CONFIG,
+  EMPTY_SAMPLER_STATS,
+  FrameSampler,
+  loadSamplerConfig,
+  saveSamplerConfig,
+  type SamplerConfig,
+  type SamplerStats,
+} from "@/lib/frame-sampler";
+import { detectionThumbnail } from "@/lib/plate-format";
+import { bindDevice, getBoundCameraId } from "@/lib/camera-bindings";
+import type { DetectionWithRelations } from "@/types/database";
+import { useDetectionPipeline } from "@/hooks/use-detection-pipeline";
+import { useRegisteredCameras } from "@/hooks/use-registered-cameras";
 import Link from "next/link";
-import { ArrowLeft, Camera, RefreshCw } from "lucide-react";
+import ZoneEditor from "@/components/ZoneEditor";
+import PlateOverlay, { PlateOverlayLegend } from "@/components/PlateOverlay";
+import {
+  ArrowLeft,
+  Camera,
+  LayoutGrid,
+  RefreshCw,
+  Shapes,
+} from "lucide-react";
 import { useCallback } from "react";
 
-type SeenPlate = { plate: string; timestamp: number };
-type VehicleRecord = {
-  owner_name?: string;
-  owner_phone?: string;
-  vehicle_type?: string;
-  color?: string;
-};
-type Detection = {
-  plate: string;
-  match?: boolean;
-  ocr_conf?: number;
-  vehicle?: VehicleRecord | null;
-  ts: number;
-  images?: { raw_crop?: string; processed_crop?: string };
-};
-
 
-// urls
-const BASE_URL = "https://georgefemiwise-acdns.hf.space";
-const DETECTION_API_URL = `${BASE_URL}/detect`;
-const CONNECT_2_DB = `${BASE_URL}/refresh_cache`;
+// 0 sends frames at the camera's own resolution
+const SAMPLER_WIDTHS = [480, 640, 960, 1280, 0];
+const SAMPLER_QUALITIES = [0.5, 0.6, 0.7, 0.8, 0.9];
+const MOTION_THRESHOLDS = [
+  { label: "Off", value: 0 },
+  { label: "Small changes", value: 0.01 },
+  { label: "Normal", value: 0.02 },
+  { label: "Large changes only", value: 0.05 },
+];
 
 
 
@@ -43,40 +61,80 @@ export default function CameraFeed() {
   const [activeCameraLabel, setActiveCameraLabel] = useState<string>("");
   const [isStreaming, setIsStreaming] = useState(false);
   const [isSwitchingCamera, setIsSwitchingCamera] = useState(false);
-  const [intervalId, setIntervalId] = useState<ReturnType<
-    typeof setInterval
-  > | null>(null);
-  const [detections, setDetections] = useState<Detection[]>([]);
-  const [seenPlates, setSeenPlates] = useState<SeenPlate[]>([]);
-  const [error, setError] = useState<string | null>(null);
-  const [isBackendConnected, setIsBackendConnected] = useState<boolean | null>(
-    null
+  // Captures frames, one request at a time
+  const samplerRef = useRef<FrameSampler | null>(null);
+  const [samplerConfig, setSamplerConfig] = useState<SamplerConfig>(
+    DEFAULT_SAMPLER_CONFIG
   );
+  const [samplerStats, setSamplerStats] =
+    useState<SamplerStats>(EMPTY_SAMPLER_STATS);
+  const [detections, setDetections] = useState<DetectionWithRelations[]>([]);
+  const [error, setError] = useState<string | null>(null);
   const selectedCameraIdRef = useRef<string>(selectedCameraId);
+  // Registered cameras rows; the selected device is bound to one of them
+  const registeredCameras = useRegisteredCameras();
+  const [boundCameraId, setBoundCameraId] = useState<string>("");
+  const [editingZones, setEditingZones] = useState(false);
 
   useEffect(() => {
     selectedCameraIdRef.current = selectedCameraId;
+    setBoundCameraId(
+      selectedCameraId ? getBoundCameraId(selectedCameraId) ?? "" : ""
+    );
   }, [selectedCameraId]);
 
-  // Check backend connection
+  const boundCamera = registeredCameras.find((c) => c.id === boundCameraId);
+
+  const handleBindingChange = (cameraId: string) => {
+    const id = cameraId === "none" ? "" : cameraId;
+    bindDevice(selectedCameraId, id);
+    setBoundCameraId(id);
+  };
+
+  // Recent detections come from the detections table, not local state
+  const loadRecentDetections = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("detections")
+      .select(
+        "*, vehicles(id, license_plate, owner_name, owner_phone, status)"
+      )
+      .order("detection_timestamp", { ascending: false })
+      .limit(50);
+
+    if (error) {
+      console.error("Error loading detections:", error);
+      return;
+    }
+    setDetections(data || []);
+  }, []);
+
   useEffect(() => {
-    const checkBackend = async () => {
-      try {
-        const response = await fetch(CONNECT_2_DB, { method: "GET" });
-        setIsBackendConnected(response.ok);
-        console.log(
-          `✅ Backend connection status: ${
-            response.ok ? "Connected" : "Disconnected"
-          }`
-        );
-      } catch (err) {
-        setIsBackendConnected(false);
-        console.error("❌ Backend connection failed:", err);
-      }
-    };
-    checkBackend();
+    loadRecentDetections();
+  }, [loadRecentDetections]);
+
+  const {
+    detectFrame,
+    flush,
+    sendHeartbeat,
+    overlay,
+    backlog,
+    isBackendConnected,
+  } = useDetectionPipeline({
+    cameraId: boundCameraId,
+    isStreaming,
+    label: activeCameraLabel || "camera",
+    onRecorded: () => void loadRecentDetections(),
+  });
+
+
+  useEffect(() => {
+    setSamplerConfig(loadSamplerConfig());
+    return () => samplerRef.current?.stop();
   }, []);
 
+  useEffect(() => {
+    samplerRef.current?.configure(samplerConfig);
+  }, [samplerConfig]);
 
   const loadCameras = useCallback(async () => {
     setError(null);
@@ -172,6 +230,11 @@ useEffect(() => {
         audio: false,
       });
 
+      // A device unplugged mid-stream reports the camera as errored
+      stream.getVideoTracks()[0]?.addEventListener("ended", () =>
+        sendHeartbeat("error", "Video track ended")
+      );
+
       if (videoRef.current) {
         videoRef.current.srcObject = stream;
         await videoRef.current.play();
@@ -186,13 +249,19 @@ useEffect(() => {
       }
 
 
-      // intervals of snapshort sent
-      if (!intervalId) {
-        const id = setInterval(captureAndDetect, 1000);
-        setIntervalId(id);
+      if (!samplerRef.current && videoRef.current && canvasRef.current) {
+        samplerRef.current = new FrameSampler(
+          videoRef.current,
+          canvasRef.current,
+          detectFrame,
+          samplerConfig,
+          setSamplerStats
+        );
+        samplerRef.current.start();
       }
     } catch (err: any) {
       console.error("Camera error:", err);
+      sendHeartbeat("error", err.message);
       let errorMessage = "Failed to start camera: ";
       if (err.name === "NotAllowedError") {
         errorMessage += "Camera access denied. Please grant permission.";
@@ -231,8 +300,9 @@ useEffect(() => {
         .forEach((t) => t.stop());
       videoRef.current.srcObject = null;
     }
-    if (intervalId) clearInterval(intervalId);
-    setIntervalId(null);
+    samplerRef.current?.stop();
+    samplerRef.current = null;
+    flush();
     setIsStreaming(false);
     setActiveCameraLabel("");
     console.log("🛑 Camera stopped");
@@ -246,72 +316,10 @@ useEffect(() => {
     }
   };
 
-  // Detection pipeline
-  const captureAndDetect = async () => {
-    if (!videoRef.current || !canvasRef.current) return;
-    const video = videoRef.current;
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
-
-    canvas.width = video.videoWidth || 640;
-    canvas.height = video.videoHeight || 480;
-    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-
-    canvas.toBlob(async (blob) => {
-      if (!blob) return;
-      const formData = new FormData();
-      formData.append("file", blob, "frame.jpg");
-
-      try {
-        const res = await fetch(DETECTION_API_URL, {
-          method: "POST",
-          body: formData,
-        });
-        const data = await res.json();
-        if (!data?.detections) return;
-
-        for (const det of data.detections) {
-          const plate = det.plate;
-          if (!plate) continue;
-
-          const detection: Detection = {
-            plate,
-            ocr_conf: det.ocr_conf,
-            vehicle: det.vehicle ?? null,
-            ts: Date.now(),
-            images: {
-              raw_crop: det.images?.raw_crop,
-              processed_crop: det.images?.processed_crop,
-            },
-          };
-
-          setDetections((prev) => [detection, ...prev].slice(0, 50));
-
-          if (!seenPlates.some((p) => p.plate === plate)) {
-            if (detection.vehicle?.owner_phone) {
-              try {
-                await sendDetectionAlert(
-                  [detection.vehicle.owner_phone],
-                  plate,
-                  "Live Location",
-                  detection.ocr_conf ?? 0
-                );
-                console.log(`SMS sent for plate: ${plate}`);
-              } catch (err) {
-                console.error("SMS failed:", err);
-              }
-            }
-            setSeenPlates((prev) => [
-              ...prev,
-              { plate, timestamp: Date.now() },
-            ]);
-          }
-        }
-      } catch (err) {
-        console.error("Detection failed:", err);
-      }
-    }, "image/jpeg");
+  const updateSamplerConfig = (changes: Partial<SamplerConfig>) => {
+    const config = { ...samplerConfig, ...changes };
+    setSamplerConfig(config);
+    saveSamplerConfig(config);
   };
 
   const handleToggleCamera = () => {
@@ -341,6 +349,16 @@ useEffect(() => {
             <h1 className="text-xl font-bold bg-gradient-to-r from-cyan-400 to-purple-400 bg-clip-text text-transparent">
               License Plate Scanner
             </h1>
+            <Link href="/camera/grid">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-cyan-500 hover:text-cyan-200"
+              >
+                <LayoutGrid className="h-4 w-4 mr-2" />
+                Grid View
+              </Button>
+            </Link>
           </div>
          <Button
   onClick={handleToggleCamera}
@@ -379,19 +397,34 @@ useEffect(() => {
                   variant="secondary"
                   className="bg-gray-700 text-gray-100 font-semibold px-3 py-1 rounded-full"
                 >
-                  {activeCameraLabel || "Unknown Camera"}
+                  {boundCamera
+                    ? `${boundCamera.name} · ${boundCamera.location}`
+                    : activeCameraLabel || "Unknown Camera"}
                 </Badge>
               </div>
             )}
-            <video
-              ref={videoRef}
-              autoPlay
-              playsInline
-              muted
-              className="w-full rounded-lg border border-teal-500/30 shadow-md max-w-[90vw] sm:max-w-[600px]"
-            />
+            <ZoneEditor
+              cameraId={boundCameraId || undefined}
+              editing={editingZones}
+            >
+              <video
+                ref={videoRef}
+                autoPlay
+                playsInline
+                muted
+                className="w-full rounded-lg border border-teal-500/30 shadow-md max-w-[90vw] sm:max-w-[600px]"
+              />
+              <PlateOverlay reads={overlay.reads} frame={overlay.frame} />
+            </ZoneEditor>
+            <PlateOverlayLegend />
             <div className="text-xs text-opacity-40 text-gray-300 px-3 py-1 rounded-lg shadow-md ">
-               A snapshot is sent automatically every second (1s)
+              {isStreaming
+                ? `${samplerStats.fps.toFixed(1)} fps · ${Math.round(
+                    samplerStats.latencyMs
+                  )} ms latency (avg ${Math.round(
+                    samplerStats.avgLatencyMs
+                  )} ms) · ${samplerStats.skipped} static frames skipped`
+                : "Frames are sent as fast as the backend answers; frames with no motion are skipped"}
             </div>
           </div>
           {/* Controls */}
@@ -444,6 +477,120 @@ useEffect(() => {
                   ))
                 )}
               </RadioGroup>
+
+              {selectedCameraId && (
+                <div className="flex flex-col gap-2">
+                  <h3 className="text-sm sm:text-base font-semibold text-teal-300">
+                    Registered Camera
+                  </h3>
+                  <Select
+                    value={boundCameraId || "none"}
+                    onValueChange={handleBindingChange}
+                  >
+                    <SelectTrigger className="w-full sm:w-80 bg-gray-800 border-gray-700 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-gray-800 border-gray-700">
+                      <SelectItem value="none">Not bound</SelectItem>
+                      {registeredCameras.map((c) => (
+                        <SelectItem key={c.id} value={c.id}>
+                          {c.name} ({c.location})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {boundCamera && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setEditingZones((prev) => !prev)}
+                      className="w-fit text-cyan-500 hover:text-cyan-200"
+                    >
+                      <Shapes className="h-4 w-4 mr-2" />
+                      {editingZones ? "Done Editing Zones" : "Edit Zones"}
+                    </Button>
+                  )}
+                  {!boundCamera && (
+                    <p className="text-xs text-yellow-400">
+                      This device isn&apos;t bound to a registered camera.
+                      Detections will be filed under the default camera.{" "}
+                      <Link href="/cameras" className="underline">
+                        Manage cameras
+                      </Link>
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <div className="flex flex-col gap-2">
+                <h3 className="text-sm sm:text-base font-semibold text-teal-300">
+                  Sampling
+                </h3>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  <div className="space-y-1">
+                    <Label className="text-xs text-gray-400">Resolution</Label>
+                    <Select
+                      value={String(samplerConfig.maxWidth)}
+                      onValueChange={(v) =>
+                        updateSamplerConfig({ maxWidth: Number(v) })
+                      }
+                    >
+                      <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-gray-800 border-gray-700">
+                        {SAMPLER_WIDTHS.map((width) => (
+                          <SelectItem key={width} value={String(width)}>
+                            {width ? `${width}px wide` : "Full"}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs text-gray-400">JPEG quality</Label>
+                    <Select
+                      value={String(samplerConfig.jpegQuality)}
+                      onValueChange={(v) =>
+                        updateSamplerConfig({ jpegQuality: Number(v) })
+                      }
+                    >
+                      <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-gray-800 border-gray-700">
+                        {SAMPLER_QUALITIES.map((quality) => (
+                          <SelectItem key={quality} value={String(quality)}>
+                            {Math.round(quality * 100)}%
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs text-gray-400">
+                      Skip static frames
+                    </Label>
+                    <Select
+                      value={String(samplerConfig.motionThreshold)}
+                      onValueChange={(v) =>
+                        updateSamplerConfig({ motionThreshold: Number(v) })
+                      }
+                    >
+                      <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-gray-800 border-gray-700">
+                        {MOTION_THRESHOLDS.map(({ label, value }) => (
+                          <SelectItem key={value} value={String(value)}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </div>
             </div>
             <Badge
               variant="outline"
@@ -461,6 +608,15 @@ useEffect(() => {
                 ? "Connected"
                 : "Disconnected"}
             </Badge>
+            {backlog > 0 && (
+              <Badge
+                variant="outline"
+                className="w-fit px-3 py-1 text-sm font-semibold rounded-full text-orange-400 border-orange-400"
+              >
+                {backlog} queued
+                {isBackendConnected ? " · replaying" : " offline"}
+              </Badge>
+            )}
           </div>
 
           <canvas ref={canvasRef} width={640} height={480} className="hidden" />
@@ -478,20 +634,46 @@ useEffect(() => {
               <ul className="space-y-3 max-h-[300px] sm:max-h-[400px] overflow-y-auto">
                 {detections.map((d) => (
                   <li
-                    key={d.ts}
+                    key={d.id}
                     className="bg-gray-800/70 p-3 rounded-lg border border-teal-500/20 hover:border-teal-500/40 transition-colors"
                   >
                     <div className="flex items-center gap-2">
+                      {detectionThumbnail(d) && (
+                        <img
+                          src={detectionThumbnail(d)}
+                          alt={d.license_plate}
+                          className="h-8 w-20 object-contain bg-black rounded border border-gray-700"
+                        />
+                      )}
                       <Badge className="font-mono bg-teal-600 text-white px-3 py-1">
-                        {d.plate}
+                        {d.license_plate}
                       </Badge>
                       <span className="text-xs text-gray-400">
-                        Confidence: {d.match ?? "—"}
+                        Confidence: {(d.confidence_score * 100).toFixed(1)}%
+                      </span>
+                      {d.review_status === "needs_review" && (
+                        <Badge
+                          variant="outline"
+                          className="text-yellow-400 border-yellow-400 text-xs"
+                        >
+                          Needs review
+                        </Badge>
+                      )}
+                      {d.additional_data?.flag && (
+                        <Badge
+                          variant="outline"
+                          className="text-red-400 border-red-400 text-xs"
+                        >
+                          {d.additional_data.flag.reason}
+                        </Badge>
+                      )}
+                      <span className="text-xs text-gray-500 ml-auto">
+                        {new Date(d.detection_timestamp).toLocaleTimeString()}
                       </span>
                     </div>
-                    {d.vehicle?.owner_phone && (
+                    {d.vehicles?.owner_phone && (
                       <div className="text-xs text-teal-400 mt-1">
-                        Phone: {d.vehicle.owner_phone}
+                        Phone: {d.vehicles.owner_phone}
                       </div>
                     )}
                   </li>
@@ -0,0 +1,60 @@
+"use client";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Video } from "lucide-react";
+import CameraForm from "@/components/CameraForm";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+
+export default function NewCamera() {
+  const router = useRouter();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900/20 to-gray-900">
+      <div className="absolute inset-0 bg-[linear-gradient(rgba(6,182,212,0.1)_1px,transparent_1px),linear-gradient(90deg,rgba(6,182,212,0.1)_1px,transparent_1px)] bg-[size:50px_50px] [mask-image:radial-gradient(ellipse_80%_50%_at_50%_0%,#000_70%,transparent_110%)]" />
+      <div className="relative z-10">
+        {/* Header */}
+        <header className="border-b border-cyan-500/30 bg-gray-900/80 backdrop-blur-sm">
+          <div className="container mx-auto px-4 py-4">
+            <div className="flex items-center space-x-4">
+              <Link href="/cameras">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-cyan-400 hover:text-cyan-300"
+                >
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back to Cameras
+                </Button>
+              </Link>
+              <h1 className="text-2xl font-bold bg-gradient-to-r from-cyan-400 to-purple-400 bg-clip-text text-transparent">
+                Add Camera
+              </h1>
+            </div>
+          </div>
+        </header>
+
+        <div className="container mx-auto px-4 py-8">
+          <div className="max-w-2xl mx-auto">
+            <Card className="bg-gray-900/50 border-cyan-500/30">
+              <CardHeader>
+                <CardTitle className="text-cyan-400 flex items-center">
+                  <Video className="mr-2 h-5 w-5" />
+                  Camera Information
+                </CardTitle>
+                <CardDescription className="text-gray-400">
+                  Register a camera so detections and SMS alerts carry its real
+                  name and location.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <CameraForm onSaved={() => router.push("/cameras")} />
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
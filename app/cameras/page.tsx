@@ -0,0 +1,264 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Video,
+  Plus,
+  ArrowLeft,
+  Edit,
+  Trash2,
+  AlertCircle,
+} from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Camera } from "@/types/database";
+import Link from "next/link";
+
+const STATUS_STYLES: Record<Camera["status"], string> = {
+  online: "bg-green-500/20 text-green-400 border-green-500/30",
+  offline: "bg-gray-500/20 text-gray-400 border-gray-500/30",
+  maintenance: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
+  error: "bg-red-500/20 text-red-400 border-red-500/30",
+};
+
+export default function CamerasPage() {
+  const { user } = useAuth();
+  const [cameras, setCameras] = useState<Camera[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (user) {
+      fetchCameras();
+    }
+  }, [user]);
+
+  const fetchCameras = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("cameras")
+        .select("*")
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        setError(`Failed to load cameras: ${error.message}`);
+      } else {
+        setCameras(data || []);
+      }
+    } catch (error) {
+      console.error("Error fetching cameras:", error);
+      setError("An unexpected error occurred");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const deleteCamera = async (camera: Camera) => {
+    // detections.camera_id cascades, so deleting a camera deletes its history
+    if (
+      !confirm(
+        `Delete ${camera.name}? All of its detections will be deleted too. Untick "Active" instead to keep them.`
+      )
+    )
+      return;
+
+    try {
+      const { error } = await supabase
+        .from("cameras")
+        .delete()
+        .eq("id", camera.id);
+
+      if (error) {
+        alert(`Failed to delete camera: ${error.message}`);
+      } else {
+        setCameras(cameras.filter((c) => c.id !== camera.id));
+      }
+    } catch (error) {
+      console.error("Error deleting camera:", error);
+      alert("An unexpected error occurred");
+    }
+  };
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900/20 to-gray-900 flex items-center justify-center">
+        <div className="text-center">
+          <Video className="h-12 w-12 text-cyan-400 mx-auto mb-4" />
+          <p className="text-gray-400">Please log in to manage cameras</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900/20 to-gray-900">
+      <div className="absolute inset-0 bg-[linear-gradient(rgba(6,182,212,0.1)_1px,transparent_1px),linear-gradient(90deg,rgba(6,182,212,0.1)_1px,transparent_1px)] bg-[size:50px_50px] [mask-image:radial-gradient(ellipse_80%_50%_at_50%_0%,#000_70%,transparent_110%)]" />
+
+      <div className="relative z-10">
+        {/* Header */}
+        <header className="border-b border-cyan-500/30 bg-gray-900/80 backdrop-blur-sm">
+          <div className="container mx-auto px-4 py-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-4">
+                <Link href="/">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-cyan-400 hover:text-cyan-300"
+                  >
+                    <ArrowLeft className="h-4 w-4 mr-2" />
+                    Back
+                  </Button>
+                </Link>
+                <h1 className="text-2xl font-bold bg-gradient-to-r from-cyan-400 to-purple-400 bg-clip-text text-transparent">
+                  Cameras
+                </h1>
+                <Badge
+                  variant="secondary"
+                  className="bg-cyan-500/20 text-cyan-400 border-cyan-500/30"
+                >
+                  Total: {cameras.length}
+                </Badge>
+              </div>
+              <Link href="/cameras/new">
+                <Button className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Camera
+                </Button>
+              </Link>
+            </div>
+          </div>
+        </header>
+
+        <div className="container mx-auto px-4 py-8">
+          {/* Error Display */}
+          {error && (
+            <div className="mb-6 flex items-center space-x-2 p-4 rounded-lg border bg-red-500/10 border-red-500/30 text-red-400">
+              <AlertCircle className="h-4 w-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {/* Loading State */}
+          {loading ? (
+            <div className="text-center py-12">
+              <Video className="h-16 w-16 text-gray-600 mx-auto mb-4 animate-pulse" />
+              <p className="text-gray-400">Loading cameras...</p>
+            </div>
+          ) : cameras.length === 0 ? (
+            <div className="text-center py-12">
+              <Video className="h-16 w-16 text-gray-600 mx-auto mb-4" />
+              <h3 className="text-xl font-semibold text-gray-400 mb-2">
+                No cameras registered
+              </h3>
+              <p className="text-gray-500 mb-6">
+                Add a camera, then bind a browser device to it on the Live Feed
+                page
+              </p>
+              <Link href="/cameras/new">
+                <Button className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add First Camera
+                </Button>
+              </Link>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {cameras.map((camera) => (
+                <Card
+                  key={camera.id}
+                  className="bg-gray-900/50 border-cyan-500/30 hover:border-cyan-400/50 transition-all duration-300"
+                >
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <CardTitle className="text-cyan-400 flex items-center">
+                        <Video className="mr-2 h-5 w-5" />
+                        {camera.name}
+                      </CardTitle>
+                      <Badge className={STATUS_STYLES[camera.status]}>
+                        {camera.status}
+                      </Badge>
+                    </div>
+                    <CardDescription className="text-gray-400">
+                      {camera.location}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-3">
+                      <div className="grid grid-cols-2 gap-2 text-sm">
+                        <div>
+                          <span className="text-gray-400">Resolution:</span>
+                          <p className="text-white">{camera.resolution}</p>
+                        </div>
+                        <div>
+                          <span className="text-gray-400">FPS:</span>
+                          <p className="text-white">{camera.fps}</p>
+                        </div>
+                      </div>
+
+                      <div className="border-t border-gray-700 pt-3 text-sm">
+                        <span className="text-gray-400">Stream:</span>
+                        <p className="text-white font-mono break-all">
+                          {camera.rtsp_url || camera.stream_url}
+                        </p>
+                      </div>
+
+                      <div className="border-t border-gray-700 pt-3 text-sm">
+                        <span className="text-gray-400">Last heartbeat:</span>
+                        <p className="text-white">
+                          {camera.last_heartbeat
+                            ? new Date(camera.last_heartbeat).toLocaleString()
+                            : "Never"}
+                        </p>
+                      </div>
+
+                      {!camera.is_active && (
+                        <Badge
+                          variant="outline"
+                          className="text-gray-400 border-gray-500"
+                        >
+                          Inactive
+                        </Badge>
+                      )}
+
+                      <div className="flex space-x-2 pt-2">
+                        <Link href={`/cameras/${camera.id}/edit`}>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="flex-1 border-cyan-500/50 text-cyan-400 hover:bg-cyan-500/10 bg-transparent"
+                          >
+                            <Edit className="h-3 w-3 mr-1" />
+                            Edit
+                          </Button>
+                        </Link>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => deleteCamera(camera)}
+                          className="border-red-500/50 text-red-400 hover:bg-red-500/10 bg-transparent"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
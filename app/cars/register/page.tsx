@@ -2,7 +2,7 @@
 
 import type React from "react"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -14,9 +14,9 @@ import { supabase } from "@/lib/supabase"
 import { useAuth } from "@/contexts/AuthContext"
 import Link from "next/link"
 import { useRouter } from "next/navigation"
-import { sendCarRegistrationSms, smsService } from "@/lib/sms-service"
-import { generateWelcomeMessage, aiSmsGenerator } from "@/lib/ai-sms-generator"
+import { aiSmsGenerator } from "@/lib/ai-sms-generator"
 import { sendCarRegistrationSmsAction } from "@/app/actions/sendCarRegistrationSmsAction"
+import { normalizePlate } from "@/lib/plate-format"
 
 export default function RegisterCar() {
   const { user } = useAuth()
@@ -24,6 +24,15 @@ export default function RegisterCar() {
   const [loading, setLoading] = useState(false)
   const [sendingSms, setSendingSms] = useState(false)
   const [message, setMessage] = useState({ type: "", text: "" })
+  const [smsProvider, setSmsProvider] = useState("SMS gateway")
+
+  // The provider chain lives on the server
+  useEffect(() => {
+    fetch("/api/sms/providers")
+      .then((res) => res.json())
+      .then((data) => data.primary && setSmsProvider(data.primary))
+      .catch((error) => console.error("Failed to load SMS provider:", error))
+  }, [])
 
   const [formData, setFormData] = useState({
     license: "",
@@ -53,7 +62,7 @@ export default function RegisterCar() {
       const { data: vehicleData, error: vehicleError } = await supabase
         .from("vehicles")
         .insert({
-          license_plate: formData.license.toUpperCase(),
+          license_plate: normalizePlate(formData.license),
           make: formData.make,
           model: formData.model,
           year: Number.parseInt(formData.year),
@@ -82,39 +91,25 @@ export default function RegisterCar() {
       const messageGenType = aiSmsGenerator.isAiAvailable() ? "AI" : "template"
       setMessage({
         type: "success",
-        text: `Vehicle registered successfully! Generating ${messageGenType}-based welcome SMS via ${smsService.getProviderName()}...`,
+        text: `Vehicle registered successfully! Generating ${messageGenType}-based welcome SMS via ${smsProvider}...`,
       })
 
       try {
-        // Generate welcome message (will use templates if OpenAI not available)
-        const aiWelcomeMessage = await generateWelcomeMessage(
-          formData.ownerName,
-          formData.license.toUpperCase(),
-          formData.make,
-          formData.model,
-        )
-
         // Send SMS using Arkesel SMS service
+        const {
+          data: { session },
+        } = await supabase.auth.getSession()
         const smsResult = await sendCarRegistrationSmsAction(
           formData.ownerName,
           formData.ownerPhone,
           formData.license.toUpperCase(),
           formData.make,
-          formData.model
+          formData.model,
+          vehicleData?.id,
+          session?.access_token
         );
 
         if (smsResult.success) {
-          // Log SMS in database
-          await supabase.from("sms_messages").insert({
-            message_content: aiWelcomeMessage,
-            message_type: "car_registration",
-            recipients_count: 1,
-            status: "sent",
-            sent_at: new Date().toISOString(),
-            related_vehicle_id: vehicleData?.id,
-            sent_by: user.id,
-          })
-
           setMessage({
             type: "success",
             text: `🎉 Vehicle registered and ${messageGenType}-generated welcome SMS sent via ${smsResult.provider} to ${formData.ownerName}! Message ID: ${smsResult.messageId}`,
@@ -188,7 +183,7 @@ export default function RegisterCar() {
               <div className="ml-auto flex items-center space-x-2">
                 <span className="text-xs text-gray-400 bg-gray-800 px-2 py-1 rounded flex items-center">
                   <MessageSquare className="h-3 w-3 mr-1" />
-                  SMS: {smsService.getProviderName()}
+                  SMS: {smsProvider}
                 </span>
                 <span className="text-xs text-gray-400 bg-gray-800 px-2 py-1 rounded flex items-center">
                   {aiSmsGenerator.isAiAvailable() ? (
@@ -0,0 +1,515 @@
+"use client";
+
+import type React from "react";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ArrowLeft,
+  AlertCircle,
+  ChevronLeft,
+  ChevronRight,
+  ClipboardCheck,
+  Upload,
+  Filter,
+  History,
+  Search,
+} from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  searchDetections,
+  type DetectionFilters,
+} from "@/lib/detection-search";
+import { detectionThumbnail } from "@/lib/plate-format";
+import type {
+  Camera,
+  DetectionWithRelations,
+  PaginatedResponse,
+} from "@/types/database";
+import Link from "next/link";
+
+const PAGE_SIZE = 25;
+
+const emptyFilters = {
+  plate: "",
+  cameraId: "all",
+  from: "",
+  to: "",
+  minConfidence: "",
+  maxConfidence: "",
+  verified: "all" as DetectionFilters["verified"],
+  match: "all" as DetectionFilters["match"],
+};
+
+export default function DetectionHistory() {
+  const { user } = useAuth();
+  const [cameras, setCameras] = useState<Pick<Camera, "id" | "name">[]>([]);
+  const [form, setForm] = useState(emptyFilters);
+  const [filters, setFilters] = useState<DetectionFilters>({});
+  const [page, setPage] = useState(1);
+  const [result, setResult] =
+    useState<PaginatedResponse<DetectionWithRelations> | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (user) {
+      fetchCameras();
+    }
+  }, [user]);
+
+  const fetchCameras = async () => {
+    const { data, error } = await supabase
+      .from("cameras")
+      .select("id, name")
+      .order("name");
+
+    if (error) {
+      console.error("Error fetching cameras:", error);
+    } else {
+      setCameras(data || []);
+    }
+  };
+
+  const fetchDetections = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError("");
+      setResult(await searchDetections(filters, page, PAGE_SIZE));
+    } catch (error: any) {
+      console.error("Error fetching detections:", error);
+      setError(`Failed to load detections: ${error.message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, page]);
+
+  useEffect(() => {
+    if (user) {
+      fetchDetections();
+    }
+  }, [user, fetchDetections]);
+
+  const handleFilterChange = (field: keyof typeof form, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const parseConfidence = (value: string) =>
+    value === "" ? undefined : Number(value) / 100;
+
+  const handleApplyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setFilters({
+      plate: form.plate || undefined,
+      cameraId: form.cameraId === "all" ? undefined : form.cameraId,
+      from: form.from || undefined,
+      to: form.to || undefined,
+      minConfidence: parseConfidence(form.minConfidence),
+      maxConfidence: parseConfidence(form.maxConfidence),
+      verified: form.verified,
+      match: form.match,
+    });
+  };
+
+  const handleResetFilters = () => {
+    setForm(emptyFilters);
+    setFilters({});
+    setPage(1);
+  };
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900/20 to-gray-900 flex items-center justify-center">
+        <div className="text-center">
+          <History className="h-12 w-12 text-cyan-400 mx-auto mb-4" />
+          <p className="text-gray-400">
+            Please log in to access detection history
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900/20 to-gray-900">
+      <div className="absolute inset-0 bg-[linear-gradient(rgba(6,182,212,0.1)_1px,transparent_1px),linear-gradient(90deg,rgba(6,182,212,0.1)_1px,transparent_1px)] bg-[size:50px_50px] [mask-image:radial-gradient(ellipse_80%_50%_at_50%_0%,#000_70%,transparent_110%)]" />
+
+      <div className="relative z-10">
+        {/* Header */}
+        <header className="border-b border-cyan-500/30 bg-gray-900/80 backdrop-blur-sm">
+          <div className="container mx-auto px-4 py-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-4">
+                <Link href="/">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-cyan-400 hover:text-cyan-300"
+                  >
+                    <ArrowLeft className="h-4 w-4 mr-2" />
+                    Back
+                  </Button>
+                </Link>
+                <h1 className="text-2xl font-bold bg-gradient-to-r from-cyan-400 to-purple-400 bg-clip-text text-transparent">
+                  Detection History
+                </h1>
+              </div>
+              <div className="flex items-center space-x-4">
+                <Link href="/detections/review">
+                  <Button
+                    size="sm"
+                    className="bg-yellow-500/20 hover:bg-yellow-500/30 text-yellow-400 border border-yellow-500/50"
+                  >
+                    <ClipboardCheck className="h-4 w-4 mr-2" />
+                    Review Queue
+                  </Button>
+                </Link>
+                <Link href="/detections/upload">
+                  <Button
+                    size="sm"
+                    className="bg-cyan-500/20 hover:bg-cyan-500/30 text-cyan-400 border border-cyan-500/50"
+                  >
+                    <Upload className="h-4 w-4 mr-2" />
+                    Upload Footage
+                  </Button>
+                </Link>
+                <Badge
+                  variant="secondary"
+                  className="bg-cyan-500/20 text-cyan-400 border-cyan-500/30"
+                >
+                  Total: {result?.count ?? 0}
+                </Badge>
+              </div>
+            </div>
+          </div>
+        </header>
+
+        <div className="container mx-auto px-4 py-8">
+          {/* Error Display */}
+          {error && (
+            <div className="mb-6 flex items-center space-x-2 p-4 rounded-lg border bg-red-500/10 border-red-500/30 text-red-400">
+              <AlertCircle className="h-4 w-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {/* Filters */}
+          <Card className="mb-8 bg-gray-900/50 border-cyan-500/30">
+            <CardHeader>
+              <CardTitle className="text-cyan-400 flex items-center">
+                <Filter className="mr-2 h-5 w-5" />
+                Filters
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form
+                onSubmit={handleApplyFilters}
+                className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4"
+              >
+                <div className="space-y-2">
+                  <Label htmlFor="plate" className="text-gray-300">
+                    License Plate
+                  </Label>
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                    <Input
+                      id="plate"
+                      placeholder="Full or partial plate"
+                      value={form.plate}
+                      onChange={(e) => handleFilterChange("plate", e.target.value)}
+                      className="pl-10 bg-gray-800 border-gray-700 text-white placeholder-gray-400"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label className="text-gray-300">Camera</Label>
+                  <Select
+                    value={form.cameraId}
+                    onValueChange={(value) => handleFilterChange("cameraId", value)}
+                  >
+                    <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                      <SelectValue placeholder="All cameras" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-gray-800 border-gray-700">
+                      <SelectItem value="all">All cameras</SelectItem>
+                      {cameras.map((camera) => (
+                        <SelectItem key={camera.id} value={camera.id}>
+                          {camera.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="from" className="text-gray-300">
+                    From
+                  </Label>
+                  <Input
+                    id="from"
+                    type="datetime-local"
+                    value={form.from}
+                    onChange={(e) => handleFilterChange("from", e.target.value)}
+                    className="bg-gray-800 border-gray-700 text-white"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="to" className="text-gray-300">
+                    To
+                  </Label>
+                  <Input
+                    id="to"
+                    type="datetime-local"
+                    value={form.to}
+                    onChange={(e) => handleFilterChange("to", e.target.value)}
+                    className="bg-gray-800 border-gray-700 text-white"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label className="text-gray-300">Confidence (%)</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      placeholder="Min"
+                      value={form.minConfidence}
+                      onChange={(e) =>
+                        handleFilterChange("minConfidence", e.target.value)
+                      }
+                      className="bg-gray-800 border-gray-700 text-white placeholder-gray-400"
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      placeholder="Max"
+                      value={form.maxConfidence}
+                      onChange={(e) =>
+                        handleFilterChange("maxConfidence", e.target.value)
+                      }
+                      className="bg-gray-800 border-gray-700 text-white placeholder-gray-400"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label className="text-gray-300">Verification</Label>
+                  <Select
+                    value={form.verified}
+                    onValueChange={(value) => handleFilterChange("verified", value)}
+                  >
+                    <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-gray-800 border-gray-700">
+                      <SelectItem value="all">All</SelectItem>
+                      <SelectItem value="verified">Verified</SelectItem>
+                      <SelectItem value="unverified">Unverified</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label className="text-gray-300">Vehicle</Label>
+                  <Select
+                    value={form.match}
+                    onValueChange={(value) => handleFilterChange("match", value)}
+                  >
+                    <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-gray-800 border-gray-700">
+                      <SelectItem value="all">All</SelectItem>
+                      <SelectItem value="matched">Registered</SelectItem>
+                      <SelectItem value="unknown">Unknown</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="flex items-end gap-2">
+                  <Button
+                    type="submit"
+                    className="flex-1 bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600"
+                  >
+                    Apply
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handleResetFilters}
+                    className="border-gray-600 text-gray-300 hover:bg-gray-800 bg-transparent"
+                  >
+                    Reset
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+
+          {/* Results */}
+          {loading ? (
+            <div className="text-center py-12">
+              <History className="h-16 w-16 text-gray-600 mx-auto mb-4 animate-pulse" />
+              <p className="text-gray-400">Loading detections...</p>
+            </div>
+          ) : !result || result.data.length === 0 ? (
+            <div className="text-center py-12">
+              <History className="h-16 w-16 text-gray-600 mx-auto mb-4" />
+              <h3 className="text-xl font-semibold text-gray-400 mb-2">
+                No detections found
+              </h3>
+              <p className="text-gray-500">Try adjusting your filters</p>
+            </div>
+          ) : (
+            <>
+              <div className="overflow-x-auto rounded-lg border border-cyan-500/30 bg-gray-900/50">
+                <table className="w-full text-sm">
+                  <thead className="text-left text-gray-400 border-b border-gray-700">
+                    <tr>
+                      <th className="px-4 py-3 font-medium">Image</th>
+                      <th className="px-4 py-3 font-medium">Plate</th>
+                      <th className="px-4 py-3 font-medium">Time</th>
+                      <th className="px-4 py-3 font-medium">Camera</th>
+                      <th className="px-4 py-3 font-medium">Vehicle</th>
+                      <th className="px-4 py-3 font-medium">Confidence</th>
+                      <th className="px-4 py-3 font-medium">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.data.map((d) => (
+                      <tr
+                        key={d.id}
+                        className="border-b border-gray-800 hover:bg-gray-800/40"
+                      >
+                        <td className="px-4 py-2">
+                          {detectionThumbnail(d) ? (
+                            <a
+                              href={detectionThumbnail(d)}
+                              target="_blank"
+                              rel="noreferrer"
+                            >
+                              <img
+                                src={detectionThumbnail(d)}
+                                alt={d.license_plate}
+                                loading="lazy"
+                                className="h-8 w-24 object-contain bg-black rounded border border-gray-700"
+                              />
+                            </a>
+                          ) : (
+                            <span className="text-gray-600">—</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3">
+                          <Badge className="font-mono bg-teal-600 text-white">
+                            {d.license_plate}
+                          </Badge>
+                        </td>
+                        <td className="px-4 py-3 text-gray-300">
+                          {new Date(d.detection_timestamp).toLocaleString()}
+                        </td>
+                        <td className="px-4 py-3 text-gray-300">
+                          {d.cameras?.name ?? "—"}
+                          {d.cameras?.location && (
+                            <span className="block text-xs text-gray-500">
+                              {d.cameras.location}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3">
+                          {d.vehicles ? (
+                            <span className="text-white">
+                              {d.vehicles.owner_name}
+                              <span className="block text-xs text-gray-500">
+                                {d.vehicles.owner_phone}
+                              </span>
+                            </span>
+                          ) : (
+                            <span className="text-yellow-400">Unknown</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-gray-300">
+                          {(d.confidence_score * 100).toFixed(1)}%
+                        </td>
+                        <td className="px-4 py-3 space-x-1">
+                          <Badge
+                            variant="outline"
+                            className={
+                              d.is_verified
+                                ? "border-green-500/50 text-green-400"
+                                : "border-gray-500/50 text-gray-400"
+                            }
+                          >
+                            {d.is_verified ? "verified" : "unverified"}
+                          </Badge>
+                          {d.review_status === "needs_review" && (
+                            <Badge
+                              variant="outline"
+                              className="border-yellow-500/50 text-yellow-400"
+                            >
+                              needs review
+                            </Badge>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Pagination */}
+              <div className="flex items-center justify-between mt-6">
+                <span className="text-sm text-gray-400">
+                  Page {result.page} of {result.totalPages}
+                </span>
+                <div className="flex space-x-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setPage((p) => p - 1)}
+                    disabled={page <= 1}
+                    className="border-cyan-500/50 text-cyan-400 hover:bg-cyan-500/10 bg-transparent"
+                  >
+                    <ChevronLeft className="h-4 w-4 mr-1" />
+                    Previous
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setPage((p) => p + 1)}
+                    disabled={page >= result.totalPages}
+                    className="border-cyan-500/50 text-cyan-400 hover:bg-cyan-500/10 bg-transparent"
+                  >
+                    Next
+                    <ChevronRight className="h-4 w-4 ml-1" />
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
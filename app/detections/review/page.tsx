@@ -0,0 +1,323 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ArrowLeft,
+  AlertCircle,
+  CheckCircle,
+  ClipboardCheck,
+  Pencil,
+  XCircle,
+} from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  searchDetections,
+  type DetectionFilters,
+} from "@/lib/detection-search";
+import { toImageSrc } from "@/lib/plate-format";
+import { getAccessToken } from "@/lib/supabase";
+import type { DetectionWithRelations } from "@/types/database";
+import { reviewDetectionAction } from "../../actions/reviewDetectionAction";
+import type { ReviewDecision } from "@/lib/detection-review";
+import Link from "next/link";
+
+const QUEUE_SIZE = 20;
+
+const QUEUES: Record<string, DetectionFilters> = {
+  needs_review: { review: "needs_review" },
+  // Rejected reads are unverified too, but already dealt with
+  unverified: { verified: "unverified", review: ["needs_review", "accepted"] },
+};
+
+export default function ReviewQueue() {
+  const { user } = useAuth();
+  const [queue, setQueue] = useState("needs_review");
+  const [detections, setDetections] = useState<DetectionWithRelations[]>([]);
+  const [total, setTotal] = useState(0);
+  const [corrections, setCorrections] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState({ type: "", text: "" });
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      setLoading(true);
+      const result = await searchDetections(QUEUES[queue], 1, QUEUE_SIZE);
+      setDetections(result.data);
+      setTotal(result.count);
+    } catch (error: any) {
+      console.error("Error loading review queue:", error);
+      setMessage({
+        type: "error",
+        text: `Failed to load review queue: ${error.message}`,
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [queue]);
+
+  useEffect(() => {
+    if (user) {
+      fetchQueue();
+    }
+  }, [user, fetchQueue]);
+
+  const handleDecision = async (
+    detection: DetectionWithRelations,
+    decision: ReviewDecision
+  ) => {
+    if (!user) return;
+
+    const correctedPlate = corrections[detection.id];
+    if (decision === "correct" && !correctedPlate?.trim()) {
+      setMessage({ type: "error", text: "Enter the corrected plate first" });
+      return;
+    }
+
+    setBusyId(detection.id);
+    setMessage({ type: "", text: "" });
+
+    try {
+      const updated = await reviewDetectionAction(
+        detection.id,
+        decision,
+        (await getAccessToken()) ?? "",
+        correctedPlate
+      );
+      setMessage({
+        type: "success",
+        text: `${updated.license_plate} ${updated.review_status}`,
+      });
+      setDetections((prev) => prev.filter((d) => d.id !== detection.id));
+      setTotal((prev) => prev - 1);
+    } catch (error: any) {
+      console.error("Review failed:", error);
+      setMessage({ type: "error", text: `Review failed: ${error.message}` });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900/20 to-gray-900 flex items-center justify-center">
+        <div className="text-center">
+          <ClipboardCheck className="h-12 w-12 text-cyan-400 mx-auto mb-4" />
+          <p className="text-gray-400">Please log in to review detections</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900/20 to-gray-900">
+      <div className="absolute inset-0 bg-[linear-gradient(rgba(6,182,212,0.1)_1px,transparent_1px),linear-gradient(90deg,rgba(6,182,212,0.1)_1px,transparent_1px)] bg-[size:50px_50px] [mask-image:radial-gradient(ellipse_80%_50%_at_50%_0%,#000_70%,transparent_110%)]" />
+
+      <div className="relative z-10">
+        {/* Header */}
+        <header className="border-b border-cyan-500/30 bg-gray-900/80 backdrop-blur-sm">
+          <div className="container mx-auto px-4 py-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-4">
+                <Link href="/detections">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-cyan-400 hover:text-cyan-300"
+                  >
+                    <ArrowLeft className="h-4 w-4 mr-2" />
+                    Back
+                  </Button>
+                </Link>
+                <h1 className="text-2xl font-bold bg-gradient-to-r from-cyan-400 to-purple-400 bg-clip-text text-transparent">
+                  Review Queue
+                </h1>
+                <Badge
+                  variant="outline"
+                  className="border-yellow-500/50 text-yellow-400"
+                >
+                  {total} pending
+                </Badge>
+              </div>
+              <Select value={queue} onValueChange={setQueue}>
+                <SelectTrigger className="w-48 bg-gray-800 border-gray-700 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-800 border-gray-700">
+                  <SelectItem value="needs_review">Needs review</SelectItem>
+                  <SelectItem value="unverified">All unverified</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </header>
+
+        <div className="container mx-auto px-4 py-8">
+          {/* Message Display */}
+          {message.text && (
+            <div
+              className={`mb-6 flex items-center space-x-2 p-4 rounded-lg border ${
+                message.type === "error"
+                  ? "bg-red-500/10 border-red-500/30 text-red-400"
+                  : "bg-green-500/10 border-green-500/30 text-green-400"
+              }`}
+            >
+              {message.type === "error" ? (
+                <AlertCircle className="h-4 w-4 flex-shrink-0" />
+              ) : (
+                <CheckCircle className="h-4 w-4 flex-shrink-0" />
+              )}
+              <span>{message.text}</span>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-12">
+              <ClipboardCheck className="h-16 w-16 text-gray-600 mx-auto mb-4 animate-pulse" />
+              <p className="text-gray-400">Loading review queue...</p>
+            </div>
+          ) : detections.length === 0 ? (
+            <div className="text-center py-12">
+              <ClipboardCheck className="h-16 w-16 text-gray-600 mx-auto mb-4" />
+              <h3 className="text-xl font-semibold text-gray-400 mb-2">
+                Nothing to review
+              </h3>
+              <p className="text-gray-500">All detections have been handled</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {detections.map((d) => {
+                const images = d.additional_data?.images ?? {};
+                const busy = busyId === d.id;
+
+                return (
+                  <Card
+                    key={d.id}
+                    className="bg-gray-900/50 border-cyan-500/30"
+                  >
+                    <CardContent className="p-4 flex flex-col lg:flex-row gap-4">
+                      {/* Crops */}
+                      <div className="flex gap-3">
+                        {(["raw_crop", "processed_crop"] as const).map((key) => (
+                          <div key={key} className="text-center">
+                            {toImageSrc(images[key]) ? (
+                              <img
+                                src={toImageSrc(images[key])}
+                                alt={`${d.license_plate} ${key}`}
+                                className="h-20 w-48 object-contain bg-black rounded border border-gray-700"
+                              />
+                            ) : (
+                              <div className="h-20 w-48 flex items-center justify-center bg-gray-800 rounded border border-gray-700 text-xs text-gray-500">
+                                No image
+                              </div>
+                            )}
+                            <span className="text-xs text-gray-500">
+                              {key === "raw_crop" ? "Raw" : "Processed"}
+                            </span>
+                          </div>
+                        ))}
+                        {images.frame && (
+                          <a
+                            href={images.frame}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="self-center text-xs text-cyan-400 hover:text-cyan-300"
+                          >
+                            Full frame
+                          </a>
+                        )}
+                      </div>
+
+                      {/* OCR read */}
+                      <div className="flex-1 space-y-1">
+                        <div className="flex items-center gap-2">
+                          <Badge className="font-mono text-base bg-teal-600 text-white">
+                            {d.license_plate}
+                          </Badge>
+                          <span className="text-sm text-gray-400">
+                            {(d.confidence_score * 100).toFixed(1)}%
+                          </span>
+                        </div>
+                        <p className="text-sm text-gray-400">
+                          {d.cameras?.name ?? "Unknown camera"} ·{" "}
+                          {new Date(d.detection_timestamp).toLocaleString()}
+                        </p>
+                        <p className="text-sm">
+                          {d.vehicles ? (
+                            <span className="text-white">
+                              {d.vehicles.owner_name}
+                            </span>
+                          ) : (
+                            <span className="text-yellow-400">
+                              Unregistered plate
+                            </span>
+                          )}
+                        </p>
+                      </div>
+
+                      {/* Decision */}
+                      <div className="flex flex-col gap-2 lg:w-72">
+                        <Input
+                          placeholder="Corrected plate"
+                          value={corrections[d.id] ?? ""}
+                          onChange={(e) =>
+                            setCorrections((prev) => ({
+                              ...prev,
+                              [d.id]: e.target.value,
+                            }))
+                          }
+                          className="bg-gray-800 border-gray-700 text-white placeholder-gray-400 font-mono"
+                          disabled={busy}
+                        />
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            onClick={() => handleDecision(d, "confirm")}
+                            disabled={busy}
+                            className="flex-1 bg-green-500/20 hover:bg-green-500/30 text-green-400 border border-green-500/50"
+                          >
+                            <CheckCircle className="h-3 w-3 mr-1" />
+                            Confirm
+                          </Button>
+                          <Button
+                            size="sm"
+                            onClick={() => handleDecision(d, "correct")}
+                            disabled={busy}
+                            className="flex-1 bg-cyan-500/20 hover:bg-cyan-500/30 text-cyan-400 border border-cyan-500/50"
+                          >
+                            <Pencil className="h-3 w-3 mr-1" />
+                            Correct
+                          </Button>
+                          <Button
+                            size="sm"
+                            onClick={() => handleDecision(d, "reject")}
+                            disabled={busy}
+                            className="flex-1 bg-red-500/20 hover:bg-red-500/30 text-red-400 border border-red-500/50"
+                          >
+                            <XCircle className="h-3 w-3 mr-1" />
+                            Reject
+                          </Button>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
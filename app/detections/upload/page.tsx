@@ -0,0 +1,579 @@
+"use client";
+
+import type React from "react";
+
+import { useState, useEffect, useRef } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ArrowLeft,
+  AlertCircle,
+  CheckCircle,
+  Film,
+  FolderOpen,
+  Play,
+  Save,
+  Square,
+  Upload,
+} from "lucide-react";
+import { getAccessToken, supabase } from "@/lib/supabase";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  createDetectionBackend,
+  DETECTION_PROXY_CONFIG,
+} from "@/lib/detection-backend";
+import {
+  runBatchDetection,
+  sampleImages,
+  sampleVideo,
+  sortImageFiles,
+  type BatchProgress,
+  type TimelineEntry,
+} from "@/lib/batch-detection";
+import { toImageSrc } from "@/lib/plate-format";
+import type { Camera } from "@/types/database";
+import { importDetectionsAction } from "../../actions/importDetectionsAction";
+import Link from "next/link";
+
+const detectionBackend = createDetectionBackend(DETECTION_PROXY_CONFIG);
+
+type SourceMode = "video" | "images";
+
+// datetime-local wants local time without a zone
+const toLocalInput = (ms: number) => {
+  const d = new Date(ms);
+  d.setMinutes(d.getMinutes() - d.getTimezoneOffset());
+  return d.toISOString().slice(0, 19);
+};
+
+const formatOffset = (seconds: number) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60);
+  return [h, m, s].map((n) => String(n).padStart(2, "0")).join(":");
+};
+
+export default function FootageUpload() {
+  const { user } = useAuth();
+  const [cameras, setCameras] = useState<Camera[]>([]);
+  const [mode, setMode] = useState<SourceMode>("video");
+  const [videoFile, setVideoFile] = useState<File | null>(null);
+  const [videoUrl, setVideoUrl] = useState<string>("");
+  const [imageFiles, setImageFiles] = useState<File[]>([]);
+  const [interval, setIntervalSeconds] = useState("1");
+  const [startTime, setStartTime] = useState("");
+  const [cameraId, setCameraId] = useState("none");
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
+  const [timeline, setTimeline] = useState<TimelineEntry[]>([]);
+  const [processing, setProcessing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [savedCount, setSavedCount] = useState<number | null>(null);
+  const [message, setMessage] = useState({ type: "", text: "" });
+  const abortRef = useRef<AbortController | null>(null);
+  const previewRef = useRef<HTMLVideoElement | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    supabase
+      .from("cameras")
+      .select("*")
+      .order("name")
+      .then(({ data, error }) => {
+        if (error) console.error("Error loading cameras:", error);
+        setCameras(data || []);
+      });
+  }, [user]);
+
+  useEffect(() => {
+    if (!videoFile) return;
+    const url = URL.createObjectURL(videoFile);
+    setVideoUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [videoFile]);
+
+  const resetResults = () => {
+    setTimeline([]);
+    setProgress(null);
+    setSavedCount(null);
+    setMessage({ type: "", text: "" });
+  };
+
+  const handleVideoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] ?? null;
+    setVideoFile(file);
+    resetResults();
+    if (file) setStartTime(toLocalInput(file.lastModified));
+  };
+
+  const handleImagesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setImageFiles(sortImageFiles(Array.from(e.target.files ?? [])));
+    resetResults();
+  };
+
+  const handleProcess = async () => {
+    const intervalSeconds = Math.max(0.1, Number(interval) || 1);
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    resetResults();
+    setProcessing(true);
+
+    try {
+      const frames =
+        mode === "video" && videoFile
+          ? sampleVideo(
+              videoFile,
+              intervalSeconds,
+              startTime ? new Date(startTime).getTime() : videoFile.lastModified,
+              controller.signal
+            )
+          : sampleImages(imageFiles, controller.signal);
+
+      const results = await runBatchDetection(
+        frames,
+        detectionBackend,
+        intervalSeconds,
+        setProgress
+      );
+
+      setTimeline(results);
+      setMessage({
+        type: "success",
+        text: controller.signal.aborted
+          ? `Stopped early: ${results.length} plates found so far`
+          : `Found ${results.length} plates`,
+      });
+    } catch (error) {
+      console.error("Batch detection failed:", error);
+      setMessage({
+        type: "error",
+        text:
+          error instanceof Error ? error.message : "Batch detection failed",
+      });
+    } finally {
+      setProcessing(false);
+      abortRef.current = null;
+    }
+  };
+
+  const handleSave = async () => {
+    if (cameraId === "none" || timeline.length === 0) return;
+
+    setSaving(true);
+    setMessage({ type: "", text: "" });
+
+    try {
+      // Zones are matched against each frame's own size
+      const groups = new Map<string, TimelineEntry[]>();
+      for (const entry of timeline) {
+        const key = `${entry.sourceFile}|${entry.frameSize.width}x${entry.frameSize.height}`;
+        groups.set(key, [...(groups.get(key) ?? []), entry]);
+      }
+
+      const accessToken = (await getAccessToken()) ?? "";
+      let saved = 0;
+      let failed = 0;
+      for (const entries of groups.values()) {
+        const result = await importDetectionsAction(
+          accessToken,
+          entries.map(({ offset, sourceFile, frameSize, ...plate }) => plate),
+          cameraId,
+          entries[0].sourceFile,
+          entries[0].frameSize
+        );
+        saved += result.detections.length;
+        failed += result.failed;
+      }
+
+      const outsideZones = timeline.length - saved - failed;
+      setSavedCount(saved);
+      setMessage({
+        type: failed ? "error" : "success",
+        text: `Saved ${saved} detections${
+          outsideZones
+            ? ` (${outsideZones} fell outside the camera's detection zones)`
+            : ""
+        }.${failed ? ` ${failed} could not be saved.` : ""} No alerts were sent.`,
+      });
+    } catch (error) {
+      console.error("Error saving detections:", error);
+      setMessage({ type: "error", text: "Failed to save detections" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const seekTo = (offset?: number) => {
+    if (offset === undefined || !previewRef.current) return;
+    previewRef.current.currentTime = offset;
+    previewRef.current.scrollIntoView({ behavior: "smooth", block: "center" });
+  };
+
+  const hasSource = mode === "video" ? !!videoFile : imageFiles.length > 0;
+  const percent = progress
+    ? Math.round((progress.processed / progress.total) * 100)
+    : 0;
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900/20 to-gray-900 flex items-center justify-center">
+        <div className="text-center">
+          <Upload className="h-12 w-12 text-cyan-400 mx-auto mb-4" />
+          <p className="text-gray-400">Please log in to analyse footage</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900/20 to-gray-900">
+      <div className="absolute inset-0 bg-[linear-gradient(rgba(6,182,212,0.1)_1px,transparent_1px),linear-gradient(90deg,rgba(6,182,212,0.1)_1px,transparent_1px)] bg-[size:50px_50px] [mask-image:radial-gradient(ellipse_80%_50%_at_50%_0%,#000_70%,transparent_110%)]" />
+
+      <div className="relative z-10">
+        {/* Header */}
+        <header className="border-b border-cyan-500/30 bg-gray-900/80 backdrop-blur-sm">
+          <div className="container mx-auto px-4 py-4">
+            <div className="flex items-center space-x-4">
+              <Link href="/detections">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-cyan-400 hover:text-cyan-300"
+                >
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back
+                </Button>
+              </Link>
+              <h1 className="text-2xl font-bold bg-gradient-to-r from-cyan-400 to-purple-400 bg-clip-text text-transparent">
+                Footage Upload
+              </h1>
+            </div>
+          </div>
+        </header>
+
+        <div className="container mx-auto px-4 py-8 space-y-8">
+          {/* Message Display */}
+          {message.text && (
+            <div
+              className={`flex items-center space-x-2 p-4 rounded-lg border ${
+                message.type === "error"
+                  ? "bg-red-500/10 border-red-500/30 text-red-400"
+                  : "bg-green-500/10 border-green-500/30 text-green-400"
+              }`}
+            >
+              {message.type === "error" ? (
+                <AlertCircle className="h-4 w-4 flex-shrink-0" />
+              ) : (
+                <CheckCircle className="h-4 w-4 flex-shrink-0" />
+              )}
+              <span>{message.text}</span>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            {/* Source */}
+            <Card className="bg-gray-900/50 border-cyan-500/30">
+              <CardHeader>
+                <CardTitle className="text-cyan-400 flex items-center">
+                  <Upload className="mr-2 h-5 w-5" />
+                  Source
+                </CardTitle>
+                <CardDescription className="text-gray-400">
+                  Frames are sampled in your browser and sent through the
+                  detection backend. Nothing is saved until you choose a
+                  camera below.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex gap-2">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={mode === "video" ? "default" : "ghost"}
+                    onClick={() => setMode("video")}
+                    disabled={processing}
+                    className={
+                      mode === "video" ? "bg-cyan-600" : "text-gray-300"
+                    }
+                  >
+                    <Film className="h-4 w-4 mr-2" />
+                    Video file
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={mode === "images" ? "default" : "ghost"}
+                    onClick={() => setMode("images")}
+                    disabled={processing}
+                    className={
+                      mode === "images" ? "bg-cyan-600" : "text-gray-300"
+                    }
+                  >
+                    <FolderOpen className="h-4 w-4 mr-2" />
+                    Image folder
+                  </Button>
+                </div>
+
+                {mode === "video" ? (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="video" className="text-gray-300">
+                        Video
+                      </Label>
+                      <Input
+                        id="video"
+                        type="file"
+                        accept="video/*"
+                        onChange={handleVideoChange}
+                        disabled={processing}
+                        className="bg-gray-800 border-gray-700 text-white"
+                      />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="interval" className="text-gray-300">
+                          Sample every (seconds)
+                        </Label>
+                        <Input
+                          id="interval"
+                          type="number"
+                          min={0.1}
+                          step={0.1}
+                          value={interval}
+                          onChange={(e) => setIntervalSeconds(e.target.value)}
+                          disabled={processing}
+                          className="bg-gray-800 border-gray-700 text-white"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="startTime" className="text-gray-300">
+                          Recording started
+                        </Label>
+                        <Input
+                          id="startTime"
+                          type="datetime-local"
+                          step={1}
+                          value={startTime}
+                          onChange={(e) => setStartTime(e.target.value)}
+                          disabled={processing}
+                          className="bg-gray-800 border-gray-700 text-white"
+                        />
+                      </div>
+                    </div>
+                  </>
+                ) : (
+                  <div className="space-y-2">
+                    <Label htmlFor="images" className="text-gray-300">
+                      Folder of images
+                    </Label>
+                    <Input
+                      id="images"
+                      type="file"
+                      accept="image/*"
+                      multiple
+                      onChange={handleImagesChange}
+                      disabled={processing}
+                      className="bg-gray-800 border-gray-700 text-white"
+                      {...({ webkitdirectory: "" } as Record<string, string>)}
+                    />
+                    <p className="text-xs text-gray-500">
+                      {imageFiles.length
+                        ? `${imageFiles.length} images, in filename order. Each image's modified time is used as its timestamp.`
+                        : "Each image's modified time is used as its timestamp."}
+                    </p>
+                  </div>
+                )}
+
+                <div className="flex gap-2">
+                  <Button
+                    onClick={handleProcess}
+                    disabled={!hasSource || processing}
+                    className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600 text-white"
+                  >
+                    <Play className="h-4 w-4 mr-2" />
+                    {processing ? "Processing..." : "Detect Plates"}
+                  </Button>
+                  {processing && (
+                    <Button
+                      variant="ghost"
+                      onClick={() => abortRef.current?.abort()}
+                      className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                    >
+                      <Square className="h-4 w-4 mr-2" />
+                      Stop
+                    </Button>
+                  )}
+                </div>
+
+                {progress && (
+                  <div className="space-y-1">
+                    <div className="h-2 rounded-full bg-gray-700 overflow-hidden">
+                      <div
+                        className="h-full bg-cyan-400 transition-all"
+                        style={{ width: `${percent}%` }}
+                      />
+                    </div>
+                    <p className="text-xs text-gray-400">
+                      Frame {progress.processed} of {progress.total} ·{" "}
+                      {progress.plates} plates
+                    </p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Preview & Save */}
+            <Card className="bg-gray-900/50 border-cyan-500/30">
+              <CardHeader>
+                <CardTitle className="text-cyan-400 flex items-center">
+                  <Save className="mr-2 h-5 w-5" />
+                  Save Results
+                </CardTitle>
+                <CardDescription className="text-gray-400">
+                  Saved plates are filed under the chosen camera at the time
+                  they appeared in the footage. Imports never send alerts.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {mode === "video" && videoUrl && (
+                  <video
+                    ref={previewRef}
+                    src={videoUrl}
+                    controls
+                    muted
+                    onLoadedMetadata={(e) => {
+                      // DVR exports are written when the clip ends, so start one duration earlier
+                      if (!videoFile) return;
+                      const duration = e.currentTarget.duration;
+                      if (Number.isFinite(duration)) {
+                        setStartTime(
+                          toLocalInput(videoFile.lastModified - duration * 1000)
+                        );
+                      }
+                    }}
+                    className="w-full rounded-lg border border-cyan-500/30"
+                  />
+                )}
+
+                <div className="space-y-2">
+                  <Label className="text-gray-300">Camera</Label>
+                  <Select value={cameraId} onValueChange={setCameraId}>
+                    <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-gray-800 border-gray-700">
+                      <SelectItem value="none">Don&apos;t save</SelectItem>
+                      {cameras.map((c) => (
+                        <SelectItem key={c.id} value={c.id}>
+                          {c.name} ({c.location})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <Button
+                  onClick={handleSave}
+                  disabled={
+                    cameraId === "none" ||
+                    timeline.length === 0 ||
+                    processing ||
+                    saving ||
+                    savedCount !== null
+                  }
+                  className="w-full bg-teal-600 hover:bg-teal-700"
+                >
+                  <Save className="h-4 w-4 mr-2" />
+                  {saving
+                    ? "Saving..."
+                    : savedCount !== null
+                    ? `Saved ${savedCount} detections`
+                    : `Save ${timeline.length} detections`}
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Timeline */}
+          <Card className="bg-gray-900/50 border-cyan-500/30">
+            <CardHeader>
+              <CardTitle className="text-cyan-400">Timeline</CardTitle>
+              <CardDescription className="text-gray-400">
+                {timeline.length} plates
+                {mode === "video" && timeline.length > 0
+                  ? " · click a time to jump to it in the video"
+                  : ""}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {timeline.length === 0 ? (
+                <p className="text-gray-400">
+                  {processing ? "Scanning..." : "No plates yet"}
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {timeline.map((entry, i) => (
+                    <div
+                      key={`${entry.captured_at}-${entry.plate}-${i}`}
+                      className="flex flex-col sm:flex-row sm:items-center gap-4 p-3 bg-gray-800/50 rounded-lg border border-gray-700"
+                    >
+                      <button
+                        type="button"
+                        onClick={() => seekTo(entry.offset)}
+                        className="text-left w-44 shrink-0"
+                        disabled={entry.offset === undefined}
+                      >
+                        <p className="text-sm text-white">
+                          {new Date(entry.captured_at).toLocaleString()}
+                        </p>
+                        <p className="text-xs text-cyan-400 font-mono">
+                          {entry.offset !== undefined
+                            ? formatOffset(entry.offset)
+                            : entry.sourceFile}
+                        </p>
+                      </button>
+                      {toImageSrc(entry.images?.raw_crop) ? (
+                        <img
+                          src={toImageSrc(entry.images?.raw_crop)}
+                          alt={entry.plate}
+                          className="h-14 w-40 object-contain bg-black rounded border border-gray-700"
+                        />
+                      ) : (
+                        <div className="h-14 w-40 flex items-center justify-center bg-gray-800 rounded border border-gray-700 text-xs text-gray-500">
+                          No crop
+                        </div>
+                      )}
+                      <Badge className="w-fit font-mono text-base bg-teal-600 text-white">
+                        {entry.plate}
+                      </Badge>
+                      <span className="text-sm text-gray-400">
+                        {Math.round((entry.ocr_conf ?? 0) * 100)}% ·{" "}
+                        {entry.consensus?.reads ?? 1} reads
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
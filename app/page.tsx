@@ -18,10 +18,14 @@ import {
   Activity,
   Zap,
   LogOut,
+  ParkingSquare,
 } from "lucide-react";
 import { AuthModal } from "@/components/AuthModal";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/lib/supabase";
+import { getCameraStatuses } from "@/lib/camera-status";
+import { getParkingOccupancy } from "@/lib/parking-zones";
+import type { CameraStatus, ParkingOccupancy } from "@/types/database";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 
@@ -30,9 +34,11 @@ export default function Dashboard() {
   const [stats, setStats] = useState({
     totalCars: 0,
     totalUsers: 0,
-    activeCameras: 4,
+    activeCameras: 0,
     smsCount: 0,
   });
+  const [cameraStatuses, setCameraStatuses] = useState<CameraStatus[]>([]);
+  const [parking, setParking] = useState<ParkingOccupancy[]>([]);
   const [recentActivity, setRecentActivity] = useState<any[]>([]);
   const [authModalOpen, setAuthModalOpen] = useState(false);
   const router = useRouter();
@@ -40,6 +46,7 @@ export default function Dashboard() {
   useEffect(() => {
     if (user) {
       fetchRealStats();
+      fetchParkingOccupancy();
       fetchRecentActivity();
     } else {
       // Set default stats for non-authenticated users
@@ -55,18 +62,19 @@ export default function Dashboard() {
   const fetchRealStats = async () => {
     try {
       // Fetch real data from Supabase
-      const [vehiclesResult, usersResult, camerasResult, smsResult] =
+      const [vehiclesResult, usersResult, statuses, smsResult] =
         await Promise.all([
           supabase.from("vehicles").select("id", { count: "exact" }),
           supabase.from("users").select("id", { count: "exact" }),
-          supabase.from("cameras").select("id", { count: "exact" }),
+          getCameraStatuses(),
           supabase.from("sms_recipients").select("id", { count: "exact" }),
         ]);
 
+      setCameraStatuses(statuses);
       setStats({
         totalCars: vehiclesResult.count || 0,
         totalUsers: usersResult.count || 0,
-        activeCameras: camerasResult.count || 4,
+        activeCameras: statuses.filter((s) => s.isOnline).length,
         smsCount: smsResult.count || 0,
       });
     } catch (error) {
@@ -75,6 +83,14 @@ export default function Dashboard() {
     }
   };
 
+  const fetchParkingOccupancy = async () => {
+    try {
+      setParking(await getParkingOccupancy());
+    } catch (error) {
+      console.error("Error fetching parking occupancy:", error);
+    }
+  };
+
   const fetchRecentActivity = async () => {
     try {
       // Fetch recent vehicles as activity
@@ -221,12 +237,36 @@ export default function Dashboard() {
                   >
                     Live Feed
                   </Link>
+                  <Link
+                    href="/cameras"
+                    className="text-gray-300 hover:text-cyan-400 transition-colors"
+                  >
+                    Cameras
+                  </Link>
                   <Link
                     href="/cars"
                     className="text-gray-300 hover:text-cyan-400 transition-colors"
                   >
                     Car Registry
                   </Link>
+                  <Link
+                    href="/detections"
+                    className="text-gray-300 hover:text-cyan-400 transition-colors"
+                  >
+                    Detections
+                  </Link>
+                  <Link
+                    href="/watchlist"
+                    className="text-gray-300 hover:text-cyan-400 transition-colors"
+                  >
+                    Watchlist
+                  </Link>
+                  <Link
+                    href="/visits"
+                    className="text-gray-300 hover:text-cyan-400 transition-colors"
+                  >
+                    On Site
+                  </Link>
                   <Link
                     href="/sms"
                     className="text-gray-300 hover:text-cyan-400 transition-colors"
@@ -333,7 +373,13 @@ export default function Dashboard() {
               value={stats.activeCameras}
               icon={Camera}
               description="Currently streaming"
-              trend="All online"
+              trend={
+                cameraStatuses.length
+                  ? stats.activeCameras === cameraStatuses.length
+                    ? "All online"
+                    : `${cameraStatuses.length - stats.activeCameras} offline`
+                  : null
+              }
             />
             <StatCard
               title="SMS Recipients"
@@ -407,6 +453,143 @@ export default function Dashboard() {
             </Card>
           </div>
 
+          {/* Camera Status */}
+          {user && cameraStatuses.length > 0 && (
+            <Card className="bg-gray-900/50 border-cyan-500/30 mb-12">
+              <CardHeader>
+                <CardTitle className="text-cyan-400 flex items-center">
+                  <Camera className="mr-2 h-5 w-5" />
+                  Camera Status
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {cameraStatuses.map(
+                    ({ camera, isOnline, lastHeartbeat, activeDetections }) => (
+                      <div
+                        key={camera.id}
+                        className="flex items-center justify-between p-3 rounded-lg bg-gray-800/50 border border-gray-700/50"
+                      >
+                        <div className="flex items-center space-x-3">
+                          <div
+                            className={`w-2 h-2 rounded-full ${
+                              isOnline
+                                ? "bg-green-400"
+                                : camera.status === "error"
+                                ? "bg-red-400"
+                                : camera.status === "maintenance"
+                                ? "bg-yellow-400"
+                                : "bg-gray-500"
+                            }`}
+                          />
+                          <div>
+                            <p className="text-white font-medium">
+                              {camera.name}
+                            </p>
+                            <p className="text-gray-400 text-sm">
+                              {camera.location} · {activeDetections} detections
+                              in the last hour
+                            </p>
+                          </div>
+                        </div>
+                        <div className="text-right">
+                          <Badge
+                            variant="outline"
+                            className={
+                              isOnline
+                                ? "text-green-400 border-green-500/50"
+                                : "text-gray-400 border-gray-500/50"
+                            }
+                          >
+                            {camera.status}
+                          </Badge>
+                          <p className="text-gray-500 text-xs mt-1">
+                            {lastHeartbeat
+                              ? getTimeAgo(lastHeartbeat)
+                              : "No heartbeat"}
+                          </p>
+                        </div>
+                      </div>
+                    )
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Parking Occupancy */}
+          {user && parking.length > 0 && (
+            <Card className="bg-gray-900/50 border-cyan-500/30 mb-12">
+              <CardHeader>
+                <CardTitle className="text-cyan-400 flex items-center">
+                  <ParkingSquare className="mr-2 h-5 w-5" />
+                  Parking Occupancy
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {parking.map(({ zone, camera, occupied, overstaying }) => {
+                    const percent = zone.capacity
+                      ? Math.min(100, Math.round((occupied / zone.capacity) * 100))
+                      : 0;
+                    return (
+                      <div
+                        key={zone.id}
+                        className="p-3 rounded-lg bg-gray-800/50 border border-gray-700/50 space-y-2"
+                      >
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <p className="text-white font-medium">
+                              {zone.zone_name}
+                            </p>
+                            <p className="text-gray-400 text-sm">
+                              {camera?.location ?? "Unknown camera"}
+                              {zone.max_stay_minutes
+                                ? ` · max stay ${zone.max_stay_minutes} min`
+                                : ""}
+                            </p>
+                          </div>
+                          <div className="text-right">
+                            <p className="text-2xl font-bold text-cyan-400">
+                              {occupied}
+                              {zone.capacity ? (
+                                <span className="text-gray-500 text-base">
+                                  /{zone.capacity}
+                                </span>
+                              ) : null}
+                            </p>
+                            {overstaying > 0 && (
+                              <Badge
+                                variant="outline"
+                                className="text-red-400 border-red-500/50"
+                              >
+                                {overstaying} overstaying
+                              </Badge>
+                            )}
+                          </div>
+                        </div>
+                        {zone.capacity ? (
+                          <div className="h-2 rounded-full bg-gray-700 overflow-hidden">
+                            <div
+                              className={`h-full ${
+                                percent >= 90
+                                  ? "bg-red-400"
+                                  : percent >= 70
+                                  ? "bg-yellow-400"
+                                  : "bg-green-400"
+                              }`}
+                              style={{ width: `${percent}%` }}
+                            />
+                          </div>
+                        ) : null}
+                      </div>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Recent Activity */}
           <Card className="bg-gray-900/50 border-cyan-500/30">
             <CardHeader>
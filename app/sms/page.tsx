@@ -27,16 +27,18 @@ import {
   Zap,
   FileText,
   ArrowLeft,
+  ChevronDown,
+  ChevronRight,
 } from "lucide-react";
 import { supabase } from "@/lib/supabase";
 import { useAuth } from "@/contexts/AuthContext";
-import { sendWelcomeSms, sendBulkSms } from "@/lib/sms-service";
 import {
   generateRecipientWelcomeMessage,
   aiSmsGenerator,
 } from "@/lib/ai-sms-generator";
 import Link from "next/link";
-import { sendBulkSmsAction } from "../actions/sendSms";
+import { queueSmsAction, sendLoggedSmsAction } from "../actions/sendSms";
+import type { SmsDeliveryLog } from "@/types/database";
 
 interface SmsRecipient {
   id: string;
@@ -46,6 +48,20 @@ interface SmsRecipient {
   created_at: string;
 }
 
+// Live counts for a queued broadcast, read from its delivery log
+interface BroadcastProgress {
+  messageId: string;
+  total: number;
+  sent: number;
+  failed: number;
+  pending: number;
+  // Nothing changed for BROADCAST_STALL_MS, so polling stopped
+  stalled?: boolean;
+}
+
+const BROADCAST_POLL_MS = 2000;
+const BROADCAST_STALL_MS = 60_000;
+
 interface SmsMessage {
   id: string;
   message_content: string;
@@ -71,12 +87,69 @@ export default function SmsPage() {
 
   const [bulkMessage, setBulkMessage] = useState("");
 
+  // Message drilled into and its per-recipient delivery rows
+  const [expandedMessageId, setExpandedMessageId] = useState<string | null>(
+    null
+  );
+  const [deliveries, setDeliveries] = useState<
+    Record<string, SmsDeliveryLog[]>
+  >({});
+  const [broadcast, setBroadcast] = useState<BroadcastProgress | null>(null);
+
   useEffect(() => {
     if (user) {
       loadData();
     }
   }, [user]);
 
+  const broadcastId = broadcast?.messageId;
+  const broadcastDone =
+    !broadcast || broadcast.pending === 0 || !!broadcast.stalled;
+
+  useEffect(() => {
+    if (!broadcastId || broadcastDone) return;
+
+    let lastPending: number | null = null;
+    let lastChange = Date.now();
+
+    const poll = async () => {
+      const { data, error } = await supabase
+        .from("sms_delivery_log")
+        .select("status")
+        .eq("message_id", broadcastId);
+
+      if (error) {
+        console.error("Error loading broadcast progress:", error);
+        return;
+      }
+
+      const rows = data || [];
+      const count = (...statuses: string[]) =>
+        rows.filter((r) => statuses.includes(r.status)).length;
+      const pending = count("pending");
+      if (pending !== lastPending) {
+        lastPending = pending;
+        lastChange = Date.now();
+      }
+
+      setBroadcast((prev) =>
+        prev && prev.messageId === broadcastId
+          ? {
+              ...prev,
+              sent: count("sent", "delivered"),
+              failed: count("failed", "undelivered"),
+              pending,
+              stalled: Date.now() - lastChange >= BROADCAST_STALL_MS,
+            }
+          : prev
+      );
+      if (pending === 0) loadData();
+    };
+
+    const timer = setInterval(poll, BROADCAST_POLL_MS);
+    return () => clearInterval(timer);
+  }, [broadcastId, broadcastDone]);
+
   const loadData = async () => {
     try {
       // Load SMS recipients
@@ -128,9 +201,9 @@ export default function SmsPage() {
           phone: newRecipient.phone,
           status: "active",
           created_by: user.id,
-        });
-      // .select()
-      // .single();
+        })
+        .select("id")
+        .single();
 
       if (recipientError) {
         if (recipientError.code === "23505") {
@@ -153,22 +226,19 @@ export default function SmsPage() {
         const welcomeMessage = await generateRecipientWelcomeMessage(
           newRecipient.name
         );
-        const smsResult = await sendWelcomeSms(
-          newRecipient.name,
-          newRecipient.phone
+        const {
+          data: { session },
+        } = await supabase.auth.getSession();
+        const {
+          results: [smsResult],
+        } = await sendLoggedSmsAction(
+          [{ phone: newRecipient.phone, recipientId: recipientData.id }],
+          welcomeMessage,
+          { messageType: "welcome" },
+          session?.access_token ?? ""
         );
 
         if (smsResult.success) {
-          // Log welcome SMS in database
-          await supabase.from("sms_messages").insert({
-            message_content: welcomeMessage,
-            message_type: "welcome",
-            recipients_count: 1,
-            status: "sent",
-            // sent_at: new Date().toISOString(),
-            sent_by: user.id,
-          });
-
           const messageGenType = aiSmsGenerator.isAiAvailable()
             ? "AI-generated"
             : "template-based";
@@ -245,35 +315,67 @@ export default function SmsPage() {
 
     try {
       const activeRecipients = recipients.filter((r) => r.status === "active");
-      const phoneNumbers = activeRecipients.map((r) => r.phone);
-
-      const bulkResult = await sendBulkSmsAction(phoneNumbers, bulkMessage);
-
-      // Log bulk SMS in database
-      await supabase.from("sms_messages").insert({
-        message_content: bulkMessage,
-        message_type: "bulk",
-        recipients_count: activeRecipients.length,
-        status: bulkResult.success > 0 ? "sent" : "failed",
-        // sent_at: new Date().toISOString(),
-        sent_by: user?.id,
-      });
 
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      const queued = await queueSmsAction(
+        activeRecipients.map((r) => ({ phone: r.phone, recipientId: r.id })),
+        bulkMessage,
+        { messageType: "bulk" },
+        session?.access_token ?? ""
+      );
+
+      setBroadcast({
+        messageId: queued.messageId,
+        total: activeRecipients.length,
+        sent: 0,
+        failed: queued.rejected,
+        pending: queued.queued,
+      });
       setMessage({
         type: "success",
-        text: `📱 Bulk SMS sent! Success: ${bulkResult.success}, Failed: ${bulkResult.failed}`,
+        text: `📱 Bulk SMS queued for ${queued.queued} recipient(s)${
+          queued.rejected ? `, ${queued.rejected} invalid number(s) skipped` : ""
+        }`,
       });
 
       setBulkMessage("");
       await loadData();
     } catch (error) {
-      console.error("Error sending bulk SMS:", error);
-      setMessage({ type: "error", text: "Failed to send bulk SMS" });
+      console.error("Error queueing bulk SMS:", error);
+      setMessage({ type: "error", text: "Failed to queue bulk SMS" });
     } finally {
       setSending(false);
     }
   };
 
+  const toggleDeliveries = async (messageId: string) => {
+    if (expandedMessageId === messageId) {
+      setExpandedMessageId(null);
+      return;
+    }
+    setExpandedMessageId(messageId);
+
+    try {
+      const { data, error } = await supabase
+        .from("sms_delivery_log")
+        .select("*")
+        .eq("message_id", messageId)
+        .order("created_at");
+
+      if (error) throw error;
+      setDeliveries((prev) => ({ ...prev, [messageId]: data || [] }));
+    } catch (error) {
+      console.error("Error loading SMS deliveries:", error);
+      setMessage({ type: "error", text: "Failed to load delivery details" });
+    }
+  };
+
+  const recipientName = (delivery: SmsDeliveryLog) =>
+    recipients.find((r) => r.id === delivery.recipient_id)?.name ??
+    (delivery.recipient_id ? "Removed recipient" : "Not a saved recipient");
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900/20 to-gray-900 flex items-center justify-center">
@@ -566,7 +668,7 @@ export default function SmsPage() {
                       {sending ? (
                         <>
                           <MessageSquare className="h-4 w-4 mr-2 animate-pulse" />
-                          Sending via Arkesel...
+                          Queueing...
                         </>
                       ) : (
                         <>
@@ -580,6 +682,36 @@ export default function SmsPage() {
                         </>
                       )}
                     </Button>
+
+                    {broadcast && (
+                      <div className="space-y-1">
+                        <div className="h-2 rounded-full bg-gray-700 overflow-hidden">
+                          <div
+                            className="h-full bg-purple-400 transition-all"
+                            style={{
+                              width: `${
+                                broadcast.total
+                                  ? Math.round(
+                                      ((broadcast.total - broadcast.pending) /
+                                        broadcast.total) *
+                                        100
+                                    )
+                                  : 100
+                              }%`,
+                            }}
+                          />
+                        </div>
+                        <p className="text-xs text-gray-400">
+                          {broadcast.pending === 0
+                            ? "Broadcast finished"
+                            : broadcast.stalled
+                            ? "Queued — no worker is sending"
+                            : "Sending broadcast"}{" "}
+                          · {broadcast.sent} sent · {broadcast.failed} failed ·{" "}
+                          {broadcast.pending} queued
+                        </p>
+                      </div>
+                    )}
                   </form>
                 </CardContent>
               </Card>
@@ -630,22 +762,98 @@ export default function SmsPage() {
                               : msg.message_content}
                           </p>
                           <div className="flex items-center justify-between text-xs text-gray-500">
-                            <span>{msg.recipients_count} recipient(s)</span>
+                            <button
+                              type="button"
+                              onClick={() => toggleDeliveries(msg.id)}
+                              className="flex items-center hover:text-cyan-400 transition-colors"
+                            >
+                              {expandedMessageId === msg.id ? (
+                                <ChevronDown className="h-3 w-3 mr-1" />
+                              ) : (
+                                <ChevronRight className="h-3 w-3 mr-1" />
+                              )}
+                              {msg.recipients_count} recipient(s)
+                            </button>
                             <Badge
                               variant={
-                                msg.status === "sent"
+                                msg.status === "sent" ||
+                                msg.status === "delivered"
                                   ? "default"
-                                  : "destructive"
+                                  : msg.status === "failed"
+                                  ? "destructive"
+                                  : "secondary"
                               }
                               className={
-                                msg.status === "sent"
+                                msg.status === "sent" ||
+                                msg.status === "delivered"
                                   ? "bg-green-500/20 text-green-400 border-green-500/30"
+                                  : msg.status === "pending"
+                                  ? "bg-yellow-500/20 text-yellow-400 border-yellow-500/30"
+                                  : msg.status === "partial"
+                                  ? "bg-orange-500/20 text-orange-400 border-orange-500/30"
                                   : "bg-red-500/20 text-red-400 border-red-500/30"
                               }
                             >
                               {msg.status}
                             </Badge>
                           </div>
+                          {expandedMessageId === msg.id && (
+                            <div className="mt-3 space-y-2 border-t border-gray-700 pt-3">
+                              {!deliveries[msg.id] ? (
+                                <p className="text-xs text-gray-500">
+                                  Loading deliveries...
+                                </p>
+                              ) : deliveries[msg.id].length === 0 ? (
+                                <p className="text-xs text-gray-500">
+                                  No delivery records for this message
+                                </p>
+                              ) : (
+                                deliveries[msg.id].map((delivery) => (
+                                  <div
+                                    key={delivery.id}
+                                    className="text-xs bg-gray-900/50 p-2 rounded"
+                                  >
+                                    <div className="flex items-center justify-between">
+                                      <span className="text-gray-300">
+                                        {recipientName(delivery)}
+                                        <span className="text-gray-500 ml-2 font-mono">
+                                          {delivery.phone}
+                                        </span>
+                                      </span>
+                                      <span
+                                        className={
+                                          delivery.status === "delivered" ||
+                                          delivery.status === "sent"
+                                            ? "text-green-400"
+                                            : delivery.status === "pending"
+                                            ? "text-yellow-400"
+                                            : "text-red-400"
+                                        }
+                                      >
+                                        {delivery.status}
+                                      </span>
+                                    </div>
+                                    <div className="text-gray-500 mt-1">
+                                      {delivery.provider ?? "Unknown provider"}
+                                      {delivery.provider_message_id &&
+                                        ` · ${delivery.provider_message_id}`}
+                                      {" · "}
+                                      {new Date(
+                                        delivery.delivered_at ||
+                                          delivery.sent_at ||
+                                          delivery.created_at
+                                      ).toLocaleString()}
+                                    </div>
+                                    {delivery.error_message && (
+                                      <div className="text-red-400/80 mt-1">
+                                        {delivery.error_message}
+                                      </div>
+                                    )}
+                                  </div>
+                                ))
+                              )}
+                            </div>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -0,0 +1,399 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ArrowLeft,
+  AlertCircle,
+  CheckCircle,
+  Clock,
+  LogOut,
+  MapPin,
+  ParkingSquare,
+  RefreshCw,
+} from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  VISIT_SELECT,
+  formatDuration,
+  getVehiclesOnSite,
+  visitDuration,
+} from "@/lib/visits";
+import type {
+  VehicleVisitStatus,
+  VehicleVisitWithRelations,
+} from "@/types/database";
+import Link from "next/link";
+
+type StayFilter = "all" | "1h" | "4h" | "overnight";
+
+const STATUS_STYLES: Record<VehicleVisitStatus, string> = {
+  on_site: "text-green-400 border-green-400",
+  exited: "text-gray-300 border-gray-500",
+  missed_exit: "text-yellow-400 border-yellow-400",
+  missed_entry: "text-yellow-400 border-yellow-400",
+};
+
+const STATUS_LABELS: Record<VehicleVisitStatus, string> = {
+  on_site: "On site",
+  exited: "Exited",
+  missed_exit: "Exit not seen",
+  missed_entry: "Entry not seen",
+};
+
+const startOfToday = () => {
+  const d = new Date();
+  d.setHours(0, 0, 0, 0);
+  return d;
+};
+
+export default function VisitsPage() {
+  const { user } = useAuth();
+  const [onSite, setOnSite] = useState<VehicleVisitWithRelations[]>([]);
+  const [recent, setRecent] = useState<VehicleVisitWithRelations[]>([]);
+  const [stayFilter, setStayFilter] = useState<StayFilter>("all");
+  const [now, setNow] = useState(new Date());
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState({ type: "", text: "" });
+
+  const loadData = useCallback(async () => {
+    try {
+      const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+
+      const [onSiteData, recentResult] = await Promise.all([
+        getVehiclesOnSite(),
+        supabase
+          .from("vehicle_visits")
+          .select(VISIT_SELECT)
+          .neq("status", "on_site")
+          .gte("updated_at", since)
+          .order("updated_at", { ascending: false })
+          .limit(50),
+      ]);
+
+      if (recentResult.error) throw recentResult.error;
+      setOnSite(onSiteData);
+      setRecent((recentResult.data || []) as VehicleVisitWithRelations[]);
+      setNow(new Date());
+    } catch (error) {
+      console.error("Error loading visits:", error);
+      setMessage({ type: "error", text: "Failed to load visits" });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    loadData();
+
+    // Keep durations and arrivals current without a manual refresh
+    const interval = setInterval(loadData, 60000);
+    return () => clearInterval(interval);
+  }, [user, loadData]);
+
+  const handleMarkExited = async (visit: VehicleVisitWithRelations) => {
+    if (!user) return;
+    if (!confirm(`Mark ${visit.license_plate} as having left the site?`))
+      return;
+
+    const { error } = await supabase
+      .from("vehicle_visits")
+      .update({
+        status: "exited",
+        exited_at: new Date().toISOString(),
+        closed_by: user.id,
+      })
+      .eq("id", visit.id)
+      .eq("status", "on_site");
+
+    if (error) {
+      console.error("Error closing visit:", error);
+      setMessage({ type: "error", text: "Failed to close visit" });
+      return;
+    }
+
+    setMessage({
+      type: "success",
+      text: `${visit.license_plate} marked as exited`,
+    });
+    await loadData();
+  };
+
+  const filteredOnSite = onSite.filter((visit) => {
+    const duration = visitDuration(visit, now) ?? 0;
+    switch (stayFilter) {
+      case "1h":
+        return duration >= 60 * 60 * 1000;
+      case "4h":
+        return duration >= 4 * 60 * 60 * 1000;
+      case "overnight":
+        return (
+          !!visit.entered_at && new Date(visit.entered_at) < startOfToday()
+        );
+      default:
+        return true;
+    }
+  });
+
+  const overnightCount = onSite.filter(
+    (v) => v.entered_at && new Date(v.entered_at) < startOfToday()
+  ).length;
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900/20 to-gray-900 flex items-center justify-center">
+        <div className="text-center">
+          <ParkingSquare className="h-12 w-12 text-cyan-400 mx-auto mb-4" />
+          <p className="text-gray-400">Please log in to view vehicles on site</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900/20 to-gray-900">
+      <div className="absolute inset-0 bg-[linear-gradient(rgba(6,182,212,0.1)_1px,transparent_1px),linear-gradient(90deg,rgba(6,182,212,0.1)_1px,transparent_1px)] bg-[size:50px_50px] [mask-image:radial-gradient(ellipse_80%_50%_at_50%_0%,#000_70%,transparent_110%)]" />
+
+      <div className="relative z-10">
+        {/* Header */}
+        <header className="border-b border-cyan-500/30 bg-gray-900/80 backdrop-blur-sm">
+          <div className="container mx-auto px-4 py-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-4">
+                <Link href="/">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-cyan-400 hover:text-cyan-300"
+                  >
+                    <ArrowLeft className="h-4 w-4 mr-2" />
+                    Back
+                  </Button>
+                </Link>
+                <h1 className="text-2xl font-bold bg-gradient-to-r from-cyan-400 to-purple-400 bg-clip-text text-transparent">
+                  On Premises
+                </h1>
+                <Badge
+                  variant="outline"
+                  className="border-green-500/50 text-green-400"
+                >
+                  <ParkingSquare className="h-3 w-3 mr-1" />
+                  {onSite.length} On Site
+                </Badge>
+                {overnightCount > 0 && (
+                  <Badge
+                    variant="outline"
+                    className="border-yellow-500/50 text-yellow-400"
+                  >
+                    <Clock className="h-3 w-3 mr-1" />
+                    {overnightCount} Overnight
+                  </Badge>
+                )}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={loadData}
+                className="text-cyan-400 hover:text-cyan-300"
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Refresh
+              </Button>
+            </div>
+          </div>
+        </header>
+
+        <div className="container mx-auto px-4 py-8 space-y-8">
+          {/* Message Display */}
+          {message.text && (
+            <div
+              className={`flex items-center space-x-2 p-4 rounded-lg border ${
+                message.type === "error"
+                  ? "bg-red-500/10 border-red-500/30 text-red-400"
+                  : "bg-green-500/10 border-green-500/30 text-green-400"
+              }`}
+            >
+              {message.type === "error" ? (
+                <AlertCircle className="h-4 w-4 flex-shrink-0" />
+              ) : (
+                <CheckCircle className="h-4 w-4 flex-shrink-0" />
+              )}
+              <span>{message.text}</span>
+            </div>
+          )}
+
+          {/* On Site */}
+          <Card className="bg-gray-900/50 border-cyan-500/30">
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <CardTitle className="text-cyan-400 flex items-center">
+                    <ParkingSquare className="mr-2 h-5 w-5" />
+                    Vehicles On Site
+                  </CardTitle>
+                  <CardDescription className="text-gray-400">
+                    Built from entrance and exit zone reads. Draw those zones
+                    on each gate camera from the Live Feed.
+                  </CardDescription>
+                </div>
+                <Select
+                  value={stayFilter}
+                  onValueChange={(value) => setStayFilter(value as StayFilter)}
+                >
+                  <SelectTrigger className="w-48 bg-gray-800 border-gray-700 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-800 border-gray-700">
+                    <SelectItem value="all">All vehicles</SelectItem>
+                    <SelectItem value="1h">Here over 1 hour</SelectItem>
+                    <SelectItem value="4h">Here over 4 hours</SelectItem>
+                    <SelectItem value="overnight">Arrived before today</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <p className="text-gray-400">Loading...</p>
+              ) : filteredOnSite.length === 0 ? (
+                <p className="text-gray-400">No vehicles on site</p>
+              ) : (
+                <div className="space-y-3">
+                  {filteredOnSite.map((visit) => (
+                    <div
+                      key={visit.id}
+                      className="flex items-center justify-between p-4 bg-gray-800/50 rounded-lg border border-gray-700"
+                    >
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-3">
+                          <span className="font-mono text-lg text-white">
+                            {visit.license_plate}
+                          </span>
+                          {visit.vehicles ? (
+                            <span className="text-sm text-gray-400">
+                              {visit.vehicles.owner_name} ·{" "}
+                              {visit.vehicles.color} {visit.vehicles.make}{" "}
+                              {visit.vehicles.model}
+                            </span>
+                          ) : (
+                            <Badge
+                              variant="outline"
+                              className="text-xs text-orange-400 border-orange-400"
+                            >
+                              Unregistered
+                            </Badge>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-4 text-xs text-gray-400">
+                          <span className="flex items-center">
+                            <Clock className="h-3 w-3 mr-1" />
+                            Arrived{" "}
+                            {visit.entered_at
+                              ? new Date(visit.entered_at).toLocaleString()
+                              : "—"}
+                          </span>
+                          {visit.entry_camera && (
+                            <span className="flex items-center">
+                              <MapPin className="h-3 w-3 mr-1" />
+                              {visit.entry_camera.location}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-4">
+                        <span className="text-cyan-400 font-semibold">
+                          {formatDuration(visitDuration(visit, now))}
+                        </span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleMarkExited(visit)}
+                          className="text-gray-400 hover:text-red-300 hover:bg-red-500/10"
+                        >
+                          <LogOut className="h-4 w-4 mr-1" />
+                          Mark exited
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Recent Visits */}
+          <Card className="bg-gray-900/50 border-cyan-500/30">
+            <CardHeader>
+              <CardTitle className="text-cyan-400 flex items-center">
+                <Clock className="mr-2 h-5 w-5" />
+                Last 24 Hours
+              </CardTitle>
+              <CardDescription className="text-gray-400">
+                Closed visits, including gate reads that couldn&apos;t be
+                paired
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {recent.length === 0 ? (
+                <p className="text-gray-400">No completed visits yet</p>
+              ) : (
+                <div className="space-y-2">
+                  {recent.map((visit) => (
+                    <div
+                      key={visit.id}
+                      className="grid grid-cols-2 md:grid-cols-5 gap-2 items-center p-3 bg-gray-800/30 rounded-lg text-sm"
+                    >
+                      <span className="font-mono text-white">
+                        {visit.license_plate}
+                      </span>
+                      <span className="text-gray-400">
+                        In:{" "}
+                        {visit.entered_at
+                          ? new Date(visit.entered_at).toLocaleString()
+                          : "—"}
+                      </span>
+                      <span className="text-gray-400">
+                        Out:{" "}
+                        {visit.exited_at
+                          ? new Date(visit.exited_at).toLocaleString()
+                          : "—"}
+                      </span>
+                      <span className="text-cyan-400">
+                        {formatDuration(
+                          visit.exited_at ? visitDuration(visit) : null
+                        )}
+                      </span>
+                      <Badge
+                        variant="outline"
+                        className={`w-fit text-xs ${STATUS_STYLES[visit.status]}`}
+                      >
+                        {STATUS_LABELS[visit.status]}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,521 @@
+"use client";
+
+import type React from "react";
+
+import { useState, useEffect } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ArrowLeft,
+  AlertCircle,
+  CheckCircle,
+  Plus,
+  ShieldAlert,
+  Trash2,
+} from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/contexts/AuthContext";
+import { normalizePlate } from "@/lib/plate-format";
+import type {
+  SmsRecipient,
+  WatchlistEntry,
+  WatchlistReason,
+} from "@/types/database";
+import Link from "next/link";
+
+const EMPTY_ENTRY = {
+  license_plate: "",
+  reason: "stolen" as WatchlistReason,
+  priority: "high" as WatchlistEntry["priority"],
+  description: "",
+  alert_cooldown_minutes: "",
+  expires_at: "",
+  notify_recipient_ids: [] as string[],
+};
+
+export default function WatchlistPage() {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<WatchlistEntry[]>([]);
+  const [recipients, setRecipients] = useState<SmsRecipient[]>([]);
+  const [newEntry, setNewEntry] = useState(EMPTY_ENTRY);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState({ type: "", text: "" });
+
+  useEffect(() => {
+    if (user) {
+      loadData();
+    }
+  }, [user]);
+
+  const loadData = async () => {
+    try {
+      const { data: entriesData, error: entriesError } = await supabase
+        .from("watchlist")
+        .select("*")
+        .order("created_at", { ascending: false });
+
+      if (entriesError) throw entriesError;
+      setEntries(entriesData || []);
+
+      // Only recipients subscribed to alerts can be picked for an entry
+      const { data: recipientsData, error: recipientsError } = await supabase
+        .from("sms_recipients")
+        .select("*")
+        .eq("is_active", true)
+        .contains("notification_types", ["alert"])
+        .order("name");
+
+      if (recipientsError) throw recipientsError;
+      setRecipients(recipientsData || []);
+    } catch (error) {
+      console.error("Error loading watchlist:", error);
+      setMessage({ type: "error", text: "Failed to load watchlist" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleRecipient = (id: string) => {
+    setNewEntry((prev) => ({
+      ...prev,
+      notify_recipient_ids: prev.notify_recipient_ids.includes(id)
+        ? prev.notify_recipient_ids.filter((r) => r !== id)
+        : [...prev.notify_recipient_ids, id],
+    }));
+  };
+
+  const handleAddEntry = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setSaving(true);
+    setMessage({ type: "", text: "" });
+
+    try {
+      const licensePlate = normalizePlate(newEntry.license_plate);
+      const { error } = await supabase.from("watchlist").insert({
+        license_plate: licensePlate,
+        reason: newEntry.reason,
+        priority: newEntry.priority,
+        description: newEntry.description || undefined,
+        alert_cooldown_minutes: newEntry.alert_cooldown_minutes
+          ? Number(newEntry.alert_cooldown_minutes)
+          : null,
+        expires_at: newEntry.expires_at
+          ? new Date(newEntry.expires_at).toISOString()
+          : null,
+        notify_recipient_ids: newEntry.notify_recipient_ids.length
+          ? newEntry.notify_recipient_ids
+          : null,
+        created_by: user.id,
+      });
+
+      if (error) {
+        if (error.code === "23505") {
+          setMessage({
+            type: "error",
+            text: `${licensePlate} is already on the watchlist`,
+          });
+          return;
+        }
+        throw error;
+      }
+
+      setMessage({
+        type: "success",
+        text: `${licensePlate} added to the watchlist`,
+      });
+      setNewEntry(EMPTY_ENTRY);
+      await loadData();
+    } catch (error) {
+      console.error("Error adding watchlist entry:", error);
+      setMessage({ type: "error", text: "Failed to add watchlist entry" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (entry: WatchlistEntry) => {
+    const { error } = await supabase
+      .from("watchlist")
+      .update({ is_active: !entry.is_active })
+      .eq("id", entry.id);
+
+    if (error) {
+      console.error("Error updating watchlist entry:", error);
+      setMessage({ type: "error", text: "Failed to update watchlist entry" });
+      return;
+    }
+    await loadData();
+  };
+
+  const handleDelete = async (entry: WatchlistEntry) => {
+    if (!confirm(`Remove ${entry.license_plate} from the watchlist?`)) return;
+
+    const { error } = await supabase
+      .from("watchlist")
+      .delete()
+      .eq("id", entry.id);
+
+    if (error) {
+      console.error("Error deleting watchlist entry:", error);
+      setMessage({ type: "error", text: "Failed to delete watchlist entry" });
+      return;
+    }
+    await loadData();
+  };
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900/20 to-gray-900 flex items-center justify-center">
+        <div className="text-center">
+          <ShieldAlert className="h-12 w-12 text-cyan-400 mx-auto mb-4" />
+          <p className="text-gray-400">Please log in to manage the watchlist</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900/20 to-gray-900">
+      <div className="absolute inset-0 bg-[linear-gradient(rgba(6,182,212,0.1)_1px,transparent_1px),linear-gradient(90deg,rgba(6,182,212,0.1)_1px,transparent_1px)] bg-[size:50px_50px] [mask-image:radial-gradient(ellipse_80%_50%_at_50%_0%,#000_70%,transparent_110%)]" />
+
+      <div className="relative z-10">
+        {/* Header */}
+        <header className="border-b border-cyan-500/30 bg-gray-900/80 backdrop-blur-sm">
+          <div className="container mx-auto px-4 py-4">
+            <div className="flex items-center space-x-4">
+              <Link href="/">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-cyan-400 hover:text-cyan-300"
+                >
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back
+                </Button>
+              </Link>
+              <h1 className="text-2xl font-bold bg-gradient-to-r from-cyan-400 to-purple-400 bg-clip-text text-transparent">
+                Watchlist
+              </h1>
+              <Badge
+                variant="outline"
+                className="border-red-500/50 text-red-400"
+              >
+                <ShieldAlert className="h-3 w-3 mr-1" />
+                {entries.filter((e) => e.is_active).length} Active
+              </Badge>
+            </div>
+          </div>
+        </header>
+
+        <div className="container mx-auto px-4 py-8">
+          {/* Message Display */}
+          {message.text && (
+            <div
+              className={`mb-6 flex items-center space-x-2 p-4 rounded-lg border ${
+                message.type === "error"
+                  ? "bg-red-500/10 border-red-500/30 text-red-400"
+                  : "bg-green-500/10 border-green-500/30 text-green-400"
+              }`}
+            >
+              {message.type === "error" ? (
+                <AlertCircle className="h-4 w-4 flex-shrink-0" />
+              ) : (
+                <CheckCircle className="h-4 w-4 flex-shrink-0" />
+              )}
+              <span>{message.text}</span>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            {/* Add Entry */}
+            <Card className="bg-gray-900/50 border-cyan-500/30">
+              <CardHeader>
+                <CardTitle className="text-cyan-400 flex items-center">
+                  <Plus className="mr-2 h-5 w-5" />
+                  Add Plate
+                </CardTitle>
+                <CardDescription className="text-gray-400">
+                  Sightings of a watchlisted plate send a priority alert to
+                  security recipients. Blocked and expired registered vehicles
+                  are flagged automatically.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleAddEntry} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="plate" className="text-gray-300">
+                      License Plate *
+                    </Label>
+                    <Input
+                      id="plate"
+                      placeholder="GR 1234-20"
+                      value={newEntry.license_plate}
+                      onChange={(e) =>
+                        setNewEntry((prev) => ({
+                          ...prev,
+                          license_plate: e.target.value,
+                        }))
+                      }
+                      className="bg-gray-800 border-gray-700 text-white placeholder-gray-400 focus:border-cyan-500 font-mono"
+                      required
+                      disabled={saving}
+                    />
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label className="text-gray-300">Reason</Label>
+                      <Select
+                        value={newEntry.reason}
+                        onValueChange={(value) =>
+                          setNewEntry((prev) => ({
+                            ...prev,
+                            reason: value as WatchlistReason,
+                          }))
+                        }
+                      >
+                        <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-gray-800 border-gray-700">
+                          <SelectItem value="stolen">Stolen</SelectItem>
+                          <SelectItem value="wanted">Wanted</SelectItem>
+                          <SelectItem value="banned">Banned</SelectItem>
+                          <SelectItem value="other">Other</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label className="text-gray-300">Priority</Label>
+                      <Select
+                        value={newEntry.priority}
+                        onValueChange={(value) =>
+                          setNewEntry((prev) => ({
+                            ...prev,
+                            priority: value as WatchlistEntry["priority"],
+                          }))
+                        }
+                      >
+                        <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-gray-800 border-gray-700">
+                          <SelectItem value="high">High</SelectItem>
+                          <SelectItem value="normal">Normal</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="description" className="text-gray-300">
+                      Description
+                    </Label>
+                    <Textarea
+                      id="description"
+                      placeholder="Police report number, vehicle description..."
+                      value={newEntry.description}
+                      onChange={(e) =>
+                        setNewEntry((prev) => ({
+                          ...prev,
+                          description: e.target.value,
+                        }))
+                      }
+                      className="bg-gray-800 border-gray-700 text-white placeholder-gray-400 focus:border-cyan-500"
+                      disabled={saving}
+                    />
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="cooldown" className="text-gray-300">
+                        Re-alert after (minutes)
+                      </Label>
+                      <Input
+                        id="cooldown"
+                        type="number"
+                        min="0"
+                        placeholder="System default"
+                        value={newEntry.alert_cooldown_minutes}
+                        onChange={(e) =>
+                          setNewEntry((prev) => ({
+                            ...prev,
+                            alert_cooldown_minutes: e.target.value,
+                          }))
+                        }
+                        className="bg-gray-800 border-gray-700 text-white placeholder-gray-400 focus:border-cyan-500"
+                        disabled={saving}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="expires" className="text-gray-300">
+                        Expires
+                      </Label>
+                      <Input
+                        id="expires"
+                        type="datetime-local"
+                        value={newEntry.expires_at}
+                        onChange={(e) =>
+                          setNewEntry((prev) => ({
+                            ...prev,
+                            expires_at: e.target.value,
+                          }))
+                        }
+                        className="bg-gray-800 border-gray-700 text-white focus:border-cyan-500"
+                        disabled={saving}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label className="text-gray-300">Notify</Label>
+                    {recipients.length === 0 ? (
+                      <p className="text-xs text-gray-500">
+                        No active recipients are subscribed to alerts
+                      </p>
+                    ) : (
+                      <div className="flex flex-wrap gap-2">
+                        {recipients.map((r) => (
+                          <label
+                            key={r.id}
+                            className="flex items-center space-x-2 text-sm text-gray-300 bg-gray-800/50 px-2 py-1 rounded border border-gray-700"
+                          >
+                            <Checkbox
+                              checked={newEntry.notify_recipient_ids.includes(
+                                r.id
+                              )}
+                              onCheckedChange={() => toggleRecipient(r.id)}
+                              className="border-gray-600 data-[state=checked]:bg-cyan-500 data-[state=checked]:border-cyan-500"
+                              disabled={saving}
+                            />
+                            <span>{r.name}</span>
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      Leave all unticked to alert every alert subscriber
+                    </p>
+                  </div>
+
+                  <Button
+                    type="submit"
+                    className="w-full bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600"
+                    disabled={saving}
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    {saving ? "Adding..." : "Add to Watchlist"}
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+
+            {/* Entries */}
+            <Card className="bg-gray-900/50 border-cyan-500/30">
+              <CardHeader>
+                <CardTitle className="text-cyan-400 flex items-center">
+                  <ShieldAlert className="mr-2 h-5 w-5" />
+                  Watchlisted Plates ({entries.length})
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {loading ? (
+                  <p className="text-gray-400 text-center py-4">Loading...</p>
+                ) : entries.length === 0 ? (
+                  <p className="text-gray-400 text-center py-4">
+                    No plates on the watchlist
+                  </p>
+                ) : (
+                  <div className="space-y-3">
+                    {entries.map((entry) => (
+                      <div
+                        key={entry.id}
+                        className="flex items-center justify-between p-3 bg-gray-800/50 rounded-lg border border-gray-700"
+                      >
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <span className="font-mono text-white font-medium">
+                              {entry.license_plate}
+                            </span>
+                            <Badge
+                              variant="outline"
+                              className="text-red-400 border-red-400 text-xs"
+                            >
+                              {entry.reason}
+                            </Badge>
+                            {entry.priority === "high" && (
+                              <Badge
+                                variant="outline"
+                                className="text-yellow-400 border-yellow-400 text-xs"
+                              >
+                                high
+                              </Badge>
+                            )}
+                          </div>
+                          {entry.description && (
+                            <p className="text-gray-400 text-sm">
+                              {entry.description}
+                            </p>
+                          )}
+                          {entry.expires_at && (
+                            <p className="text-gray-500 text-xs">
+                              Expires{" "}
+                              {new Date(entry.expires_at).toLocaleString()}
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleToggleActive(entry)}
+                            className={
+                              entry.is_active
+                                ? "text-green-400 hover:text-green-300"
+                                : "text-gray-400 hover:text-gray-300"
+                            }
+                          >
+                            {entry.is_active ? "Active" : "Paused"}
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(entry)}
+                            className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,377 @@
+"use client";
+
+import type React from "react";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertCircle, Save } from "lucide-react";
+import { getAccessToken, supabase } from "@/lib/supabase";
+import { useAuth } from "@/contexts/AuthContext";
+import { encryptCameraPasswordAction } from "@/app/actions/encryptCameraPasswordAction";
+import type { Camera, CameraInsert } from "@/types/database";
+import Link from "next/link";
+
+interface CameraFormProps {
+  camera?: Camera;
+  onSaved: (camera: Camera) => void;
+}
+
+const inputClass =
+  "bg-gray-800 border-gray-700 text-white placeholder-gray-400 focus:border-cyan-500";
+
+export default function CameraForm({ camera, onSaved }: CameraFormProps) {
+  const { user } = useAuth();
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [formData, setFormData] = useState({
+    name: camera?.name ?? "",
+    location: camera?.location ?? "",
+    stream_url: camera?.stream_url ?? "browser",
+    rtsp_url: camera?.rtsp_url ?? "",
+    ip_address: camera?.ip_address ?? "",
+    port: String(camera?.port ?? 554),
+    username: camera?.username ?? "",
+    password: "",
+    resolution: camera?.resolution ?? "1920x1080",
+    fps: String(camera?.fps ?? 30),
+    status: camera?.status ?? "offline",
+    is_active: camera?.is_active ?? true,
+    confidence_threshold:
+      camera?.confidence_threshold !== undefined &&
+      camera?.confidence_threshold !== null
+        ? String(Math.round(camera.confidence_threshold * 100))
+        : "",
+  });
+
+  const handleInputChange = (field: string, value: string | boolean) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const row: Omit<CameraInsert, "id" | "created_by"> = {
+        name: formData.name.trim(),
+        location: formData.location.trim(),
+        stream_url: formData.stream_url.trim(),
+        rtsp_url: formData.rtsp_url.trim() || undefined,
+        ip_address: formData.ip_address.trim() || undefined,
+        port: Number.parseInt(formData.port) || 554,
+        username: formData.username.trim() || undefined,
+        resolution: formData.resolution,
+        fps: Number.parseInt(formData.fps) || 30,
+        status: formData.status as Camera["status"],
+        is_active: formData.is_active,
+        confidence_threshold: formData.confidence_threshold
+          ? Number(formData.confidence_threshold) / 100
+          : null,
+      };
+
+      // Leaving the password blank keeps the stored one
+      if (formData.password) {
+        row.password_encrypted = await encryptCameraPasswordAction(
+          formData.password,
+          (await getAccessToken()) ?? ""
+        );
+      }
+
+      const { data, error: saveError } = camera
+        ? await supabase
+            .from("cameras")
+            .update(row)
+            .eq("id", camera.id)
+            .select()
+            .single()
+        : await supabase
+            .from("cameras")
+            .insert({ ...row, created_by: user.id })
+            .select()
+            .single();
+
+      if (saveError) throw saveError;
+      onSaved(data);
+    } catch (err: any) {
+      console.error("Error saving camera:", err);
+      setError(`Failed to save camera: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {error && (
+        <div className="flex items-center space-x-2 p-4 rounded-lg border bg-red-500/10 border-red-500/30 text-red-400">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {/* Camera Details */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold text-purple-400 border-b border-purple-500/30 pb-2">
+          Camera Details
+        </h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="name" className="text-gray-300">
+              Name *
+            </Label>
+            <Input
+              id="name"
+              placeholder="Main Entrance Camera"
+              value={formData.name}
+              onChange={(e) => handleInputChange("name", e.target.value)}
+              className={inputClass}
+              required
+              disabled={saving}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="location" className="text-gray-300">
+              Location * (shown in SMS alerts)
+            </Label>
+            <Input
+              id="location"
+              placeholder="Building A - Main Gate"
+              value={formData.location}
+              onChange={(e) => handleInputChange("location", e.target.value)}
+              className={inputClass}
+              required
+              disabled={saving}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label className="text-gray-300">Status</Label>
+            <Select
+              value={formData.status}
+              onValueChange={(value) => handleInputChange("status", value)}
+              disabled={saving}
+            >
+              <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-gray-800 border-gray-700">
+                <SelectItem value="online">Online</SelectItem>
+                <SelectItem value="offline">Offline</SelectItem>
+                <SelectItem value="maintenance">Maintenance</SelectItem>
+                <SelectItem value="error">Error</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="threshold" className="text-gray-300">
+              Confidence threshold (%)
+            </Label>
+            <Input
+              id="threshold"
+              type="number"
+              min="0"
+              max="100"
+              placeholder="System default"
+              value={formData.confidence_threshold}
+              onChange={(e) =>
+                handleInputChange("confidence_threshold", e.target.value)
+              }
+              className={inputClass}
+              disabled={saving}
+            />
+          </div>
+
+          <div className="flex items-center space-x-2 pt-7">
+            <Checkbox
+              id="is_active"
+              checked={formData.is_active}
+              onCheckedChange={(checked) =>
+                handleInputChange("is_active", checked as boolean)
+              }
+              className="border-gray-600 data-[state=checked]:bg-cyan-500 data-[state=checked]:border-cyan-500"
+              disabled={saving}
+            />
+            <Label htmlFor="is_active" className="text-gray-300">
+              Active
+            </Label>
+          </div>
+        </div>
+      </div>
+
+      {/* Stream */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold text-purple-400 border-b border-purple-500/30 pb-2">
+          Stream
+        </h3>
+
+        <div className="space-y-2">
+          <Label htmlFor="stream_url" className="text-gray-300">
+            Stream URL *
+          </Label>
+          <Input
+            id="stream_url"
+            placeholder="http://192.168.1.100/stream or browser"
+            value={formData.stream_url}
+            onChange={(e) => handleInputChange("stream_url", e.target.value)}
+            className={inputClass}
+            required
+            disabled={saving}
+          />
+          <p className="text-xs text-gray-500">
+            Use &quot;browser&quot; for a webcam bound to this camera on the
+            Live Feed page
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="rtsp_url" className="text-gray-300">
+            RTSP URL
+          </Label>
+          <Input
+            id="rtsp_url"
+            placeholder="rtsp://192.168.1.100:554/stream1"
+            value={formData.rtsp_url}
+            onChange={(e) => handleInputChange("rtsp_url", e.target.value)}
+            className={inputClass}
+            disabled={saving}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="ip_address" className="text-gray-300">
+              IP Address
+            </Label>
+            <Input
+              id="ip_address"
+              placeholder="192.168.1.100"
+              value={formData.ip_address}
+              onChange={(e) => handleInputChange("ip_address", e.target.value)}
+              className={inputClass}
+              disabled={saving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="port" className="text-gray-300">
+              Port
+            </Label>
+            <Input
+              id="port"
+              type="number"
+              value={formData.port}
+              onChange={(e) => handleInputChange("port", e.target.value)}
+              className={inputClass}
+              disabled={saving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="fps" className="text-gray-300">
+              FPS
+            </Label>
+            <Input
+              id="fps"
+              type="number"
+              min="1"
+              value={formData.fps}
+              onChange={(e) => handleInputChange("fps", e.target.value)}
+              className={inputClass}
+              disabled={saving}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label className="text-gray-300">Resolution</Label>
+            <Select
+              value={formData.resolution}
+              onValueChange={(value) => handleInputChange("resolution", value)}
+              disabled={saving}
+            >
+              <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-gray-800 border-gray-700">
+                <SelectItem value="640x480">640x480</SelectItem>
+                <SelectItem value="1280x720">1280x720</SelectItem>
+                <SelectItem value="1920x1080">1920x1080</SelectItem>
+                <SelectItem value="2560x1440">2560x1440</SelectItem>
+                <SelectItem value="3840x2160">3840x2160</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="username" className="text-gray-300">
+              Username
+            </Label>
+            <Input
+              id="username"
+              autoComplete="off"
+              value={formData.username}
+              onChange={(e) => handleInputChange("username", e.target.value)}
+              className={inputClass}
+              disabled={saving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="password" className="text-gray-300">
+              Password
+            </Label>
+            <Input
+              id="password"
+              type="password"
+              autoComplete="new-password"
+              placeholder={
+                camera?.password_encrypted ? "Unchanged" : "Not set"
+              }
+              value={formData.password}
+              onChange={(e) => handleInputChange("password", e.target.value)}
+              className={inputClass}
+              disabled={saving}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Submit Button */}
+      <div className="flex justify-end space-x-4 pt-6 border-t border-gray-700">
+        <Link href="/cameras">
+          <Button
+            variant="outline"
+            className="border-gray-600 text-gray-400 hover:bg-gray-800 bg-transparent"
+            disabled={saving}
+          >
+            Cancel
+          </Button>
+        </Link>
+        <Button
+          type="submit"
+          className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-600 hover:to-purple-600"
+          disabled={saving}
+        >
+          <Save className="h-4 w-4 mr-2" />
+          {saving ? "Saving..." : camera ? "Save Changes" : "Add Camera"}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,264 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { X } from "lucide-react";
+import PlateOverlay from "@/components/PlateOverlay";
+import { bindDevice, getBoundCameraId } from "@/lib/camera-bindings";
+import {
+  EMPTY_SAMPLER_STATS,
+  FrameSampler,
+  type SamplerConfig,
+} from "@/lib/frame-sampler";
+import { detectionThumbnail } from "@/lib/plate-format";
+import type { RecordedDetection } from "@/lib/detections";
+import type { Detection } from "@/types/database";
+import { useDetectionPipeline } from "@/hooks/use-detection-pipeline";
+import type { RegisteredCamera } from "@/hooks/use-registered-cameras";
+
+interface CameraTileProps {
+  device: MediaDeviceInfo;
+  label: string;
+  registeredCameras: RegisteredCamera[];
+  samplerConfig: SamplerConfig;
+  onRemove: () => void;
+}
+
+const FEED_SIZE = 6;
+
+/**
+ * One device in the grid view: its own stream, sampler, detection
+ * pipeline (tracker, heartbeat, offline queue), camera binding and feed
+ * of the detections it recorded
+ */
+export default function CameraTile({
+  device,
+  label,
+  registeredCameras,
+  samplerConfig,
+  onRemove,
+}: CameraTileProps) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const samplerRef = useRef<FrameSampler | null>(null);
+  const [boundCameraId, setBoundCameraId] = useState("");
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [stats, setStats] = useState(EMPTY_SAMPLER_STATS);
+  const [feed, setFeed] = useState<Detection[]>([]);
+
+  useEffect(() => {
+    setBoundCameraId(getBoundCameraId(device.deviceId) ?? "");
+  }, [device.deviceId]);
+
+  const handleBindingChange = (cameraId: string) => {
+    const id = cameraId === "none" ? "" : cameraId;
+    bindDevice(device.deviceId, id);
+    setBoundCameraId(id);
+  };
+
+  const addToFeed = useCallback((recorded: RecordedDetection[]) => {
+    setFeed((prev) =>
+      [...recorded.map((r) => r.detection), ...prev].slice(0, FEED_SIZE)
+    );
+  }, []);
+
+  const {
+    detectFrame,
+    flush,
+    sendHeartbeat,
+    overlay,
+    backlog,
+    isBackendConnected,
+  } = useDetectionPipeline({
+    cameraId: boundCameraId,
+    isStreaming,
+    label,
+    onRecorded: addToFeed,
+  });
+
+  // Start this device's stream and sampler; stop both when the tile goes away
+  useEffect(() => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    if (!video || !canvas) return;
+
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+
+    // Each await may outlive the tile; cleanup has then already run
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { deviceId: { exact: device.deviceId } },
+          audio: false,
+        });
+        if (cancelled) {
+          stream.getTracks().forEach((t) => t.stop());
+          return;
+        }
+
+        stream
+          .getVideoTracks()[0]
+          ?.addEventListener("ended", () =>
+            sendHeartbeat("error", "Video track ended")
+          );
+        video.srcObject = stream;
+        await video.play();
+        if (cancelled) return;
+
+        samplerRef.current = new FrameSampler(
+          video,
+          canvas,
+          detectFrame,
+          samplerConfig,
+          setStats
+        );
+        samplerRef.current.start();
+        setIsStreaming(true);
+      } catch (err: any) {
+        if (cancelled) return;
+        console.error(`Camera error for ${label}:`, err);
+        setError(
+          err.name === "NotReadableError"
+            ? "Device is busy or the USB bus is out of bandwidth"
+            : err.message
+        );
+        sendHeartbeat("error", err.message);
+      }
+    };
+    start();
+
+    return () => {
+      cancelled = true;
+      samplerRef.current?.stop();
+      samplerRef.current = null;
+      stream?.getTracks().forEach((t) => t.stop());
+      video.srcObject = null;
+      flush();
+      setIsStreaming(false);
+    };
+    // The stream is tied to the device; config changes go through configure()
+  }, [device.deviceId, label, detectFrame, flush, sendHeartbeat]);
+
+  useEffect(() => {
+    samplerRef.current?.configure(samplerConfig);
+  }, [samplerConfig]);
+
+  return (
+    <div className="bg-gray-900/50 p-3 rounded-xl shadow-lg flex flex-col gap-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-semibold text-teal-300 truncate capitalize">
+          {label}
+        </span>
+        <div className="flex items-center gap-2">
+          <Badge
+            variant="outline"
+            className={`text-xs ${
+              error
+                ? "text-red-400 border-red-400"
+                : isStreaming
+                ? "text-teal-400 border-teal-400"
+                : "text-yellow-400 border-yellow-400"
+            }`}
+          >
+            {error ? "Error" : isStreaming ? "Live" : "Starting..."}
+          </Badge>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onRemove}
+            className="h-7 w-7 p-0 text-gray-400 hover:text-red-400"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="relative">
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          className="w-full rounded-lg border border-teal-500/30 bg-black"
+        />
+        <PlateOverlay reads={overlay.reads} frame={overlay.frame} />
+        <canvas ref={canvasRef} className="hidden" />
+      </div>
+
+      {error ? (
+        <p className="text-xs text-red-400">{error}</p>
+      ) : (
+        <p className="text-xs text-gray-400">
+          {stats.fps.toFixed(1)} fps · {Math.round(stats.avgLatencyMs)} ms
+          latency · {stats.skipped} static skipped
+          {backlog > 0 && (
+            <span className="text-yellow-400">
+              {" "}
+              · {backlog} queued
+              {isBackendConnected ? " · replaying" : " offline"}
+            </span>
+          )}
+        </p>
+      )}
+
+      <Select value={boundCameraId || "none"} onValueChange={handleBindingChange}>
+        <SelectTrigger className="bg-gray-800 border-gray-700 text-white h-8 text-sm">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="bg-gray-800 border-gray-700">
+          <SelectItem value="none">Not bound (default camera)</SelectItem>
+          {registeredCameras.map((c) => (
+            <SelectItem key={c.id} value={c.id}>
+              {c.name} ({c.location})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {feed.length === 0 ? (
+        <p className="text-xs text-gray-500 italic">No detections yet...</p>
+      ) : (
+        <ul className="space-y-2">
+          {feed.map((d) => (
+            <li
+              key={d.id}
+              className="flex items-center gap-2 bg-gray-800/70 p-2 rounded-lg border border-teal-500/20"
+            >
+              {detectionThumbnail(d) && (
+                <img
+                  src={detectionThumbnail(d)}
+                  alt={d.license_plate}
+                  className="h-6 w-16 object-contain bg-black rounded"
+                />
+              )}
+              <Badge className="font-mono bg-teal-600 text-white">
+                {d.license_plate}
+              </Badge>
+              {d.review_status === "needs_review" && (
+                <span className="text-xs text-yellow-400">review</span>
+              )}
+              {d.additional_data?.flag && (
+                <span className="text-xs text-red-400">
+                  {d.additional_data.flag.reason}
+                </span>
+              )}
+              <span className="text-xs text-gray-500 ml-auto">
+                {new Date(d.detection_timestamp).toLocaleTimeString()}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { supabase } from "@/lib/supabase";
+import type { DetectedPlate } from "@/lib/detection-backend";
+import {
+  normalizePlate,
+  plateKey,
+  toBoundingBox,
+  toConfidenceScore,
+} from "@/lib/plate-format";
+import type { FrameSize } from "@/lib/zones";
+import { vehicleStanding } from "@/lib/watchlist";
+import type { Vehicle } from "@/types/database";
+
+type OverlayStatus = "registered" | "unknown" | "blocked" | "expired";
+
+interface PlateOverlayProps {
+  // Raw reads from the latest frame, in that frame's pixels
+  reads: DetectedPlate[];
+  frame?: FrameSize;
+}
+
+export const OVERLAY_COLORS: Record<OverlayStatus, string> = {
+  registered: "#4ade80",
+  unknown: "#facc15",
+  blocked: "#f87171",
+  expired: "#fb923c",
+};
+
+// Boxes disappear when no new frame has come back for this long
+const STALE_MS = 2500;
+// Vehicle lookups are reused for a minute so each frame doesn't query
+const LOOKUP_TTL_MS = 60_000;
+
+type VehicleStatus = Pick<Vehicle, "plate_key" | "status" | "expiry_date">;
+
+// Same rule that decides whether a sighting alerts security
+const overlayStatus = (vehicle: VehicleStatus | null): OverlayStatus =>
+  vehicle ? vehicleStanding(vehicle) : "unknown";
+
+/**
+ * Draws the boxes from the latest detection response over the video,
+ * coloured by the plate's registration status.
+ */
+export default function PlateOverlay({ reads, frame }: PlateOverlayProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const lookupsRef = useRef(
+    new Map<string, { vehicle: VehicleStatus | null; at: number }>()
+  );
+  const [statuses, setStatuses] = useState<Record<string, OverlayStatus>>({});
+  const [visible, setVisible] = useState(false);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  // Match the canvas to the video's displayed size
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setSize({ width, height });
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!reads.length) {
+      setVisible(false);
+      return;
+    }
+
+    setVisible(true);
+    const timer = setTimeout(() => setVisible(false), STALE_MS);
+    return () => clearTimeout(timer);
+  }, [reads]);
+
+  useEffect(() => {
+    const plates = Array.from(
+      new Set(reads.filter((r) => r.plate).map((r) => plateKey(r.plate)))
+    );
+    const now = Date.now();
+    const lookups = lookupsRef.current;
+    const missing = plates.filter(
+      (plate) => (lookups.get(plate)?.at ?? 0) < now - LOOKUP_TTL_MS
+    );
+
+    const publish = () =>
+      setStatuses(
+        Object.fromEntries(
+          plates.map((plate) => [
+            plate,
+            overlayStatus(lookups.get(plate)?.vehicle ?? null),
+          ])
+        )
+      );
+
+    if (!missing.length) {
+      publish();
+      return;
+    }
+
+    let cancelled = false;
+    supabase
+      .from("vehicles")
+      .select("plate_key, status, expiry_date")
+      .in("plate_key", missing)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Overlay vehicle lookup failed:", error);
+          return;
+        }
+        for (const plate of missing) {
+          const vehicle = data?.find((v) => v.plate_key === plate) ?? null;
+          lookups.set(plate, { vehicle, at: now });
+        }
+        if (!cancelled) publish();
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [reads]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(size.width * dpr);
+    canvas.height = Math.round(size.height * dpr);
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, size.width, size.height);
+    if (!visible || !frame?.width || !frame?.height) return;
+
+    const scaleX = size.width / frame.width;
+    const scaleY = size.height / frame.height;
+    ctx.font = "600 13px ui-monospace, monospace";
+    ctx.textBaseline = "bottom";
+
+    for (const read of reads) {
+      const box = toBoundingBox(read.bbox);
+      if (!box || !read.plate) continue;
+
+      const plate = normalizePlate(read.plate);
+      const color = OVERLAY_COLORS[statuses[plateKey(plate)] ?? "unknown"];
+      const x = box.x * scaleX;
+      const y = box.y * scaleY;
+
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 2;
+      ctx.strokeRect(x, y, box.width * scaleX, box.height * scaleY);
+
+      const label = `${plate} ${Math.round(toConfidenceScore(read.ocr_conf) * 100)}%`;
+      const labelWidth = ctx.measureText(label).width + 8;
+      // Labels sit above the box, or inside it at the top edge of the frame
+      const labelY = y >= 18 ? y : y + 18;
+      ctx.fillStyle = color;
+      ctx.fillRect(x - 1, labelY - 18, labelWidth, 18);
+      ctx.fillStyle = "#030712";
+      ctx.fillText(label, x + 3, labelY - 3);
+    }
+  }, [reads, frame, statuses, visible, size]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute inset-0 w-full h-full pointer-events-none"
+    />
+  );
+}
+
+/**
+ * Key for the overlay colours
+ */
+export function PlateOverlayLegend() {
+  return (
+    <div className="flex flex-wrap gap-3 text-xs text-gray-400">
+      {(Object.keys(OVERLAY_COLORS) as OverlayStatus[]).map((status) => (
+        <span key={status} className="flex items-center gap-1 capitalize">
+          <span
+            className="h-2.5 w-2.5 rounded-sm"
+            style={{ backgroundColor: OVERLAY_COLORS[status] }}
+          />
+          {status}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,464 @@
+"use client";
+
+import type React from "react";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Save, Trash2, Undo2, X } from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/contexts/AuthContext";
+import type { CameraZone, Coordinate } from "@/types/database";
+
+interface ZoneEditorProps {
+  cameraId?: string;
+  editing: boolean;
+  children: React.ReactNode;
+}
+
+const ZONE_COLORS: Record<CameraZone["zone_type"], string> = {
+  detection: "#2dd4bf",
+  restricted: "#f87171",
+  parking: "#a78bfa",
+  entrance: "#4ade80",
+  exit: "#facc15",
+};
+
+const toPoints = (coords: Coordinate[]) =>
+  coords.map((c) => `${c.x},${c.y}`).join(" ");
+
+/**
+ * Draws a camera's zones over its video and, while editing,
+ * lets the operator click out new polygons (stored as 0-1 fractions).
+ */
+export default function ZoneEditor({
+  cameraId,
+  editing,
+  children,
+}: ZoneEditorProps) {
+  const { user } = useAuth();
+  const [zones, setZones] = useState<CameraZone[]>([]);
+  const [draft, setDraft] = useState<Coordinate[]>([]);
+  const [zoneName, setZoneName] = useState("");
+  const [zoneType, setZoneType] = useState<CameraZone["zone_type"]>("detection");
+  const [alertEnabled, setAlertEnabled] = useState(false);
+  const [capacity, setCapacity] = useState("");
+  const [maxStay, setMaxStay] = useState("");
+  const [overstayAction, setOverstayAction] =
+    useState<CameraZone["overstay_action"]>("reminder");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadZones = useCallback(async () => {
+    if (!cameraId) {
+      setZones([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("camera_zones")
+      .select("*")
+      .eq("camera_id", cameraId)
+      .order("created_at");
+
+    if (error) {
+      console.error("Error loading zones:", error);
+      return;
+    }
+    setZones(data || []);
+  }, [cameraId]);
+
+  useEffect(() => {
+    loadZones();
+  }, [loadZones]);
+
+  useEffect(() => {
+    if (!editing) setDraft([]);
+  }, [editing]);
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!editing) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const point = {
+      x: Number(((e.clientX - rect.left) / rect.width).toFixed(4)),
+      y: Number(((e.clientY - rect.top) / rect.height).toFixed(4)),
+    };
+    setDraft((prev) => [...prev, point]);
+  };
+
+  const saveZone = async () => {
+    if (!cameraId || !user) return;
+    if (draft.length < 3) {
+      setError("A zone needs at least three points");
+      return;
+    }
+    if (!zoneName.trim()) {
+      setError("Give the zone a name");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    const { error } = await supabase.from("camera_zones").insert({
+      camera_id: cameraId,
+      zone_name: zoneName.trim(),
+      zone_type: zoneType,
+      coordinates: draft,
+      alert_enabled: zoneType === "restricted" && alertEnabled,
+      ...(zoneType === "parking" && {
+        capacity: capacity ? Number(capacity) : null,
+        max_stay_minutes: maxStay ? Number(maxStay) : null,
+        overstay_action: overstayAction,
+      }),
+      created_by: user.id,
+    });
+
+    setSaving(false);
+    if (error) {
+      console.error("Error saving zone:", error);
+      setError(`Failed to save zone: ${error.message}`);
+      return;
+    }
+
+    setDraft([]);
+    setZoneName("");
+    setCapacity("");
+    setMaxStay("");
+    await loadZones();
+  };
+
+  const updateMaxStay = async (zone: CameraZone, value: string) => {
+    const maxStayMinutes = value ? Number(value) : null;
+    if (maxStayMinutes === (zone.max_stay_minutes ?? null)) return;
+
+    const { error } = await supabase
+      .from("camera_zones")
+      .update({ max_stay_minutes: maxStayMinutes })
+      .eq("id", zone.id);
+
+    if (error) {
+      console.error("Error updating zone:", error);
+      setError(`Failed to update max stay: ${error.message}`);
+      return;
+    }
+    await loadZones();
+  };
+
+  const toggleZone = async (zone: CameraZone) => {
+    const { error } = await supabase
+      .from("camera_zones")
+      .update({ is_active: !zone.is_active })
+      .eq("id", zone.id);
+
+    if (error) {
+      console.error("Error updating zone:", error);
+      return;
+    }
+    await loadZones();
+  };
+
+  const deleteZone = async (zone: CameraZone) => {
+    if (!confirm(`Delete zone "${zone.zone_name}"?`)) return;
+
+    const { error } = await supabase
+      .from("camera_zones")
+      .delete()
+      .eq("id", zone.id);
+
+    if (error) {
+      console.error("Error deleting zone:", error);
+      return;
+    }
+    await loadZones();
+  };
+
+  return (
+    <>
+      <div
+        className={`relative w-full max-w-[90vw] sm:max-w-[600px] ${
+          editing ? "cursor-crosshair" : ""
+        }`}
+        onClick={handleClick}
+      >
+        {children}
+
+        <svg
+          viewBox="0 0 1 1"
+          preserveAspectRatio="none"
+          className="absolute inset-0 w-full h-full pointer-events-none"
+        >
+          {zones
+            .filter((zone) => zone.is_active || editing)
+            .map((zone) => (
+              <polygon
+                key={zone.id}
+                points={toPoints(zone.coordinates)}
+                fill={ZONE_COLORS[zone.zone_type]}
+                fillOpacity={zone.is_active ? 0.15 : 0.05}
+                stroke={ZONE_COLORS[zone.zone_type]}
+                strokeWidth={2}
+                strokeDasharray={zone.is_active ? undefined : "4 4"}
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+          {draft.length > 0 && (
+            <polyline
+              points={toPoints(
+                draft.length > 2 ? [...draft, draft[0]] : draft
+              )}
+              fill={ZONE_COLORS[zoneType]}
+              fillOpacity={0.1}
+              stroke={ZONE_COLORS[zoneType]}
+              strokeWidth={2}
+              strokeDasharray="6 3"
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </svg>
+
+        {draft.map((p, i) => (
+          <span
+            key={i}
+            className="absolute h-2 w-2 -ml-1 -mt-1 rounded-full bg-white pointer-events-none"
+            style={{ left: `${p.x * 100}%`, top: `${p.y * 100}%` }}
+          />
+        ))}
+      </div>
+
+      {editing && (
+        <div className="bg-gray-900/50 p-4 rounded-xl shadow-lg space-y-4 max-w-[90vw] sm:max-w-[600px]">
+          {!cameraId ? (
+            <p className="text-yellow-400 text-sm">
+              Bind this device to a registered camera to edit its zones.
+            </p>
+          ) : (
+            <>
+              <p className="text-xs text-gray-400">
+                Click on the video to add points. Plates outside every
+                detection zone are ignored; restricted zones with alerts on
+                notify security.
+              </p>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="zoneName" className="text-gray-300">
+                    Zone name
+                  </Label>
+                  <Input
+                    id="zoneName"
+                    placeholder="Gate lane"
+                    value={zoneName}
+                    onChange={(e) => setZoneName(e.target.value)}
+                    className="bg-gray-800 border-gray-700 text-white placeholder-gray-400"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-gray-300">Type</Label>
+                  <Select
+                    value={zoneType}
+                    onValueChange={(value) =>
+                      setZoneType(value as CameraZone["zone_type"])
+                    }
+                  >
+                    <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-gray-800 border-gray-700">
+                      <SelectItem value="detection">Detection</SelectItem>
+                      <SelectItem value="restricted">Restricted</SelectItem>
+                      <SelectItem value="parking">Parking</SelectItem>
+                      <SelectItem value="entrance">Entrance</SelectItem>
+                      <SelectItem value="exit">Exit</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {zoneType === "restricted" && (
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="alertEnabled"
+                    checked={alertEnabled}
+                    onCheckedChange={(checked) =>
+                      setAlertEnabled(checked as boolean)
+                    }
+                    className="border-gray-600 data-[state=checked]:bg-cyan-500 data-[state=checked]:border-cyan-500"
+                  />
+                  <Label htmlFor="alertEnabled" className="text-gray-300">
+                    Alert security when a plate enters this zone
+                  </Label>
+                </div>
+              )}
+
+              {zoneType === "parking" && (
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="zoneCapacity" className="text-gray-300">
+                      Spaces
+                    </Label>
+                    <Input
+                      id="zoneCapacity"
+                      type="number"
+                      min={1}
+                      placeholder="20"
+                      value={capacity}
+                      onChange={(e) => setCapacity(e.target.value)}
+                      className="bg-gray-800 border-gray-700 text-white placeholder-gray-400"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="zoneMaxStay" className="text-gray-300">
+                      Max stay (min)
+                    </Label>
+                    <Input
+                      id="zoneMaxStay"
+                      type="number"
+                      min={1}
+                      placeholder="No limit"
+                      value={maxStay}
+                      onChange={(e) => setMaxStay(e.target.value)}
+                      className="bg-gray-800 border-gray-700 text-white placeholder-gray-400"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-gray-300">On overstay</Label>
+                    <Select
+                      value={overstayAction}
+                      onValueChange={(value) =>
+                        setOverstayAction(
+                          value as CameraZone["overstay_action"]
+                        )
+                      }
+                    >
+                      <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-gray-800 border-gray-700">
+                        <SelectItem value="reminder">Remind owner</SelectItem>
+                        <SelectItem value="alert">Alert security</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+
+              {error && <p className="text-red-400 text-sm">{error}</p>}
+
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setDraft((prev) => prev.slice(0, -1))}
+                  disabled={draft.length === 0}
+                  className="text-gray-300"
+                >
+                  <Undo2 className="h-4 w-4 mr-1" />
+                  Undo
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setDraft([])}
+                  disabled={draft.length === 0}
+                  className="text-gray-300"
+                >
+                  <X className="h-4 w-4 mr-1" />
+                  Clear
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={saveZone}
+                  disabled={saving || draft.length < 3}
+                  className="ml-auto bg-teal-600 hover:bg-teal-700"
+                >
+                  <Save className="h-4 w-4 mr-1" />
+                  {saving ? "Saving..." : `Save zone (${draft.length} points)`}
+                </Button>
+              </div>
+
+              {zones.length > 0 && (
+                <ul className="space-y-2">
+                  {zones.map((zone) => (
+                    <li
+                      key={zone.id}
+                      className="flex items-center gap-2 bg-gray-800/70 p-2 rounded-lg"
+                    >
+                      <span
+                        className="h-3 w-3 rounded-sm"
+                        style={{ background: ZONE_COLORS[zone.zone_type] }}
+                      />
+                      <span className="text-sm text-white">
+                        {zone.zone_name}
+                      </span>
+                      <Badge
+                        variant="outline"
+                        className="text-xs text-gray-300 border-gray-600"
+                      >
+                        {zone.zone_type}
+                      </Badge>
+                      {zone.alert_enabled && (
+                        <Badge
+                          variant="outline"
+                          className="text-xs text-red-400 border-red-400"
+                        >
+                          alerts
+                        </Badge>
+                      )}
+                      {zone.zone_type === "parking" && (
+                        <>
+                          {zone.capacity && (
+                            <span className="text-xs text-gray-400">
+                              {zone.capacity} spaces
+                            </span>
+                          )}
+                          <Input
+                            type="number"
+                            min={1}
+                            placeholder="Max stay"
+                            title="Max stay in minutes"
+                            defaultValue={zone.max_stay_minutes ?? ""}
+                            onBlur={(e) => updateMaxStay(zone, e.target.value)}
+                            className="h-8 w-24 bg-gray-800 border-gray-700 text-white text-xs placeholder-gray-500"
+                          />
+                        </>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => toggleZone(zone)}
+                        className={`ml-auto ${
+                          zone.is_active ? "text-green-400" : "text-gray-400"
+                        }`}
+                      >
+                        {zone.is_active ? "Active" : "Paused"}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => deleteZone(zone)}
+                        className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
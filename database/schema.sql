@@ -46,6 +46,7 @@ CREATE TABLE cameras (
     fps INTEGER DEFAULT 30,
     is_active BOOLEAN DEFAULT true,
     last_heartbeat TIMESTAMP WITH TIME ZONE,
+    confidence_threshold DECIMAL(5,4) CHECK (confidence_threshold >= 0 AND confidence_threshold <= 1), -- Overrides detection_confidence_threshold when set
     created_by UUID REFERENCES users(id),
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
@@ -58,6 +59,8 @@ CREATE TABLE cameras (
 CREATE TABLE vehicles (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     license_plate VARCHAR(20) UNIQUE NOT NULL,
+    -- Letters and digits only, so reads match with or without spaces and hyphens
+    plate_key VARCHAR(20) GENERATED ALWAYS AS (regexp_replace(UPPER(license_plate), '[^A-Z0-9]', '', 'g')) STORED,
     make VARCHAR(50) NOT NULL,
     model VARCHAR(50) NOT NULL,
     year INTEGER NOT NULL,
@@ -90,6 +93,7 @@ CREATE TABLE detections (
     image_url TEXT,
     bounding_box JSONB, -- Stores detection coordinates {x, y, width, height}
     additional_data JSONB, -- Stores extra detection metadata
+    review_status VARCHAR(20) DEFAULT 'accepted' CHECK (review_status IN ('accepted', 'needs_review', 'confirmed', 'corrected', 'rejected')),
     is_verified BOOLEAN DEFAULT false,
     verified_by UUID REFERENCES users(id),
     verified_at TIMESTAMP WITH TIME ZONE,
@@ -122,10 +126,10 @@ CREATE TABLE sms_messages (
     message_content TEXT NOT NULL,
     message_type VARCHAR(50) NOT NULL DEFAULT 'detection',
     recipients_count INTEGER NOT NULL DEFAULT 0,
-    status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed', 'partial')),
+    status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'delivered', 'failed', 'partial')),
     sent_at TIMESTAMP WITH TIME ZONE,
     delivery_status JSONB, -- Stores individual recipient delivery status
-    related_detection_id UUID REFERENCES detections(id),
+    related_detection_id UUID REFERENCES detections(id) ON DELETE SET NULL,
     related_vehicle_id UUID REFERENCES vehicles(id),
     sent_by UUID REFERENCES users(id),
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
@@ -138,9 +142,10 @@ CREATE TABLE sms_messages (
 CREATE TABLE sms_delivery_log (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     message_id UUID NOT NULL REFERENCES sms_messages(id) ON DELETE CASCADE,
-    recipient_id UUID NOT NULL REFERENCES sms_recipients(id),
+    recipient_id UUID REFERENCES sms_recipients(id) ON DELETE SET NULL, -- NULL for owners and ad-hoc numbers
     phone VARCHAR(20) NOT NULL,
     status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'delivered', 'failed', 'undelivered')),
+    provider VARCHAR(50), -- Gateway that took the message (after any failover)
     provider_message_id VARCHAR(255),
     error_message TEXT,
     sent_at TIMESTAMP WITH TIME ZONE,
@@ -189,14 +194,125 @@ CREATE TABLE camera_zones (
     camera_id UUID NOT NULL REFERENCES cameras(id) ON DELETE CASCADE,
     zone_name VARCHAR(100) NOT NULL,
     zone_type VARCHAR(50) DEFAULT 'detection' CHECK (zone_type IN ('detection', 'restricted', 'parking', 'entrance', 'exit')),
-    coordinates JSONB NOT NULL, -- Polygon coordinates defining the zone
+    coordinates JSONB NOT NULL, -- Polygon vertices as fractions (0-1) of frame width/height
     is_active BOOLEAN DEFAULT true,
     alert_enabled BOOLEAN DEFAULT false,
+    capacity INTEGER CHECK (capacity > 0), -- Parking zones: number of spaces
+    max_stay_minutes INTEGER CHECK (max_stay_minutes > 0), -- Parking zones: NULL means no limit
+    overstay_action VARCHAR(10) DEFAULT 'reminder' CHECK (overstay_action IN ('reminder', 'alert')),
     created_by UUID REFERENCES users(id),
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- =============================================
+-- PLATE_ALERT_COOLDOWNS TABLE
+-- Last alert time per plate and camera, used to suppress repeat alerts
+-- =============================================
+CREATE TABLE plate_alert_cooldowns (
+    camera_id UUID NOT NULL REFERENCES cameras(id) ON DELETE CASCADE,
+    license_plate VARCHAR(20) NOT NULL,
+    last_alerted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (camera_id, license_plate)
+);
+
+-- =============================================
+-- WATCHLIST TABLE
+-- Plates to flag on sight that aren't (or needn't be) registered vehicles,
+-- e.g. stolen-vehicle reports. Each entry carries its own alert rules.
+-- =============================================
+CREATE TABLE watchlist (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    license_plate VARCHAR(20) UNIQUE NOT NULL,
+    -- Matched the same way as vehicles.plate_key
+    plate_key VARCHAR(20) GENERATED ALWAYS AS (regexp_replace(UPPER(license_plate), '[^A-Z0-9]', '', 'g')) STORED,
+    reason VARCHAR(20) NOT NULL DEFAULT 'other' CHECK (reason IN ('stolen', 'wanted', 'banned', 'other')),
+    description TEXT,
+    priority VARCHAR(10) NOT NULL DEFAULT 'high' CHECK (priority IN ('high', 'normal')),
+    notify_recipient_ids UUID[], -- NULL alerts every active recipient subscribed to 'alert'
+    alert_cooldown_minutes INTEGER, -- NULL uses plate_realert_cooldown_minutes
+    is_active BOOLEAN DEFAULT true,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- =============================================
+-- VEHICLE_VISITS TABLE
+-- Entry/exit detections paired into one visit per vehicle.
+-- Direction comes from the entrance / exit zone a plate was read in.
+-- =============================================
+CREATE TABLE vehicle_visits (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    license_plate VARCHAR(20) NOT NULL,
+    vehicle_id UUID REFERENCES vehicles(id) ON DELETE SET NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'on_site' CHECK (status IN ('on_site', 'exited', 'missed_exit', 'missed_entry')),
+    entered_at TIMESTAMP WITH TIME ZONE, -- NULL for an exit with no recorded entry
+    exited_at TIMESTAMP WITH TIME ZONE,
+    entry_detection_id UUID REFERENCES detections(id) ON DELETE SET NULL,
+    exit_detection_id UUID REFERENCES detections(id) ON DELETE SET NULL,
+    entry_camera_id UUID REFERENCES cameras(id) ON DELETE SET NULL,
+    exit_camera_id UUID REFERENCES cameras(id) ON DELETE SET NULL,
+    closed_by UUID REFERENCES users(id), -- Set when an operator closes the visit by hand
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- =============================================
+-- PARKING_SESSIONS TABLE
+-- One row per vehicle parked in a parking zone, for occupancy and dwell time
+-- =============================================
+CREATE TABLE parking_sessions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    zone_id UUID NOT NULL REFERENCES camera_zones(id) ON DELETE CASCADE,
+    license_plate VARCHAR(20) NOT NULL,
+    vehicle_id UUID REFERENCES vehicles(id) ON DELETE SET NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'parked' CHECK (status IN ('parked', 'departed')),
+    arrived_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    departed_at TIMESTAMP WITH TIME ZONE,
+    overstay_notified_at TIMESTAMP WITH TIME ZONE,
+    overstay_alert VARCHAR(20), -- Outcome of the overstay notification
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- =============================================
+-- SMS_JOBS TABLE
+-- Outbound SMS queue, one job per recipient of a queued message.
+-- Failed sends wait until run_at to be retried; jobs that can't
+-- go through are left 'dead' with the last error.
+-- =============================================
+CREATE TABLE sms_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    message_id UUID NOT NULL REFERENCES sms_messages(id) ON DELETE CASCADE,
+    delivery_id UUID NOT NULL REFERENCES sms_delivery_log(id) ON DELETE CASCADE,
+    phone VARCHAR(20) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sending', 'sent', 'dead')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    locked_by VARCHAR(100), -- Worker holding the job while it's 'sending'
+    locked_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    attempt_log JSONB NOT NULL DEFAULT '[]', -- One entry per send: when, provider, outcome, error
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- =============================================
+-- SMS_RATE_CLAIMS TABLE
+-- One row per SMS counted against the hourly rate limits, taken by
+-- claim_sms_quota before the send and dropped again if nothing went out
+-- =============================================
+CREATE TABLE sms_rate_claims (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    phone VARCHAR(20) NOT NULL,
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    claimed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
 -- =============================================
 -- INDEXES FOR PERFORMANCE
 -- =============================================
@@ -213,6 +329,7 @@ CREATE INDEX idx_cameras_is_active ON cameras(is_active);
 
 -- Vehicles indexes
 CREATE INDEX idx_vehicles_license_plate ON vehicles(license_plate);
+CREATE INDEX idx_vehicles_plate_key ON vehicles(plate_key);
 CREATE INDEX idx_vehicles_owner_phone ON vehicles(owner_phone);
 CREATE INDEX idx_vehicles_status ON vehicles(status);
 CREATE INDEX idx_vehicles_make_model ON vehicles(make, model);
@@ -223,6 +340,7 @@ CREATE INDEX idx_detections_vehicle_id ON detections(vehicle_id);
 CREATE INDEX idx_detections_license_plate ON detections(license_plate);
 CREATE INDEX idx_detections_timestamp ON detections(detection_timestamp DESC);
 CREATE INDEX idx_detections_confidence ON detections(confidence_score);
+CREATE INDEX idx_detections_review_status ON detections(review_status);
 
 -- SMS indexes
 CREATE INDEX idx_sms_recipients_phone ON sms_recipients(phone);
@@ -230,12 +348,38 @@ CREATE INDEX idx_sms_recipients_is_active ON sms_recipients(is_active);
 CREATE INDEX idx_sms_messages_status ON sms_messages(status);
 CREATE INDEX idx_sms_messages_created_at ON sms_messages(created_at DESC);
 CREATE INDEX idx_sms_delivery_log_message_id ON sms_delivery_log(message_id);
+CREATE INDEX idx_sms_delivery_log_provider_message_id ON sms_delivery_log(provider_message_id);
+CREATE INDEX idx_sms_delivery_log_sent_at ON sms_delivery_log(sent_at DESC);
+CREATE INDEX idx_sms_delivery_log_phone_sent_at ON sms_delivery_log(phone, sent_at DESC);
 
 -- Activity logs indexes
 CREATE INDEX idx_activity_logs_user_id ON activity_logs(user_id);
 CREATE INDEX idx_activity_logs_action ON activity_logs(action);
 CREATE INDEX idx_activity_logs_created_at ON activity_logs(created_at DESC);
 
+CREATE INDEX idx_watchlist_license_plate ON watchlist(license_plate);
+CREATE INDEX idx_watchlist_plate_key ON watchlist(plate_key);
+CREATE INDEX idx_watchlist_is_active ON watchlist(is_active);
+
+CREATE INDEX idx_camera_zones_camera_id ON camera_zones(camera_id);
+
+-- Only one open visit per plate
+CREATE UNIQUE INDEX idx_vehicle_visits_open_plate ON vehicle_visits(license_plate) WHERE status = 'on_site';
+CREATE INDEX idx_vehicle_visits_status ON vehicle_visits(status);
+CREATE INDEX idx_vehicle_visits_entered_at ON vehicle_visits(entered_at DESC);
+
+-- Only one open session per plate and zone
+CREATE UNIQUE INDEX idx_parking_sessions_open ON parking_sessions(zone_id, license_plate) WHERE status = 'parked';
+CREATE INDEX idx_parking_sessions_license_plate ON parking_sessions(license_plate);
+
+CREATE INDEX idx_sms_jobs_due ON sms_jobs(run_at) WHERE status IN ('queued', 'sending');
+CREATE INDEX idx_sms_jobs_message_id ON sms_jobs(message_id);
+
+-- SMS rate claim indexes
+CREATE INDEX idx_sms_rate_claims_claimed_at ON sms_rate_claims(claimed_at);
+CREATE INDEX idx_sms_rate_claims_phone ON sms_rate_claims(phone, claimed_at);
+CREATE INDEX idx_sms_rate_claims_user_id ON sms_rate_claims(user_id, claimed_at);
+
 -- =============================================
 -- ROW LEVEL SECURITY (RLS) POLICIES
 -- =============================================
@@ -251,6 +395,12 @@ ALTER TABLE sms_delivery_log ENABLE ROW LEVEL SECURITY;
 ALTER TABLE system_settings ENABLE ROW LEVEL SECURITY;
 ALTER TABLE activity_logs ENABLE ROW LEVEL SECURITY;
 ALTER TABLE camera_zones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE plate_alert_cooldowns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE watchlist ENABLE ROW LEVEL SECURITY;
+ALTER TABLE vehicle_visits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE parking_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sms_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sms_rate_claims ENABLE ROW LEVEL SECURITY;
 
 -- Users can read their own profile
 CREATE POLICY "Users can read own profile" ON users
@@ -264,6 +414,18 @@ CREATE POLICY "Users can update own profile" ON users
 CREATE POLICY "Authenticated users can read cameras" ON cameras
     FOR SELECT TO authenticated USING (true);
 
+-- Staff (everyone but viewers) can add, edit and delete cameras
+CREATE POLICY "Staff can manage cameras" ON cameras
+    FOR ALL TO authenticated
+    USING (EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role IN ('operator', 'supervisor', 'administrator')
+    ))
+    WITH CHECK (EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role IN ('operator', 'supervisor', 'administrator')
+    ));
+
 -- Authenticated users can read vehicles
 CREATE POLICY "Authenticated users can read vehicles" ON vehicles
     FOR SELECT TO authenticated USING (true);
@@ -272,6 +434,29 @@ CREATE POLICY "Authenticated users can read vehicles" ON vehicles
 CREATE POLICY "Authenticated users can read detections" ON detections
     FOR SELECT TO authenticated USING (true);
 
+-- Authenticated users can manage the watchlist
+CREATE POLICY "Authenticated users can manage watchlist" ON watchlist
+    FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- Authenticated users can manage camera zones
+CREATE POLICY "Authenticated users can manage camera zones" ON camera_zones
+    FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- Authenticated users can read visits and close them by hand
+CREATE POLICY "Authenticated users can manage vehicle visits" ON vehicle_visits
+    FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- Authenticated users can read parking sessions
+CREATE POLICY "Authenticated users can read parking sessions" ON parking_sessions
+    FOR SELECT TO authenticated USING (true);
+
+-- Authenticated users can read SMS history and per-recipient delivery
+CREATE POLICY "Authenticated users can read SMS messages" ON sms_messages
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Authenticated users can read SMS delivery log" ON sms_delivery_log
+    FOR SELECT TO authenticated USING (true);
+
 -- =============================================
 -- FUNCTIONS AND TRIGGERS
 -- =============================================
@@ -304,6 +489,18 @@ CREATE TRIGGER update_system_settings_updated_at BEFORE UPDATE ON system_setting
 CREATE TRIGGER update_camera_zones_updated_at BEFORE UPDATE ON camera_zones
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_watchlist_updated_at BEFORE UPDATE ON watchlist
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_vehicle_visits_updated_at BEFORE UPDATE ON vehicle_visits
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_parking_sessions_updated_at BEFORE UPDATE ON parking_sessions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_sms_jobs_updated_at BEFORE UPDATE ON sms_jobs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 -- Function to log user activity
 CREATE OR REPLACE FUNCTION log_user_activity()
 RETURNS TRIGGER AS $$
@@ -323,6 +520,144 @@ BEGIN
 END;
 $$ language 'plpgsql';
 
+-- Atomically claim the right to alert for a plate at a camera.
+-- Returns false while the previous alert is still inside the cooldown window,
+-- so concurrent callers (several browser tabs, workers) can't double-send.
+CREATE OR REPLACE FUNCTION claim_plate_alert(
+    p_camera_id UUID,
+    p_license_plate VARCHAR,
+    p_cooldown_seconds INTEGER
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    claimed BOOLEAN;
+BEGIN
+    INSERT INTO plate_alert_cooldowns (camera_id, license_plate, last_alerted_at)
+    VALUES (p_camera_id, p_license_plate, NOW())
+    ON CONFLICT (camera_id, license_plate) DO UPDATE
+        SET last_alerted_at = NOW()
+        WHERE plate_alert_cooldowns.last_alerted_at <= NOW() - make_interval(secs => p_cooldown_seconds)
+    RETURNING true INTO claimed;
+
+    RETURN COALESCE(claimed, false);
+END;
+$$ language 'plpgsql';
+
+-- Roll a message's delivery log up into sms_messages.status: pending while
+-- recipients are still queued, then delivered once every receipt says so,
+-- sent when nothing failed, failed when nothing got through, partial otherwise
+CREATE OR REPLACE FUNCTION refresh_sms_message_status(p_message_id UUID)
+RETURNS VARCHAR AS $$
+    UPDATE sms_messages
+    SET status = CASE
+        WHEN counts.pending > 0 THEN 'pending'
+        WHEN counts.delivered = counts.total THEN 'delivered'
+        WHEN counts.failed = 0 THEN 'sent'
+        WHEN counts.failed = counts.total THEN 'failed'
+        ELSE 'partial'
+    END
+    FROM (
+        SELECT COUNT(*) AS total,
+               COUNT(*) FILTER (WHERE status = 'pending') AS pending,
+               COUNT(*) FILTER (WHERE status = 'delivered') AS delivered,
+               COUNT(*) FILTER (WHERE status IN ('failed', 'undelivered')) AS failed
+        FROM sms_delivery_log
+        WHERE message_id = p_message_id
+    ) AS counts
+    WHERE sms_messages.id = p_message_id AND counts.total > 0
+    RETURNING sms_messages.status;
+$$ language 'sql';
+
+-- Atomically take one SMS from the hourly quotas: overall, for one user
+-- and for one phone (a limit of 0 is off). The advisory lock makes
+-- concurrent senders take turns, so two can't both get the last slot.
+-- Returns the new claim's id, or the first full scope with its oldest
+-- claim so callers know when room frees up.
+CREATE OR REPLACE FUNCTION claim_sms_quota(
+    p_phone VARCHAR,
+    p_user_id UUID,
+    p_global_limit INTEGER,
+    p_user_limit INTEGER,
+    p_recipient_limit INTEGER,
+    p_window_seconds INTEGER
+)
+RETURNS TABLE (claim_id UUID, scope VARCHAR, oldest_claimed_at TIMESTAMP WITH TIME ZONE) AS $$
+DECLARE
+    since TIMESTAMP WITH TIME ZONE := NOW() - make_interval(secs => p_window_seconds);
+    used BIGINT;
+    oldest TIMESTAMP WITH TIME ZONE;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('claim_sms_quota'));
+    DELETE FROM sms_rate_claims WHERE claimed_at < since;
+
+    IF p_global_limit > 0 THEN
+        SELECT COUNT(*), MIN(claimed_at) INTO used, oldest
+        FROM sms_rate_claims;
+        IF used >= p_global_limit THEN
+            RETURN QUERY SELECT NULL::UUID, 'global'::VARCHAR, oldest;
+            RETURN;
+        END IF;
+    END IF;
+
+    IF p_user_limit > 0 AND p_user_id IS NOT NULL THEN
+        SELECT COUNT(*), MIN(claimed_at) INTO used, oldest
+        FROM sms_rate_claims WHERE user_id = p_user_id;
+        IF used >= p_user_limit THEN
+            RETURN QUERY SELECT NULL::UUID, 'user'::VARCHAR, oldest;
+            RETURN;
+        END IF;
+    END IF;
+
+    IF p_recipient_limit > 0 THEN
+        SELECT COUNT(*), MIN(claimed_at) INTO used, oldest
+        FROM sms_rate_claims WHERE phone = p_phone;
+        IF used >= p_recipient_limit THEN
+            RETURN QUERY SELECT NULL::UUID, 'recipient'::VARCHAR, oldest;
+            RETURN;
+        END IF;
+    END IF;
+
+    RETURN QUERY
+    INSERT INTO sms_rate_claims (phone, user_id)
+    VALUES (p_phone, p_user_id)
+    RETURNING sms_rate_claims.id, NULL::VARCHAR, NULL::TIMESTAMP WITH TIME ZONE;
+END;
+$$ language 'plpgsql';
+
+-- Claim up to p_limit due SMS jobs for a worker. SKIP LOCKED lets several
+-- workers share the queue; jobs left 'sending' by a worker that died are
+-- claimed again once their lock is older than p_lock_seconds.
+CREATE OR REPLACE FUNCTION claim_sms_jobs(
+    p_worker VARCHAR,
+    p_limit INTEGER,
+    p_lock_seconds INTEGER
+)
+RETURNS SETOF sms_jobs AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE sms_jobs
+    SET status = 'sending', locked_by = p_worker, locked_at = NOW(), attempts = sms_jobs.attempts + 1
+    WHERE sms_jobs.id IN (
+        SELECT j.id FROM sms_jobs j
+        WHERE (j.status = 'queued' AND j.run_at <= NOW())
+           OR (j.status = 'sending' AND j.locked_at <= NOW() - make_interval(secs => p_lock_seconds))
+        ORDER BY j.run_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING sms_jobs.*;
+END;
+$$ language 'plpgsql';
+
+-- =============================================
+-- STORAGE
+-- Public bucket for plate crops and frames (IMAGE_STORAGE=supabase);
+-- object names carry a random id per detection
+-- =============================================
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('detection-images', 'detection-images', true)
+ON CONFLICT (id) DO NOTHING;
+
 -- =============================================
 -- SAMPLE DATA INSERTION
 -- =============================================
@@ -334,7 +669,20 @@ INSERT INTO system_settings (setting_key, setting_value, description, category)
 ('camera_heartbeat_interval', '30', 'Camera heartbeat check interval in seconds', 'camera'),
 ('auto_cleanup_detections_days', '90', 'Days to keep detection records', 'cleanup'),
 ('sms_provider', '"twilio"', 'SMS service provider', 'sms'),
-('ai_message_model', '"gpt-3.5-turbo"', 'AI model for SMS message generation', 'ai');
+('ai_message_model', '"gpt-3.5-turbo"', 'AI model for SMS message generation', 'ai'),
+('detection_backend_url', '"https://georgefemiwise-acdns.hf.space"', 'Detection backend base URL ("mock" for the offline mock backend)', 'detection'),
+('detection_backend_detect_path', '"/detect"', 'Detection backend frame upload path', 'detection'),
+('detection_backend_health_path', '"/refresh_cache"', 'Detection backend health check path', 'detection'),
+('detection_backend_timeout_ms', '15000', 'Detection backend request timeout in milliseconds', 'detection'),
+('detection_backend_auth_header', '"Authorization"', 'Header carrying DETECTION_BACKEND_TOKEN', 'detection'),
+('plate_realert_cooldown_minutes', '10', 'Minutes before the same plate at the same camera can alert again', 'detection'),
+('visit_reentry_grace_minutes', '5', 'Minutes an entrance camera can re-read a car already on site without starting a new visit', 'detection'),
+('parking_session_timeout_hours', '24', 'Hours without a sighting before a parked vehicle is assumed gone', 'detection'),
+('store_detection_frames', 'false', 'Also store the full frame each detection was read from', 'detection'),
+('sms_queue_concurrency', '4', 'Queued SMS the worker sends at once', 'sms'),
+('sms_max_attempts', '5', 'Send attempts before a queued SMS is dead-lettered', 'sms'),
+('max_sms_per_user_per_hour', '60', 'Maximum SMS messages per hour from one user (0 for no limit)', 'sms'),
+('max_sms_per_recipient_per_hour', '20', 'Maximum SMS messages per hour to one phone number (0 for no limit)', 'sms');
 
 -- Insert sample camera data
 INSERT INTO cameras (name, location, stream_url, ip_address, status) VALUES
@@ -0,0 +1,289 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import { getAccessToken } from "@/lib/supabase"
+import {
+  createDetectionBackend,
+  DETECTION_PROXY_CONFIG,
+  type DetectedPlate,
+} from "@/lib/detection-backend"
+import { PlateTracker } from "@/lib/plate-tracker"
+import { OfflineQueue, replayOfflineQueue, type QueuedCapture } from "@/lib/offline-queue"
+import type { FrameSize } from "@/lib/zones"
+import type { RecordedDetection } from "@/lib/detections"
+import { recordDetectionsAction } from "@/app/actions/recordDetectionsAction"
+
+// Frames go through /api/detect, which forwards to the configured backend
+const detectionBackend = createDetectionBackend(DETECTION_PROXY_CONFIG)
+
+// While the backend is unreachable, buffer about one frame a second
+const OFFLINE_FRAME_INTERVAL_MS = 1000
+const RECONNECT_PROBE_MS = 10_000
+const DEFAULT_HEARTBEAT_SECONDS = 30
+
+// Every camera in this browser shares one queue, replayed by one pipeline at a time
+let replaying = false
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+
+interface DetectionPipelineOptions {
+  // Registered camera the device is bound to; empty when unbound
+  cameraId: string
+  isStreaming: boolean
+  // Names the device in logs
+  label: string
+  // After each save, with what was recorded
+  onRecorded?: (recorded: RecordedDetection[]) => void
+}
+
+export interface Overlay {
+  reads: DetectedPlate[]
+  frame?: FrameSize
+}
+
+/**
+ * Everything between a browser camera's sampled frames and the detections
+ * table: detection, plate tracking, saving, heartbeats, and buffering
+ * frames and plates in the offline queue while the backend or server is
+ * unreachable
+ */
+export function useDetectionPipeline({ cameraId, isStreaming, label, onRecorded }: DetectionPipelineOptions) {
+  // The sampler outlives renders, so the pipeline reads these from refs
+  const cameraIdRef = useRef(cameraId)
+  cameraIdRef.current = cameraId
+  const onRecordedRef = useRef(onRecorded)
+  onRecordedRef.current = onRecorded
+
+  // Merges jittery reads of the same car across frames into one detection
+  const trackerRef = useRef(new PlateTracker())
+  // Whether to send whole frames along with crops (store_detection_frames)
+  const storeFramesRef = useRef(false)
+  const lastFrameRef = useRef<FrameSize>()
+  // Frames and plates kept in IndexedDB until the backend is reachable again
+  const queueRef = useRef<OfflineQueue | null>(null)
+  const offlineRef = useRef(false)
+  const lastQueuedRef = useRef(0)
+  const [backlog, setBacklog] = useState(0)
+  const [isBackendConnected, setIsBackendConnected] = useState<boolean | null>(null)
+  // Latest raw reads, drawn over the video
+  const [overlay, setOverlay] = useState<Overlay>({ reads: [] })
+
+  // Tell the server this camera is alive; it marks silent cameras offline
+  const sendHeartbeat = useCallback(
+    async (status: "online" | "error" = "online", error?: string) => {
+      const id = cameraIdRef.current
+      if (!id) return
+
+      try {
+        // The route only accepts signed-in clients
+        const res = await fetch(`/api/cameras/${id}/heartbeat`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${(await getAccessToken()) ?? ""}`,
+          },
+          body: JSON.stringify({ status, error }),
+        })
+        const data = await res.json()
+        storeFramesRef.current = !!data.storeFrames
+        return data.intervalSeconds as number | undefined
+      } catch (err) {
+        console.error(`Heartbeat failed for ${label}:`, err)
+      }
+    },
+    [label],
+  )
+
+  useEffect(() => {
+    if (!isStreaming || !cameraId) return
+
+    let timer: ReturnType<typeof setTimeout>
+    let cancelled = false
+
+    const beat = async () => {
+      const intervalSeconds = (await sendHeartbeat()) || DEFAULT_HEARTBEAT_SECONDS
+      if (!cancelled) timer = setTimeout(beat, intervalSeconds * 1000)
+    }
+    beat()
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [isStreaming, cameraId, sendHeartbeat])
+
+  // Check backend connection
+  useEffect(() => {
+    detectionBackend
+      .checkHealth()
+      .then((healthy) => {
+        offlineRef.current = !healthy
+        setIsBackendConnected(healthy)
+      })
+      .catch((err) => {
+        offlineRef.current = true
+        setIsBackendConnected(false)
+        console.error("❌ Backend connection failed:", err)
+      })
+  }, [])
+
+  // Captures left over from an earlier session are replayed too
+  useEffect(() => {
+    const queue = new OfflineQueue()
+    queueRef.current = queue
+    queue
+      .count()
+      .then(setBacklog)
+      .catch((err) => console.error("Offline queue unavailable:", err))
+  }, [])
+
+  // While disconnected, probe until the backend answers again
+  useEffect(() => {
+    if (isBackendConnected !== false) return
+
+    const probe = async () => {
+      if (!navigator.onLine) return
+      if (await detectionBackend.checkHealth()) {
+        offlineRef.current = false
+        setIsBackendConnected(true)
+        console.log("✅ Backend reachable again")
+      }
+    }
+    const timer = setInterval(probe, RECONNECT_PROBE_MS)
+    window.addEventListener("online", probe)
+    return () => {
+      clearInterval(timer)
+      window.removeEventListener("online", probe)
+    }
+  }, [isBackendConnected])
+
+  // Resolves to the plates that couldn't be saved
+  const saveDetections = useCallback(
+    async (plates: DetectedPlate[], id?: string, capturedAt?: number, frame?: FrameSize) => {
+      const { recorded, failed } = await recordDetectionsAction(
+        (await getAccessToken()) ?? "",
+        plates,
+        id,
+        capturedAt,
+        frame,
+      )
+      onRecordedRef.current?.(recorded)
+
+      // Alerts and the re-alert cooldown are handled server-side
+      for (const { detection, flag, alert } of recorded) {
+        if (flag) {
+          console.warn(`Flagged plate ${detection.license_plate} (${flag.label}): security alert ${alert}`)
+        } else if (alert === "sent") {
+          console.log(`SMS sent for plate: ${detection.license_plate}`)
+        } else if (alert === "failed") {
+          console.error(`SMS failed for plate: ${detection.license_plate}`)
+        }
+      }
+      return failed
+    },
+    [],
+  )
+
+  const queueCapture = useCallback(async (entry: QueuedCapture) => {
+    const queue = queueRef.current
+    if (!queue) return
+    try {
+      await queue.add(entry)
+      setBacklog(await queue.count())
+    } catch (err) {
+      console.error("Queueing capture failed:", err)
+    }
+  }, [])
+
+  const recordPlates = useCallback(
+    async (plates: DetectedPlate[], capturedAt?: number, frame?: FrameSize) => {
+      // Boxes are in pixels of the captured frame; zones need its size
+      frame ??= lastFrameRef.current
+      const id = cameraIdRef.current || undefined
+
+      // Only the plates that weren't saved are queued for another try
+      let failed = plates
+      try {
+        failed = await saveDetections(plates, id, capturedAt, frame)
+      } catch (err) {
+        console.error(`Recording detections failed for ${label}:`, err)
+      }
+      if (failed.length) {
+        console.warn(`Queueing ${failed.length} plate(s) from ${label} that couldn't be recorded`)
+        await queueCapture({ kind: "plates", plates: failed, cameraId: id, capturedAt, size: frame })
+      }
+    },
+    [label, saveDetections, queueCapture],
+  )
+
+  // Detection pipeline; the sampler waits for this before the next frame
+  const detectFrame = useCallback(
+    async (blob: Blob, frame: FrameSize, capturedAt: number) => {
+      lastFrameRef.current = frame
+      const queueFrame = async () => {
+        if (capturedAt - lastQueuedRef.current < OFFLINE_FRAME_INTERVAL_MS) return
+        lastQueuedRef.current = capturedAt
+        await queueCapture({ kind: "frame", blob, size: frame, capturedAt, cameraId: cameraIdRef.current || undefined })
+      }
+
+      if (offlineRef.current) return queueFrame()
+
+      let reads: DetectedPlate[]
+      try {
+        reads = await detectionBackend.detect(blob)
+      } catch (err) {
+        console.error(`Detection failed for ${label}, buffering frames:`, err)
+        offlineRef.current = true
+        setIsBackendConnected(false)
+        return queueFrame()
+      }
+
+      try {
+        setOverlay({ reads, frame })
+        if (reads.length && storeFramesRef.current) {
+          // The tracker keeps the best read's images, frame included
+          const jpeg = await blobToDataUrl(blob)
+          reads.forEach((read) => (read.images = { ...read.images, frame: jpeg }))
+        }
+        // Only tracks that have settled come back from the tracker
+        const plates = trackerRef.current.update(reads, capturedAt)
+        // Saving doesn't hold up the next frame
+        if (plates.length) void recordPlates(plates, capturedAt, frame)
+      } catch (err) {
+        console.error(`Detection failed for ${label}:`, err)
+      }
+    },
+    [label, queueCapture, recordPlates],
+  )
+
+  // Record whatever is still being tracked, when the stream stops
+  const flush = useCallback(() => {
+    const remaining = trackerRef.current.flush()
+    if (remaining.length) void recordPlates(remaining)
+    setOverlay({ reads: [] })
+  }, [recordPlates])
+
+  // Replay the backlog whenever the backend is reachable
+  useEffect(() => {
+    const queue = queueRef.current
+    if (!isBackendConnected || !backlog || !queue || replaying) return
+
+    replaying = true
+    console.log(`⏫ Replaying ${backlog} queued captures`)
+    replayOfflineQueue(queue, { detect: (frame) => detectionBackend.detect(frame), record: saveDetections }, setBacklog)
+      .catch((err) => {
+        console.error("Replay stopped, retrying once reconnected:", err)
+        offlineRef.current = true
+        setIsBackendConnected(false)
+      })
+      .finally(() => {
+        replaying = false
+      })
+  }, [isBackendConnected, backlog, saveDetections])
+
+  return { detectFrame, flush, sendHeartbeat, overlay, backlog, isBackendConnected }
+}
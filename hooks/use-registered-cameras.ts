@@ -0,0 +1,31 @@
+import { useEffect, useState } from "react"
+import { supabase } from "@/lib/supabase"
+import type { Camera } from "@/types/database"
+
+export type RegisteredCamera = Pick<Camera, "id" | "name" | "location">
+
+/**
+ * Active rows of the cameras table, which browser devices get bound to
+ */
+export function useRegisteredCameras() {
+  const [cameras, setCameras] = useState<RegisteredCamera[]>([])
+
+  useEffect(() => {
+    const load = async () => {
+      const { data, error } = await supabase
+        .from("cameras")
+        .select("id, name, location")
+        .eq("is_active", true)
+        .order("name")
+
+      if (error) {
+        console.error("Error loading registered cameras:", error)
+        return
+      }
+      setCameras(data || [])
+    }
+    load()
+  }, [])
+
+  return cameras
+}
@@ -0,0 +1,21 @@
+// =============================================
+// ACTIVITY LOG
+// Records operator decisions and system events in activity_logs
+// =============================================
+
+import { createServerClient } from "@/lib/supabase"
+import type { ActivityLogInsert } from "@/types/database"
+
+/**
+ * Write an activity_logs row. Failures are logged, never thrown,
+ * so auditing can't break the action being audited.
+ */
+export async function logActivity(entry: ActivityLogInsert): Promise<void> {
+  try {
+    const supabase = createServerClient()
+    const { error } = await supabase.from("activity_logs").insert(entry)
+    if (error) throw error
+  } catch (error) {
+    console.error(`Failed to log activity "${entry.action}":`, error)
+  }
+}
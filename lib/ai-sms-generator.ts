@@ -16,6 +16,9 @@ export interface SmsPlaceholders {
   confidenceScore?: string
   systemName?: string
   operatorName?: string
+  zoneName?: string
+  parkedDuration?: string
+  maxStay?: string
 }
 
 export interface SmsGenerationOptions {
@@ -73,6 +76,14 @@ const MESSAGE_TEMPLATES = {
   },
 }
 
+// Parking overstays go out through the reminder (owner) or alert (security) flow
+const OVERSTAY_TEMPLATES = {
+  reminder:
+    "Reminder: your vehicle {vehicleLicense} has been parked in {zoneName} at {cameraLocation} for {parkedDuration}. The limit is {maxStay}; please move it.",
+  alert:
+    "Parking Alert: {vehicleLicense} has been in {zoneName} at {cameraLocation} for {parkedDuration}, over the {maxStay} limit. Please investigate.",
+}
+
 export class AiSmsGenerator {
   private hasHuggingFaceKey: boolean
 
@@ -322,3 +333,26 @@ export async function generateRecipientWelcomeMessage(recipientName: string): Pr
     return `👋 Welcome ${recipientName}! You've been added to CyberWatch SMS notifications. Stay secure with Arkesel! 🔒✨`
   }
 }
+
+/**
+ * Fill a built-in template without calling the AI route.
+ * Safe on the server, where the relative /api/generate-sms fetch isn't available.
+ */
+export function renderTemplateMessage(
+  messageType: SmsGenerationOptions["messageType"],
+  tone: SmsGenerationOptions["tone"],
+  placeholders: SmsPlaceholders,
+): string {
+  const template = MESSAGE_TEMPLATES[messageType]?.[tone] || MESSAGE_TEMPLATES[messageType]?.professional
+  return AiSmsGenerator.replacePlaceholders(template, placeholders)
+}
+
+/**
+ * Fill the parking overstay template for the reminder or alert flow.
+ * Without a location the "at ..." clause is left out rather than shown as [N/A].
+ */
+export function renderOverstayMessage(messageType: "reminder" | "alert", placeholders: SmsPlaceholders): string {
+  let template = OVERSTAY_TEMPLATES[messageType]
+  if (!placeholders.cameraLocation?.trim()) template = template.replace(" at {cameraLocation}", "")
+  return AiSmsGenerator.replacePlaceholders(template, placeholders)
+}
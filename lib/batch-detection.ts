@@ -0,0 +1,194 @@
+// =============================================
+// BATCH DETECTION
+// Samples frames from uploaded video or image files in the browser
+// and runs them through the detection backend and plate tracker
+// =============================================
+
+import type { DetectedPlate, DetectionBackend } from "@/lib/detection-backend"
+import { PlateTracker, type TrackedPlate } from "@/lib/plate-tracker"
+import type { FrameSize } from "@/lib/zones"
+
+export interface SampledFrame {
+  blob: Blob
+  size: FrameSize
+  // Wall-clock time of the frame (epoch ms)
+  time: number
+  // Seconds into the video, for seeking back to it
+  offset?: number
+  sourceFile: string
+  index: number
+  total: number
+}
+
+export interface TimelineEntry extends DetectedPlate {
+  captured_at: number
+  offset?: number
+  sourceFile: string
+  frameSize: FrameSize
+}
+
+export interface BatchProgress {
+  processed: number
+  total: number
+  plates: number
+}
+
+const IMAGE_TYPES = /\.(jpe?g|png|bmp|webp)$/i
+
+function toJpeg(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not encode frame"))), "image/jpeg", 0.9),
+  )
+}
+
+function once(target: EventTarget, event: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onError = () => {
+      target.removeEventListener(event, onEvent)
+      reject(new Error("The browser can't decode this file"))
+    }
+    const onEvent = () => {
+      target.removeEventListener("error", onError)
+      resolve()
+    }
+    target.addEventListener(event, onEvent, { once: true })
+    target.addEventListener("error", onError, { once: true })
+  })
+}
+
+/**
+ * Image files from a folder upload, in natural filename order (frame_2 before frame_10)
+ */
+export function sortImageFiles(files: File[]): File[] {
+  return files
+    .filter((file) => file.type.startsWith("image/") || IMAGE_TYPES.test(file.name))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }))
+}
+
+/**
+ * Grab one frame every intervalSeconds from a video file.
+ * startTime is the wall-clock time of the first frame.
+ */
+export async function* sampleVideo(
+  file: File,
+  intervalSeconds: number,
+  startTime: number,
+  signal?: AbortSignal,
+): AsyncGenerator<SampledFrame> {
+  const url = URL.createObjectURL(file)
+  const video = document.createElement("video")
+  video.muted = true
+  video.preload = "auto"
+
+  try {
+    const loaded = once(video, "loadedmetadata")
+    video.src = url
+    await loaded
+
+    const canvas = document.createElement("canvas")
+    canvas.width = video.videoWidth
+    canvas.height = video.videoHeight
+    const ctx = canvas.getContext("2d")
+    if (!ctx) throw new Error("Canvas is not available")
+
+    const total = Math.max(1, Math.floor(video.duration / intervalSeconds) + 1)
+    for (let index = 0; index < total; index++) {
+      if (signal?.aborted) return
+
+      const offset = Math.min(index * intervalSeconds, video.duration)
+      const seeked = once(video, "seeked")
+      video.currentTime = offset
+      await seeked
+
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height)
+      yield {
+        blob: await toJpeg(canvas),
+        size: { width: canvas.width, height: canvas.height },
+        time: startTime + offset * 1000,
+        offset,
+        sourceFile: file.name,
+        index,
+        total,
+      }
+    }
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+/**
+ * Decode each image (re-encoding to JPEG) with its file time as the frame time
+ */
+export async function* sampleImages(files: File[], signal?: AbortSignal): AsyncGenerator<SampledFrame> {
+  const images = sortImageFiles(files)
+  const canvas = document.createElement("canvas")
+  const ctx = canvas.getContext("2d")
+  if (!ctx) throw new Error("Canvas is not available")
+
+  for (const [index, file] of images.entries()) {
+    if (signal?.aborted) return
+
+    const bitmap = await createImageBitmap(file)
+    canvas.width = bitmap.width
+    canvas.height = bitmap.height
+    ctx.drawImage(bitmap, 0, 0)
+    bitmap.close()
+
+    yield {
+      blob: await toJpeg(canvas),
+      size: { width: canvas.width, height: canvas.height },
+      time: file.lastModified,
+      sourceFile: file.name,
+      index,
+      total: images.length,
+    }
+  }
+}
+
+/**
+ * Detect plates in every sampled frame and merge repeat reads into a timeline.
+ * The tracker's gap grows with the sampling interval so sparse samples
+ * of one car aren't split into several plates.
+ */
+export async function runBatchDetection(
+  frames: AsyncIterable<SampledFrame>,
+  backend: DetectionBackend,
+  intervalSeconds: number,
+  onProgress?: (progress: BatchProgress) => void,
+): Promise<TimelineEntry[]> {
+  const tracker = new PlateTracker({ maxGapMs: Math.max(2500, intervalSeconds * 1500) })
+  // Frame details by tracker time; the JPEG itself isn't kept
+  const framesByTime = new Map<number, Omit<SampledFrame, "blob">>()
+  const timeline: TimelineEntry[] = []
+
+  const collect = (plates: TrackedPlate[]) => {
+    for (const plate of plates) {
+      // Tracks start on a frame fed in below, so this only fails on a tracker bug
+      const frame = framesByTime.get(plate.captured_at)
+      if (!frame) throw new Error(`No sampled frame for ${plate.plate} at ${plate.captured_at}`)
+      timeline.push({
+        ...plate,
+        captured_at: frame.time,
+        offset: frame.offset,
+        sourceFile: frame.sourceFile,
+        frameSize: frame.size,
+      })
+    }
+  }
+
+  let lastTime = 0
+  for await (const frame of frames) {
+    // Image folders can share timestamps; keep times unique and increasing
+    const time = Math.max(frame.time, lastTime + 1)
+    lastTime = time
+    const { blob, ...details } = frame
+    framesByTime.set(time, details)
+
+    const reads = await backend.detect(blob)
+    collect(tracker.update(reads, time))
+    onProgress?.({ processed: frame.index + 1, total: frame.total, plates: timeline.length })
+  }
+
+  collect(tracker.flush())
+  return timeline.sort((a, b) => a.captured_at - b.captured_at)
+}
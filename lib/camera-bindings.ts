@@ -0,0 +1,42 @@
+// =============================================
+// CAMERA BINDINGS
+// Remembers which cameras row each browser video device feeds.
+// Device ids are only stable per browser, so bindings live in localStorage.
+// =============================================
+
+const STORAGE_KEY = "acdns.cameraBindings"
+
+type CameraBindings = Record<string, string>
+
+function readBindings(): CameraBindings {
+  if (typeof window === "undefined") return {}
+  try {
+    return JSON.parse(window.localStorage.getItem(STORAGE_KEY) || "{}")
+  } catch {
+    return {}
+  }
+}
+
+function writeBindings(bindings: CameraBindings) {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings))
+}
+
+/**
+ * The cameras.id bound to a browser device, if any
+ */
+export function getBoundCameraId(deviceId: string): string | undefined {
+  return readBindings()[deviceId]
+}
+
+/**
+ * Bind a browser device to a cameras row, or unbind it when cameraId is empty
+ */
+export function bindDevice(deviceId: string, cameraId?: string) {
+  const bindings = readBindings()
+  if (cameraId) {
+    bindings[deviceId] = cameraId
+  } else {
+    delete bindings[deviceId]
+  }
+  writeBindings(bindings)
+}
@@ -0,0 +1,35 @@
+// =============================================
+// CAMERA CREDENTIALS
+// AES-256-GCM for cameras.password_encrypted.
+// Server-only: the key comes from CAMERA_CREDENTIALS_KEY.
+// =============================================
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto"
+
+function getKey(): Buffer {
+  const secret = process.env.CAMERA_CREDENTIALS_KEY
+  if (!secret) throw new Error("CAMERA_CREDENTIALS_KEY is not set")
+  return createHash("sha256").update(secret).digest()
+}
+
+/**
+ * Encrypt a camera password as base64 "iv:tag:ciphertext"
+ */
+export function encryptCameraPassword(password: string): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv("aes-256-gcm", getKey(), iv)
+  const encrypted = Buffer.concat([cipher.update(password, "utf8"), cipher.final()])
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString("base64")).join(":")
+}
+
+/**
+ * Decrypt a value produced by encryptCameraPassword
+ */
+export function decryptCameraPassword(value: string): string {
+  const [iv, tag, encrypted] = value.split(":").map((part) => Buffer.from(part, "base64"))
+  if (!iv || !tag || !encrypted) throw new Error("Malformed camera password")
+
+  const decipher = createDecipheriv("aes-256-gcm", getKey(), iv)
+  decipher.setAuthTag(tag)
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8")
+}
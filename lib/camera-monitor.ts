@@ -0,0 +1,157 @@
+// =============================================
+// CAMERA MONITOR
+// Records camera heartbeats, marks silent cameras offline
+// and texts "system" subscribers when a camera drops
+// =============================================
+
+import { createServerClient } from "@/lib/supabase"
+import { getSetting } from "@/lib/system-settings"
+import { sendLoggedSms } from "@/lib/sms-log"
+import { renderTemplateMessage } from "@/lib/ai-sms-generator"
+import { getSubscribedRecipients } from "@/lib/sms-recipients"
+import { logActivity } from "@/lib/activity-log"
+import type { Camera } from "@/types/database"
+
+// A camera is offline once this many heartbeat intervals pass without one
+const MISSED_HEARTBEATS = 3
+
+export type HeartbeatHealth = "online" | "error"
+
+export interface CameraTransition {
+  camera: Pick<Camera, "id" | "name" | "location">
+  from: Camera["status"]
+  to: Camera["status"]
+}
+
+/**
+ * Seconds between heartbeats (camera_heartbeat_interval)
+ */
+export async function getHeartbeatIntervalSeconds(): Promise<number> {
+  return Number(await getSetting("camera_heartbeat_interval", 30))
+}
+
+/**
+ * Text "system" subscribers that a camera went offline or errored.
+ * The client's error text stays in activity_logs and is never put in the SMS.
+ */
+async function notifyCameraDown(transition: CameraTransition): Promise<void> {
+  try {
+    const recipients = await getSubscribedRecipients("system")
+    if (recipients.length === 0) return
+
+    let message = renderTemplateMessage("system", "urgent", {
+      cameraName: transition.camera.name,
+      cameraLocation: transition.camera.location,
+    })
+    if (transition.to === "error") message += " The camera reported an error; details are in the activity log."
+
+    await sendLoggedSms(
+      recipients.map((r) => ({ phone: r.phone, recipientId: r.id })),
+      message,
+      { messageType: "system", deliveryStatus: { camera_id: transition.camera.id, camera_status: transition.to } },
+    )
+  } catch (error) {
+    console.error(`Camera alert failed for ${transition.camera.name}:`, error)
+  }
+}
+
+/**
+ * Move a camera from one status to another. The update only applies while the
+ * row still has the old status, so concurrent monitors report a drop once.
+ */
+async function transitionCamera(
+  camera: Pick<Camera, "id" | "name" | "location">,
+  from: Camera["status"],
+  to: Camera["status"],
+  reason?: string,
+  heartbeatAt?: string,
+): Promise<CameraTransition | null> {
+  const { data, error } = await createServerClient()
+    .from("cameras")
+    .update({ status: to, ...(heartbeatAt && { last_heartbeat: heartbeatAt }) })
+    .eq("id", camera.id)
+    .eq("status", from)
+    .select("id")
+
+  if (error) throw error
+  if (!data?.length) return null
+
+  const transition = { camera, from, to }
+  await logActivity({
+    action: `camera_${to}`,
+    resource_type: "camera",
+    resource_id: camera.id,
+    details: { from, to, reason },
+  })
+
+  // error -> offline is the same outage, so it isn't announced twice
+  if (to === "error" || (to === "offline" && from === "online")) await notifyCameraDown(transition)
+  return transition
+}
+
+/**
+ * Record a heartbeat from a camera client. Cameras under maintenance keep their status.
+ */
+export async function recordHeartbeat(
+  cameraId: string,
+  health: HeartbeatHealth = "online",
+  reason?: string,
+): Promise<CameraTransition | null> {
+  const supabase = createServerClient()
+  const { data: camera, error } = await supabase
+    .from("cameras")
+    .select("id, name, location, status")
+    .eq("id", cameraId)
+    .single()
+
+  if (error) throw error
+
+  const heartbeatAt = new Date().toISOString()
+  if (camera.status === "maintenance" || camera.status === health) {
+    const { error: updateError } = await supabase
+      .from("cameras")
+      .update({ last_heartbeat: heartbeatAt })
+      .eq("id", cameraId)
+    if (updateError) throw updateError
+    return null
+  }
+
+  return transitionCamera(camera, camera.status, health, reason, heartbeatAt)
+}
+
+let lastHealthCheck = 0
+
+/**
+ * Run checkCameraHealth at most once per heartbeat interval in this process.
+ * Heartbeats call this so live cameras keep the monitor going without a cron job.
+ */
+export async function checkCameraHealthThrottled(): Promise<CameraTransition[]> {
+  const intervalSeconds = await getHeartbeatIntervalSeconds()
+  if (Date.now() - lastHealthCheck < intervalSeconds * 1000) return []
+  return checkCameraHealth()
+}
+
+/**
+ * Mark active cameras offline once they miss MISSED_HEARTBEATS heartbeats
+ */
+export async function checkCameraHealth(now: Date = new Date()): Promise<CameraTransition[]> {
+  lastHealthCheck = now.getTime()
+  const intervalSeconds = await getHeartbeatIntervalSeconds()
+  const cutoff = new Date(now.getTime() - intervalSeconds * MISSED_HEARTBEATS * 1000).toISOString()
+
+  const { data, error } = await createServerClient()
+    .from("cameras")
+    .select("id, name, location, status")
+    .eq("is_active", true)
+    .in("status", ["online", "error"])
+    .or(`last_heartbeat.is.null,last_heartbeat.lt.${cutoff}`)
+
+  if (error) throw error
+
+  const transitions: CameraTransition[] = []
+  for (const camera of data || []) {
+    const transition = await transitionCamera(camera, camera.status, "offline", "missed heartbeats")
+    if (transition) transitions.push(transition)
+  }
+  return transitions
+}
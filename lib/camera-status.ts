@@ -0,0 +1,36 @@
+// =============================================
+// CAMERA STATUS
+// Live camera status for the dashboard, read with the browser client
+// =============================================
+
+import { supabase } from "@/lib/supabase"
+import type { CameraStatus } from "@/types/database"
+
+/**
+ * Every camera with its live status and detections in the last hour
+ */
+export async function getCameraStatuses(client = supabase): Promise<CameraStatus[]> {
+  const since = new Date(Date.now() - 60 * 60 * 1000).toISOString()
+
+  const { data: cameras, error } = await client.from("cameras").select("*").order("name")
+  if (error) throw error
+
+  // Counted per camera by the database; fetching rows would stop at the API's row limit
+  return Promise.all(
+    (cameras || []).map(async (camera) => {
+      const { count, error } = await client
+        .from("detections")
+        .select("id", { count: "exact", head: true })
+        .eq("camera_id", camera.id)
+        .gte("detection_timestamp", since)
+      if (error) throw error
+
+      return {
+        camera,
+        isOnline: camera.status === "online",
+        lastHeartbeat: camera.last_heartbeat,
+        activeDetections: count ?? 0,
+      }
+    }),
+  )
+}
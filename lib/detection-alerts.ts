@@ -0,0 +1,139 @@
+// =============================================
+// DETECTION ALERTS
+// Decides whether a detection notifies anyone and sends it.
+// Runs on the server so every tab and worker shares one cooldown.
+// =============================================
+
+import { createServerClient } from "@/lib/supabase"
+import { getSetting } from "@/lib/system-settings"
+import { detectionAlertMessage } from "@/lib/sms-service"
+import { sendLoggedSms } from "@/lib/sms-log"
+import { getSubscribedRecipients } from "@/lib/sms-recipients"
+import type { PlateFlag } from "@/lib/watchlist"
+import type { Camera, Vehicle } from "@/types/database"
+
+// held: below the confidence threshold, waiting for human review
+export type AlertOutcome = "sent" | "suppressed" | "skipped" | "failed" | "held"
+
+// High-priority flags (stolen, blocked...) ask for an immediate response
+const ALERT_WORDING: Record<PlateFlag["priority"], { prefix: string; action: string }> = {
+  high: { prefix: "🚨 PRIORITY ALERT", action: "Respond immediately." },
+  normal: { prefix: "⚠️ ALERT", action: "Please check when you can." },
+}
+
+/**
+ * Claim the alert slot for a plate at a camera.
+ * Returns false while the previous alert is still inside the cooldown
+ * (plate_realert_cooldown_minutes unless the caller overrides it).
+ */
+export async function claimPlateAlert(
+  cameraId: string,
+  licensePlate: string,
+  cooldownOverride?: number | null,
+): Promise<boolean> {
+  const cooldownMinutes = Number(cooldownOverride ?? (await getSetting("plate_realert_cooldown_minutes", 10)))
+  const supabase = createServerClient()
+
+  const { data, error } = await supabase.rpc("claim_plate_alert", {
+    p_camera_id: cameraId,
+    p_license_plate: licensePlate,
+    p_cooldown_seconds: Math.max(0, Math.round(cooldownMinutes * 60)),
+  })
+
+  if (error) throw error
+  return data === true
+}
+
+/**
+ * Text the registered owner about a sighting, respecting the re-alert cooldown
+ */
+export async function alertVehicleOwner(
+  camera: Pick<Camera, "id" | "location">,
+  licensePlate: string,
+  vehicle: Vehicle | null,
+  confidenceScore: number,
+  detectionId?: string,
+): Promise<AlertOutcome> {
+  if (!vehicle?.owner_phone) return "skipped"
+
+  try {
+    if (!(await claimPlateAlert(camera.id, licensePlate))) return "suppressed"
+
+    const result = await sendLoggedSms(
+      [{ phone: vehicle.owner_phone }],
+      detectionAlertMessage(licensePlate, camera.location, confidenceScore * 100),
+      {
+        messageType: "detection",
+        relatedDetectionId: detectionId,
+        relatedVehicleId: vehicle.id,
+        deliveryStatus: { camera_id: camera.id },
+      },
+    )
+    return result.success > 0 ? "sent" : "failed"
+  } catch (error) {
+    console.error(`Detection alert failed for ${licensePlate}:`, error)
+    return "failed"
+  }
+}
+
+/**
+ * Send an alert about a flagged plate to security recipients (never the owner),
+ * worded by the flag's priority
+ */
+export async function alertSecurity(
+  camera: Pick<Camera, "id" | "location">,
+  licensePlate: string,
+  vehicle: Vehicle | null,
+  flag: PlateFlag,
+  detectionId?: string,
+): Promise<AlertOutcome> {
+  try {
+    const recipients = await getSubscribedRecipients("alert", flag.recipientIds)
+    if (recipients.length === 0) return "skipped"
+    if (!(await claimPlateAlert(camera.id, licensePlate, flag.cooldownMinutes))) return "suppressed"
+
+    const wording = ALERT_WORDING[flag.priority]
+    const message = `${wording.prefix}: ${licensePlate} (${flag.label}) detected at ${
+      camera.location
+    }. Time: ${new Date().toLocaleString()}. ${wording.action}`
+    const result = await sendLoggedSms(
+      recipients.map((r) => ({ phone: r.phone, recipientId: r.id })),
+      message,
+      {
+        messageType: "alert",
+        relatedDetectionId: detectionId,
+        relatedVehicleId: vehicle?.id,
+        deliveryStatus: {
+          priority: flag.priority,
+          source: flag.source,
+          reason: flag.reason,
+          watchlist_id: flag.watchlistId,
+          zone_id: flag.zoneId,
+          camera_id: camera.id,
+        },
+      },
+    )
+
+    return result.success > 0 ? "sent" : "failed"
+  } catch (error) {
+    console.error(`Security alert failed for ${licensePlate}:`, error)
+    return "failed"
+  }
+}
+
+/**
+ * Route a sighting to security when the plate is flagged, otherwise to the owner.
+ * The SMS is logged against detectionId.
+ */
+export async function dispatchDetectionAlert(
+  camera: Pick<Camera, "id" | "location">,
+  licensePlate: string,
+  vehicle: Vehicle | null,
+  flag: PlateFlag | null,
+  confidenceScore: number,
+  detectionId?: string,
+): Promise<AlertOutcome> {
+  return flag
+    ? alertSecurity(camera, licensePlate, vehicle, flag, detectionId)
+    : alertVehicleOwner(camera, licensePlate, vehicle, confidenceScore, detectionId)
+}
@@ -0,0 +1,55 @@
+// =============================================
+// DETECTION BACKEND CONFIG
+// Server-side backend configuration from the environment and
+// system_settings; browser pages use the proxy config instead
+// =============================================
+
+import { getSetting } from "@/lib/system-settings"
+import {
+  createDetectionBackend,
+  DEFAULT_BACKEND_CONFIG,
+  type DetectionBackend,
+  type DetectionBackendConfig,
+} from "@/lib/detection-backend"
+
+/**
+ * Resolve the backend configuration on the server.
+ * Environment variables win over system_settings, which win over defaults.
+ */
+export async function loadDetectionBackendConfig(): Promise<DetectionBackendConfig> {
+  const env = process.env
+  const url = env.DETECTION_BACKEND_URL || (await getSetting("detection_backend_url", DEFAULT_BACKEND_CONFIG.url))
+  const timeout = env.DETECTION_BACKEND_TIMEOUT_MS || (await getSetting("detection_backend_timeout_ms", DEFAULT_BACKEND_CONFIG.timeoutMs))
+
+  return {
+    kind: url === "mock" ? "mock" : "http",
+    url: url.replace(/\/+$/, ""),
+    detectPath:
+      env.DETECTION_BACKEND_DETECT_PATH ||
+      (await getSetting("detection_backend_detect_path", DEFAULT_BACKEND_CONFIG.detectPath)),
+    healthPath:
+      env.DETECTION_BACKEND_HEALTH_PATH ||
+      (await getSetting("detection_backend_health_path", DEFAULT_BACKEND_CONFIG.healthPath)),
+    timeoutMs: Number(timeout) || DEFAULT_BACKEND_CONFIG.timeoutMs,
+    authHeader:
+      env.DETECTION_BACKEND_AUTH_HEADER ||
+      (await getSetting("detection_backend_auth_header", DEFAULT_BACKEND_CONFIG.authHeader)),
+    authToken: env.DETECTION_BACKEND_TOKEN,
+  }
+}
+
+let activeBackend: { key: string; backend: DetectionBackend } | null = null
+
+/**
+ * Server-side backend built from the current configuration.
+ * The instance is reused until the configuration changes.
+ */
+export async function getDetectionBackend(): Promise<DetectionBackend> {
+  const config = await loadDetectionBackendConfig()
+  const key = JSON.stringify(config)
+
+  if (!activeBackend || activeBackend.key !== key) {
+    activeBackend = { key, backend: createDetectionBackend(config) }
+  }
+  return activeBackend.backend
+}
@@ -0,0 +1,144 @@
+// =============================================
+// DETECTION BACKEND CLIENT
+// Talks to the ANPR inference server (or a local mock)
+// =============================================
+
+import type { BoundingBox } from "@/types/database"
+
+export interface DetectedPlate {
+  plate: string
+  ocr_conf?: number
+  bbox?: BoundingBox | number[]
+  // Base64 JPEGs or URLs; frame is the whole image the plate was read from
+  images?: { raw_crop?: string; processed_crop?: string; frame?: string }
+  // Set by PlateTracker when several frame reads were merged into one plate
+  captured_at?: number
+  consensus?: { reads: number; candidates: string[] }
+}
+
+export interface DetectionBackendConfig {
+  kind: "http" | "mock"
+  url: string
+  detectPath: string
+  healthPath: string
+  timeoutMs: number
+  authHeader?: string
+  authToken?: string
+}
+
+export interface DetectionBackend {
+  name: string
+  detect: (frame: Blob) => Promise<DetectedPlate[]>
+  checkHealth: () => Promise<boolean>
+}
+
+export const DEFAULT_BACKEND_CONFIG: DetectionBackendConfig = {
+  kind: "http",
+  url: "https://georgefemiwise-acdns.hf.space",
+  detectPath: "/detect",
+  healthPath: "/refresh_cache",
+  timeoutMs: 15000,
+  authHeader: "Authorization",
+}
+
+// Browser code goes through our own API route so credentials stay on the server
+export const DETECTION_PROXY_CONFIG: DetectionBackendConfig = {
+  kind: "http",
+  url: "",
+  detectPath: "/api/detect",
+  healthPath: "/api/detect",
+  timeoutMs: 20000,
+}
+
+// HTTP backend (Hugging Face Space or self-hosted inference server)
+export class HttpDetectionBackend implements DetectionBackend {
+  name = "HTTP"
+
+  constructor(private config: DetectionBackendConfig) {}
+
+  private headers(): Record<string, string> {
+    const { authHeader, authToken } = this.config
+    if (!authHeader || !authToken) return {}
+    return {
+      [authHeader]: authHeader.toLowerCase() === "authorization" ? `Bearer ${authToken}` : authToken,
+    }
+  }
+
+  private async request(path: string, init: RequestInit): Promise<Response> {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), this.config.timeoutMs)
+
+    try {
+      return await fetch(`${this.config.url}${path}`, {
+        ...init,
+        headers: { ...this.headers(), ...(init.headers as Record<string, string>) },
+        signal: controller.signal,
+      })
+    } catch (error) {
+      if (error instanceof Error && error.name === "AbortError") {
+        throw new Error(`Detection backend timed out after ${this.config.timeoutMs}ms`)
+      }
+      throw error
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  async detect(frame: Blob): Promise<DetectedPlate[]> {
+    const formData = new FormData()
+    formData.append("file", frame, "frame.jpg")
+
+    const response = await this.request(this.config.detectPath, { method: "POST", body: formData })
+    if (!response.ok) {
+      throw new Error(`Detection backend error: ${response.status} ${response.statusText}`)
+    }
+
+    const result = await response.json()
+    return Array.isArray(result?.detections) ? result.detections : []
+  }
+
+  async checkHealth(): Promise<boolean> {
+    try {
+      const response = await this.request(this.config.healthPath, { method: "GET" })
+      return response.ok
+    } catch {
+      return false
+    }
+  }
+}
+
+// Canned plates for exercising the pipeline offline
+const MOCK_PLATES = ["GR 1234-20", "GT 5678-21", "AS 9012-19", "GW 3456-22"]
+
+export class MockDetectionBackend implements DetectionBackend {
+  name = "Mock"
+  private frame = 0
+
+  async detect(_frame: Blob): Promise<DetectedPlate[]> {
+    this.frame++
+
+    // Roughly one plate every few frames, cycling through the canned list
+    if (this.frame % 3 !== 0) return []
+
+    const plate = MOCK_PLATES[(this.frame / 3) % MOCK_PLATES.length]
+    return [
+      {
+        plate,
+        ocr_conf: 0.8 + Math.random() * 0.19,
+        bbox: { x: 220, y: 300, width: 200, height: 60 },
+        images: {},
+      },
+    ]
+  }
+
+  async checkHealth(): Promise<boolean> {
+    return true
+  }
+}
+
+/**
+ * Build a backend client for the given configuration
+ */
+export function createDetectionBackend(config: DetectionBackendConfig): DetectionBackend {
+  return config.kind === "mock" ? new MockDetectionBackend() : new HttpDetectionBackend(config)
+}
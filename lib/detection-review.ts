@@ -0,0 +1,127 @@
+// =============================================
+// DETECTION REVIEW
+// Operator confirm / correct / reject decisions on detections
+// =============================================
+
+import { createServerClient } from "@/lib/supabase"
+import { findVehicleByPlate, trackPresence } from "@/lib/detections"
+import { normalizePlate } from "@/lib/plate-format"
+import { dispatchDetectionAlert, type AlertOutcome } from "@/lib/detection-alerts"
+import { getPlateFlag } from "@/lib/watchlist"
+import { logActivity } from "@/lib/activity-log"
+import type { Detection, DetectionUpdate, Vehicle } from "@/types/database"
+
+export type ReviewDecision = "confirm" | "correct" | "reject"
+
+const DECISION_STATUS = {
+  confirm: "confirmed",
+  correct: "corrected",
+  reject: "rejected",
+} as const
+
+/**
+ * Apply an operator's decision to a detection and record it in activity_logs.
+ * Confirming or correcting a read that was held for review releases its alert.
+ */
+export async function reviewDetection(
+  detectionId: string,
+  decision: ReviewDecision,
+  reviewerId: string,
+  correctedPlate?: string,
+): Promise<Detection> {
+  const supabase = createServerClient()
+
+  const { data: detection, error: fetchError } = await supabase
+    .from("detections")
+    .select("*, cameras(id, location)")
+    .eq("id", detectionId)
+    .single()
+
+  if (fetchError) throw fetchError
+
+  const previous = {
+    license_plate: detection.license_plate,
+    vehicle_id: detection.vehicle_id ?? null,
+    review_status: detection.review_status,
+  }
+
+  const update: DetectionUpdate = {
+    review_status: DECISION_STATUS[decision],
+    is_verified: decision !== "reject",
+    verified_by: reviewerId,
+    verified_at: new Date().toISOString(),
+  }
+
+  let plate = detection.license_plate
+  let vehicle: Vehicle | null = null
+
+  if (decision === "correct") {
+    if (!correctedPlate?.trim()) throw new Error("A corrected plate is required")
+
+    plate = normalizePlate(correctedPlate)
+    vehicle = await findVehicleByPlate(plate)
+    update.license_plate = plate
+    update.vehicle_id = vehicle?.id ?? null
+  } else if (decision === "confirm" && detection.vehicle_id) {
+    vehicle = await findVehicleByPlate(plate)
+  }
+
+  // Releasing a held live read alerts and counts towards visits; imported footage does neither
+  const release =
+    decision !== "reject" && previous.review_status === "needs_review" && !detection.additional_data?.historical
+
+  update.additional_data = {
+    ...detection.additional_data,
+    ...(decision === "correct" && { original_plate: previous.license_plate }),
+  }
+
+  // Only applies if nobody reviewed the read since it was loaded, so two
+  // operators deciding at once can't both alert and count the visit
+  const { data: updated, error: updateError } = await supabase
+    .from("detections")
+    .update(update)
+    .eq("id", detectionId)
+    .eq("review_status", previous.review_status)
+    .select()
+    .maybeSingle()
+
+  if (updateError) throw updateError
+  if (!updated) throw new Error("This detection has already been reviewed")
+
+  let alert: AlertOutcome | undefined
+  if (release && detection.cameras) {
+    // Zone flags depend on where the plate was, which a correction doesn't change
+    const stored = detection.additional_data?.flag
+    const flag =
+      (await getPlateFlag(plate, vehicle)) ??
+      (stored?.source === "zone"
+        ? { source: "zone" as const, reason: stored.reason, label: stored.label, priority: stored.priority, zoneId: stored.zone_id }
+        : null)
+    alert = await dispatchDetectionAlert(detection.cameras, plate, vehicle, flag, detection.confidence_score, detectionId)
+
+    updated.additional_data = { ...updated.additional_data, alert }
+    const { error: alertError } = await supabase
+      .from("detections")
+      .update({ additional_data: updated.additional_data })
+      .eq("id", detectionId)
+    if (alertError) console.error(`Failed to note the alert for ${plate}:`, alertError)
+  }
+
+  if (release) await trackPresence(updated)
+
+  await logActivity({
+    user_id: reviewerId,
+    action: `detection_${DECISION_STATUS[decision]}`,
+    resource_type: "detection",
+    resource_id: detectionId,
+    details: {
+      previous,
+      license_plate: updated.license_plate,
+      vehicle_id: updated.vehicle_id ?? null,
+      confidence_score: updated.confidence_score,
+      alert,
+    },
+  })
+
+  return updated
+}
@@ -0,0 +1,67 @@
+// =============================================
+// DETECTION SEARCH
+// Paged detection queries for the detections and review pages
+// =============================================
+
+import { supabase } from "@/lib/supabase"
+import { normalizePlate } from "@/lib/plate-format"
+import type { DetectionReviewStatus, DetectionWithRelations, PaginatedResponse } from "@/types/database"
+
+export interface DetectionFilters {
+  plate?: string
+  cameraId?: string
+  from?: string
+  to?: string
+  minConfidence?: number
+  maxConfidence?: number
+  verified?: "all" | "verified" | "unverified"
+  match?: "all" | "matched" | "unknown"
+  // One status, or any of several
+  review?: DetectionReviewStatus | DetectionReviewStatus[]
+}
+
+// LIKE wildcards typed into a search are matched literally
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, "\\$&")
+
+export const DETECTION_SELECT = "*, cameras(id, name, location), vehicles(id, license_plate, owner_name, owner_phone, status)"
+
+/**
+ * Query detections with cameras and vehicles joined, paged by the database
+ */
+export async function searchDetections(
+  filters: DetectionFilters,
+  page = 1,
+  limit = 25,
+  client = supabase,
+): Promise<PaginatedResponse<DetectionWithRelations>> {
+  const from = (page - 1) * limit
+  let query = client.from("detections").select(DETECTION_SELECT, { count: "exact" })
+
+  if (filters.plate?.trim()) query = query.ilike("license_plate", `%${escapeLike(normalizePlate(filters.plate))}%`)
+  if (filters.cameraId) query = query.eq("camera_id", filters.cameraId)
+  if (filters.from) query = query.gte("detection_timestamp", new Date(filters.from).toISOString())
+  if (filters.to) query = query.lte("detection_timestamp", new Date(filters.to).toISOString())
+  if (filters.minConfidence !== undefined) query = query.gte("confidence_score", filters.minConfidence)
+  if (filters.maxConfidence !== undefined) query = query.lte("confidence_score", filters.maxConfidence)
+  if (filters.verified === "verified") query = query.eq("is_verified", true)
+  if (filters.verified === "unverified") query = query.eq("is_verified", false)
+  if (filters.match === "matched") query = query.not("vehicle_id", "is", null)
+  if (filters.match === "unknown") query = query.is("vehicle_id", null)
+  if (Array.isArray(filters.review)) query = query.in("review_status", filters.review)
+  else if (filters.review) query = query.eq("review_status", filters.review)
+
+  const { data, error, count } = await query
+    .order("detection_timestamp", { ascending: false })
+    .range(from, from + limit - 1)
+
+  if (error) throw error
+
+  const total = count ?? 0
+  return {
+    data: data ?? [],
+    count: total,
+    page,
+    limit,
+    totalPages: Math.max(1, Math.ceil(total / limit)),
+  }
+}
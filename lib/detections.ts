@@ -0,0 +1,293 @@
+// =============================================
+// DETECTIONS
+// Persists plates returned by the detection backend
+// into the detections table
+// =============================================
+
+import { createServerClient } from "@/lib/supabase"
+import type { DetectedPlate } from "@/lib/detection-backend"
+import { normalizePlate, plateKey, toBoundingBox, toConfidenceScore } from "@/lib/plate-format"
+import { dispatchDetectionAlert, type AlertOutcome } from "@/lib/detection-alerts"
+import { getPlateFlag, type PlateFlag } from "@/lib/watchlist"
+import { getSetting } from "@/lib/system-settings"
+import { logActivity } from "@/lib/activity-log"
+import { getCameraZones, matchZones, restrictedZoneFlag, type FrameSize } from "@/lib/zones"
+import { recordVisitEvent } from "@/lib/visits"
+import { recordParkingEvent } from "@/lib/parking"
+import { removeDetectionImages, storeDetectionImages } from "@/lib/image-storage"
+import type { Camera, CameraZone, Detection, DetectionInsert, Vehicle } from "@/types/database"
+
+export interface RecordedDetection {
+  detection: Detection
+  vehicle: Vehicle | null
+  flag: PlateFlag | null
+  alert: AlertOutcome
+}
+
+export interface RecordResult {
+  recorded: RecordedDetection[]
+  // Plates that couldn't be saved, for the caller to retry
+  failed: DetectedPlate[]
+}
+
+export interface RecordOptions {
+  // Imported footage: recorded for the record only, without alerts or visit / parking tracking
+  historical?: boolean
+  // Merged into additional_data, e.g. the file a detection was imported from
+  metadata?: Record<string, any>
+}
+
+const CLEANUP_BATCH_SIZE = 500
+const CLEANUP_INTERVAL_MS = 6 * 60 * 60 * 1000
+
+/**
+ * Use the given camera, the DEFAULT_CAMERA_ID env var, or the first active camera
+ */
+export async function resolveCamera(
+  cameraId?: string,
+): Promise<Pick<Camera, "id" | "name" | "location" | "confidence_threshold">> {
+  const supabase = createServerClient()
+  let query = supabase.from("cameras").select("id, name, location, confidence_threshold")
+  const id = cameraId || process.env.DEFAULT_CAMERA_ID
+
+  if (id) {
+    query = query.eq("id", id)
+  } else {
+    query = query.eq("is_active", true).order("created_at", { ascending: true })
+  }
+
+  const { data, error } = await query.limit(1).maybeSingle()
+
+  if (error) throw error
+  if (!data) throw new Error("No active camera registered. Add a row to the cameras table first.")
+  return data
+}
+
+/**
+ * Minimum confidence for a read to be accepted without review.
+ * A camera's own threshold (e.g. a poorly lit gate) overrides the system setting.
+ */
+export async function getConfidenceThreshold(camera: Pick<Camera, "confidence_threshold">): Promise<number> {
+  if (camera.confidence_threshold !== undefined && camera.confidence_threshold !== null) {
+    return Number(camera.confidence_threshold)
+  }
+  return Number(await getSetting("detection_confidence_threshold", 0.75))
+}
+
+/**
+ * Look up the registered vehicle for a plate, ignoring spaces and hyphens
+ */
+export async function findVehicleByPlate(plate: string): Promise<Vehicle | null> {
+  const supabase = createServerClient()
+  const { data, error } = await supabase
+    .from("vehicles")
+    .select("*")
+    .eq("plate_key", plateKey(plate))
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+/**
+ * Feed a saved detection into visit and parking tracking.
+ * The detection is already stored, so tracking failures are only logged.
+ */
+export async function trackPresence(detection: Detection): Promise<void> {
+  try {
+    await recordVisitEvent(detection)
+  } catch (error) {
+    console.error(`Visit tracking failed for ${detection.license_plate}:`, error)
+  }
+
+  try {
+    await recordParkingEvent(detection)
+  } catch (error) {
+    console.error(`Parking tracking failed for ${detection.license_plate}:`, error)
+  }
+}
+
+/**
+ * Record every plate from one frame as a detections row.
+ * Plates outside the camera's detection zones are dropped; frame is the
+ * size the bounding boxes were measured against. A plate that can't be
+ * saved is returned in failed so the caller can retry just that one.
+ */
+export async function recordDetections(
+  plates: DetectedPlate[],
+  cameraId?: string,
+  capturedAt: Date = new Date(),
+  frame?: FrameSize,
+  options: RecordOptions = {},
+): Promise<RecordResult> {
+  const camera = await resolveCamera(cameraId)
+  const threshold = await getConfidenceThreshold(camera)
+  const zones = await getCameraZones(camera.id)
+  const result: RecordResult = { recorded: [], failed: [] }
+
+  for (const det of plates) {
+    if (!det.plate) continue
+
+    try {
+      const recorded = await recordDetection(det, camera, threshold, zones, capturedAt, frame, options)
+      if (recorded) result.recorded.push(recorded)
+    } catch (error) {
+      console.error(`Recording detection of ${det.plate} failed:`, error)
+      result.failed.push(det)
+    }
+  }
+
+  return result
+}
+
+/**
+ * Save one plate, then alert about it. Returns null when its zone is ignored.
+ */
+async function recordDetection(
+  det: DetectedPlate,
+  camera: Pick<Camera, "id" | "location">,
+  threshold: number,
+  zones: CameraZone[],
+  capturedAt: Date,
+  frame: FrameSize | undefined,
+  options: RecordOptions,
+): Promise<RecordedDetection | null> {
+  const supabase = createServerClient()
+
+  const bbox = toBoundingBox(det.bbox)
+  const zoneMatch = matchZones(zones, bbox, frame)
+  if (zoneMatch.ignored) return null
+
+  const licensePlate = normalizePlate(det.plate)
+  const vehicle = await findVehicleByPlate(licensePlate)
+  // A flagged plate outranks the zone it was seen in
+  const flag =
+    (await getPlateFlag(licensePlate, vehicle)) ??
+    (zoneMatch.alerting.length ? restrictedZoneFlag(zoneMatch.alerting[0]) : null)
+  const confidenceScore = toConfidenceScore(det.ocr_conf)
+  const needsReview = confidenceScore < threshold
+
+  const detectedAt = det.captured_at ? new Date(det.captured_at) : capturedAt
+  const stored = await storeDetectionImages(det.images, camera.id, detectedAt)
+
+  const additionalData: Record<string, any> = {
+    ...options.metadata,
+    ...(options.historical && { historical: true }),
+    raw_plate: det.plate,
+    consensus: det.consensus,
+    flag: flag && {
+      source: flag.source,
+      reason: flag.reason,
+      label: flag.label,
+      priority: flag.priority,
+      watchlist_id: flag.watchlistId,
+      zone_id: flag.zoneId,
+    },
+    zones: zoneMatch.zones.map((zone) => ({ id: zone.id, name: zone.zone_name, type: zone.zone_type })),
+    images: stored.images,
+    image_keys: stored.keys,
+  }
+
+  const row: DetectionInsert = {
+    camera_id: camera.id,
+    vehicle_id: vehicle?.id,
+    license_plate: licensePlate,
+    confidence_score: confidenceScore,
+    detection_timestamp: detectedAt.toISOString(),
+    bounding_box: bbox,
+    image_url: stored.image_url,
+    review_status: needsReview ? "needs_review" : "accepted",
+    additional_data: additionalData,
+  }
+
+  const { data, error } = await supabase.from("detections").insert(row).select().single()
+  if (error) {
+    await removeDetectionImages(stored.keys).catch(() => {})
+    throw error
+  }
+
+  // Low-confidence reads wait for an operator instead of alerting anyone.
+  // Flagged plates alert security; everything else texts the owner.
+  // Repeat sightings inside the cooldown are still recorded, just not alerted.
+  // Imported footage is in the past, so nobody is alerted about it.
+  const alert: AlertOutcome = options.historical
+    ? "skipped"
+    : needsReview
+      ? "held"
+      : await dispatchDetectionAlert(camera, licensePlate, vehicle, flag, confidenceScore, data.id)
+
+  // The row is saved either way; only the note of how alerting went can be lost
+  const detection: Detection = { ...data, additional_data: { ...additionalData, alert } }
+  const { error: alertError } = await supabase
+    .from("detections")
+    .update({ additional_data: detection.additional_data })
+    .eq("id", data.id)
+  if (alertError) console.error(`Failed to note the alert for ${licensePlate}:`, alertError)
+
+  if (!options.historical) await trackPresence(detection)
+
+  return { detection, vehicle, flag, alert }
+}
+
+let lastCleanup = 0
+
+/**
+ * Run cleanupExpiredDetections at most every six hours in this process
+ */
+export async function cleanupExpiredDetectionsThrottled(): Promise<number> {
+  if (Date.now() - lastCleanup < CLEANUP_INTERVAL_MS) return 0
+  return cleanupExpiredDetections()
+}
+
+/**
+ * Delete detections older than auto_cleanup_detections_days together
+ * with their stored images. A value of 0 keeps detections forever.
+ */
+export async function cleanupExpiredDetections(now: Date = new Date()): Promise<number> {
+  lastCleanup = now.getTime()
+  const days = Number(await getSetting("auto_cleanup_detections_days", 90))
+  if (!(days > 0)) return 0
+
+  const supabase = createServerClient()
+  const cutoff = new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString()
+  let deleted = 0
+
+  for (;;) {
+    const { data, error } = await supabase
+      .from("detections")
+      .select("id, additional_data")
+      .lt("detection_timestamp", cutoff)
+      .limit(CLEANUP_BATCH_SIZE)
+
+    if (error) throw error
+    if (!data?.length) break
+
+    const ids = data.map((row) => row.id)
+    // Files go first: a row that survives a failure is retried next run, an orphaned file never is
+    await removeDetectionImages(data.flatMap((row) => row.additional_data?.image_keys ?? []))
+
+    // Older databases lack ON DELETE SET NULL on sms_messages.related_detection_id
+    const { error: smsError } = await supabase
+      .from("sms_messages")
+      .update({ related_detection_id: null })
+      .in("related_detection_id", ids)
+    if (smsError) throw smsError
+
+    const { error: deleteError } = await supabase.from("detections").delete().in("id", ids)
+    if (deleteError) throw deleteError
+
+    deleted += ids.length
+    if (data.length < CLEANUP_BATCH_SIZE) break
+  }
+
+  if (deleted) {
+    await logActivity({
+      action: "detections_cleanup",
+      resource_type: "detection",
+      details: { deleted, older_than: cutoff, retention_days: days },
+    })
+  }
+
+  return deleted
+}
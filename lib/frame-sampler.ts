@@ -0,0 +1,225 @@
+// =============================================
+// FRAME SAMPLER
+// Capture loop for the browser camera page: waits for each detection
+// request before taking the next frame, skips frames with no motion,
+// and downscales / compresses what it sends
+// =============================================
+
+import type { FrameSize } from "@/lib/zones"
+
+export interface SamplerConfig {
+  // Never send frames closer together than this
+  minIntervalMs: number
+  // Frames wider than this are scaled down (0 keeps full resolution)
+  maxWidth: number
+  jpegQuality: number
+  // Mean pixel change (0-1) below which a frame counts as static; 0 sends everything
+  motionThreshold: number
+  // Send a frame this often even when nothing moves, so parked cars are still read
+  keepaliveMs: number
+}
+
+export interface SamplerStats {
+  // Frames sent per second over the last few seconds
+  fps: number
+  // Round trip of the last request and a running average
+  latencyMs: number
+  avgLatencyMs: number
+  sent: number
+  skipped: number
+  motion: number
+}
+
+export type FrameHandler = (frame: Blob, size: FrameSize, capturedAt: number) => Promise<void>
+
+const STORAGE_KEY = "acdns.samplerConfig"
+const FPS_WINDOW_MS = 5000
+const MOTION_GRID_WIDTH = 32
+const MOTION_GRID_HEIGHT = 24
+
+export const DEFAULT_SAMPLER_CONFIG: SamplerConfig = {
+  minIntervalMs: 250,
+  maxWidth: 960,
+  jpegQuality: 0.8,
+  motionThreshold: 0.02,
+  keepaliveMs: 5000,
+}
+
+export const EMPTY_SAMPLER_STATS: SamplerStats = {
+  fps: 0,
+  latencyMs: 0,
+  avgLatencyMs: 0,
+  sent: 0,
+  skipped: 0,
+  motion: 0,
+}
+
+/**
+ * Sampler settings saved in this browser, over the defaults
+ */
+export function loadSamplerConfig(): SamplerConfig {
+  if (typeof window === "undefined") return DEFAULT_SAMPLER_CONFIG
+  try {
+    return { ...DEFAULT_SAMPLER_CONFIG, ...JSON.parse(window.localStorage.getItem(STORAGE_KEY) || "{}") }
+  } catch {
+    return DEFAULT_SAMPLER_CONFIG
+  }
+}
+
+export function saveSamplerConfig(config: SamplerConfig) {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(config))
+}
+
+/**
+ * Compares each frame with the last on a small grayscale grid
+ */
+export class MotionDetector {
+  private canvas = document.createElement("canvas")
+  private ctx = this.canvas.getContext("2d", { willReadFrequently: true })
+  private previous: Uint8ClampedArray | null = null
+
+  constructor() {
+    this.canvas.width = MOTION_GRID_WIDTH
+    this.canvas.height = MOTION_GRID_HEIGHT
+  }
+
+  /**
+   * Mean absolute change in brightness since the last frame, from 0 to 1.
+   * The first frame counts as full motion.
+   */
+  measure(source: CanvasImageSource): number {
+    if (!this.ctx) return 1
+    this.ctx.drawImage(source, 0, 0, MOTION_GRID_WIDTH, MOTION_GRID_HEIGHT)
+    const { data } = this.ctx.getImageData(0, 0, MOTION_GRID_WIDTH, MOTION_GRID_HEIGHT)
+
+    const gray = new Uint8ClampedArray(MOTION_GRID_WIDTH * MOTION_GRID_HEIGHT)
+    for (let i = 0; i < gray.length; i++) {
+      gray[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000
+    }
+
+    const previous = this.previous
+    this.previous = gray
+    if (!previous) return 1
+
+    let diff = 0
+    for (let i = 0; i < gray.length; i++) diff += Math.abs(gray[i] - previous[i])
+    return diff / gray.length / 255
+  }
+
+  reset() {
+    this.previous = null
+  }
+}
+
+/**
+ * Pulls frames from a playing video into canvas and hands them to onFrame
+ * one at a time. The next frame is only captured once the previous
+ * handler has finished, so a slow backend lowers the frame rate instead
+ * of piling up requests.
+ */
+export class FrameSampler {
+  private running = false
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private motion = new MotionDetector()
+  private lastSentAt = 0
+  private sentTimes: number[] = []
+  private stats: SamplerStats = { ...EMPTY_SAMPLER_STATS }
+
+  constructor(
+    private video: HTMLVideoElement,
+    private canvas: HTMLCanvasElement,
+    private onFrame: FrameHandler,
+    private config: SamplerConfig = DEFAULT_SAMPLER_CONFIG,
+    private onStats?: (stats: SamplerStats) => void,
+  ) {}
+
+  start(): void {
+    if (this.running) return
+    this.running = true
+    this.motion.reset()
+    this.stats = { ...EMPTY_SAMPLER_STATS }
+    this.sentTimes = []
+    this.onStats?.(this.stats)
+    void this.tick()
+  }
+
+  stop(): void {
+    this.running = false
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = null
+  }
+
+  configure(config: SamplerConfig): void {
+    this.config = config
+  }
+
+  private schedule(delayMs: number) {
+    if (!this.running) return
+    this.timer = setTimeout(() => void this.tick(), Math.max(0, delayMs))
+  }
+
+  private async tick(): Promise<void> {
+    if (!this.running) return
+    const started = Date.now()
+    const { minIntervalMs, keepaliveMs, motionThreshold } = this.config
+
+    // The video has no frame yet (still starting or switching devices)
+    if (!this.video.videoWidth) return this.schedule(minIntervalMs)
+
+    const size = this.draw()
+    const motion = this.motion.measure(this.canvas)
+    this.stats.motion = motion
+
+    if (motionThreshold > 0 && motion < motionThreshold && started - this.lastSentAt < keepaliveMs) {
+      this.stats.skipped++
+      this.publish(started)
+      return this.schedule(minIntervalMs)
+    }
+
+    try {
+      const blob = await this.encode()
+      this.lastSentAt = started
+      await this.onFrame(blob, size, started)
+
+      const latency = Date.now() - started
+      this.stats.sent++
+      this.stats.latencyMs = latency
+      // Running average that favours recent requests
+      this.stats.avgLatencyMs = this.stats.avgLatencyMs ? this.stats.avgLatencyMs * 0.8 + latency * 0.2 : latency
+      this.sentTimes.push(started)
+    } catch (error) {
+      console.error("Frame capture failed:", error)
+    }
+
+    this.publish(Date.now())
+    this.schedule(minIntervalMs - (Date.now() - started))
+  }
+
+  // Draw the current video frame into the canvas at the configured size
+  private draw(): FrameSize {
+    const { videoWidth, videoHeight } = this.video
+    const { maxWidth } = this.config
+    const scale = maxWidth > 0 && videoWidth > maxWidth ? maxWidth / videoWidth : 1
+
+    this.canvas.width = Math.round(videoWidth * scale)
+    this.canvas.height = Math.round(videoHeight * scale)
+    this.canvas.getContext("2d")?.drawImage(this.video, 0, 0, this.canvas.width, this.canvas.height)
+    return { width: this.canvas.width, height: this.canvas.height }
+  }
+
+  private encode(): Promise<Blob> {
+    return new Promise((resolve, reject) =>
+      this.canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error("Could not encode frame"))),
+        "image/jpeg",
+        this.config.jpegQuality,
+      ),
+    )
+  }
+
+  private publish(now: number) {
+    this.sentTimes = this.sentTimes.filter((time) => now - time < FPS_WINDOW_MS)
+    this.stats.fps = this.sentTimes.length / (FPS_WINDOW_MS / 1000)
+    this.onStats?.({ ...this.stats })
+  }
+}
@@ -0,0 +1,146 @@
+// =============================================
+// FRAME SOURCE
+// Pulls JPEG frames from an RTSP/HTTP stream or a local video
+// file through an ffmpeg child process (ffmpeg must be on PATH)
+// =============================================
+
+import { spawn, type ChildProcessWithoutNullStreams } from "child_process"
+import type { FrameSize } from "@/lib/zones"
+
+export interface Frame {
+  jpeg: Buffer
+  size: FrameSize | null
+  capturedAt: number
+}
+
+export interface FrameSourceOptions {
+  url: string
+  fps: number
+  onFrame: (frame: Frame) => void
+  // Called once when ffmpeg exits; error is unset when a file simply ended
+  onEnd: (error?: Error) => void
+}
+
+const SOI = Buffer.from([0xff, 0xd8])
+const EOI = Buffer.from([0xff, 0xd9])
+
+/**
+ * Whether a source is a local file (or file:// URL) rather than a live stream
+ */
+export function isFileSource(url: string): boolean {
+  return url.startsWith("file://") || !/^[a-z][a-z0-9+.-]*:\/\//i.test(url)
+}
+
+/**
+ * Width and height from a JPEG's start-of-frame marker
+ */
+export function jpegSize(jpeg: Buffer): FrameSize | null {
+  let offset = 2
+  while (offset + 9 < jpeg.length) {
+    if (jpeg[offset] !== 0xff) return null
+    const marker = jpeg[offset + 1]
+    const length = jpeg.readUInt16BE(offset + 2)
+
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: jpeg.readUInt16BE(offset + 5), width: jpeg.readUInt16BE(offset + 7) }
+    }
+    offset += 2 + length
+  }
+  return null
+}
+
+/**
+ * Splits ffmpeg's concatenated MJPEG output into individual JPEGs
+ */
+export class JpegSplitter {
+  private buffer = Buffer.alloc(0)
+
+  push(chunk: Buffer): Buffer[] {
+    this.buffer = Buffer.concat([this.buffer, chunk])
+    const frames: Buffer[] = []
+
+    for (;;) {
+      const start = this.buffer.indexOf(SOI)
+      if (start === -1) {
+        // Keep a trailing 0xff in case it's the first half of the next SOI
+        this.buffer = this.buffer.subarray(-1)[0] === 0xff ? this.buffer.subarray(-1) : Buffer.alloc(0)
+        break
+      }
+      const end = this.buffer.indexOf(EOI, start + 2)
+      if (end === -1) {
+        this.buffer = this.buffer.subarray(start)
+        break
+      }
+      frames.push(Buffer.from(this.buffer.subarray(start, end + 2)))
+      this.buffer = this.buffer.subarray(end + 2)
+    }
+
+    return frames
+  }
+}
+
+/**
+ * ffmpeg decoding a stream or file at a fixed frame rate
+ */
+export class FfmpegFrameSource {
+  private process: ChildProcessWithoutNullStreams | null = null
+  private stopped = false
+
+  constructor(private options: FrameSourceOptions) {}
+
+  start(): void {
+    const { url, fps, onFrame, onEnd } = this.options
+    const file = isFileSource(url)
+    const input = url.replace(/^file:\/\//, "")
+
+    const args = [
+      "-hide_banner",
+      "-loglevel", "error",
+      // Files play back in real time so they behave like a live camera
+      ...(file ? ["-re"] : url.startsWith("rtsp") ? ["-rtsp_transport", "tcp"] : []),
+      "-i", input,
+      "-an",
+      "-vf", `fps=${fps}`,
+      "-f", "image2pipe",
+      "-vcodec", "mjpeg",
+      "-q:v", "5",
+      "pipe:1",
+    ]
+
+    const splitter = new JpegSplitter()
+    const stderr: string[] = []
+    const child = spawn(process.env.FFMPEG_PATH || "ffmpeg", args)
+    this.process = child
+
+    child.stdout.on("data", (chunk: Buffer) => {
+      for (const jpeg of splitter.push(chunk)) {
+        onFrame({ jpeg, size: jpegSize(jpeg), capturedAt: Date.now() })
+      }
+    })
+    child.stderr.on("data", (chunk: Buffer) => {
+      stderr.push(chunk.toString())
+      if (stderr.length > 20) stderr.shift()
+    })
+
+    let ended = false
+    const finish = (error?: Error) => {
+      if (ended) return
+      ended = true
+      this.process = null
+      onEnd(error)
+    }
+
+    child.on("error", (error) => finish(error))
+    child.on("close", (code) => {
+      if (this.stopped || (file && code === 0)) return finish()
+      const detail = stderr.join("").trim().split("\n").pop()
+      finish(new Error(`ffmpeg exited with code ${code}${detail ? `: ${detail}` : ""}`))
+    })
+  }
+
+  stop(): void {
+    this.stopped = true
+    this.process?.kill("SIGTERM")
+  }
+}
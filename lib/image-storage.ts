@@ -0,0 +1,144 @@
+// =============================================
+// IMAGE STORAGE
+// Keeps plate crops and frames out of the database: uploads them
+// to a Supabase Storage bucket, or to public/ on disk in development
+// =============================================
+
+import { mkdir, rm, writeFile } from "fs/promises"
+import path from "path"
+import { createServerClient } from "@/lib/supabase"
+import { getSetting } from "@/lib/system-settings"
+
+export interface ImageStorage {
+  name: string
+  // Returns the URL the stored image is served from
+  put: (key: string, data: Buffer, contentType: string) => Promise<string>
+  remove: (keys: string[]) => Promise<void>
+}
+
+export interface StoredDetectionImages {
+  image_url?: string
+  images: { raw_crop?: string; processed_crop?: string; frame?: string }
+  // Storage keys, so retention can delete the files with the row
+  keys: string[]
+}
+
+type ImageKind = keyof StoredDetectionImages["images"]
+
+export const DEFAULT_IMAGE_BUCKET = "detection-images"
+
+// Files under public/ are served by Next, which is enough for local development
+export class LocalImageStorage implements ImageStorage {
+  name = "local"
+
+  constructor(
+    private root = path.join(process.cwd(), "public", DEFAULT_IMAGE_BUCKET),
+    private baseUrl = `/${DEFAULT_IMAGE_BUCKET}`,
+  ) {}
+
+  async put(key: string, data: Buffer): Promise<string> {
+    const file = path.join(this.root, key)
+    await mkdir(path.dirname(file), { recursive: true })
+    await writeFile(file, data)
+    return `${this.baseUrl}/${key}`
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    await Promise.all(keys.map((key) => rm(path.join(this.root, key), { force: true })))
+  }
+}
+
+// Public Supabase Storage bucket; keys carry a random id so URLs can't be guessed
+export class SupabaseImageStorage implements ImageStorage {
+  name = "supabase"
+
+  constructor(private bucket = DEFAULT_IMAGE_BUCKET) {}
+
+  async put(key: string, data: Buffer, contentType: string): Promise<string> {
+    const storage = createServerClient().storage.from(this.bucket)
+    const { error } = await storage.upload(key, data, { contentType, upsert: true })
+    if (error) throw error
+    return storage.getPublicUrl(key).data.publicUrl
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    if (!keys.length) return
+    const { error } = await createServerClient().storage.from(this.bucket).remove(keys)
+    if (error) throw error
+  }
+}
+
+let activeStorage: ImageStorage | null = null
+
+/**
+ * Storage picked by IMAGE_STORAGE ("local" or "supabase").
+ * Defaults to the local adapter outside production.
+ */
+export function getImageStorage(): ImageStorage {
+  if (!activeStorage) {
+    const kind = process.env.IMAGE_STORAGE || (process.env.NODE_ENV === "production" ? "supabase" : "local")
+    activeStorage =
+      kind === "local"
+        ? new LocalImageStorage()
+        : new SupabaseImageStorage(process.env.IMAGE_STORAGE_BUCKET || DEFAULT_IMAGE_BUCKET)
+  }
+  return activeStorage
+}
+
+const isUrl = (value?: string) => !!value && /^(https?:|\/)/.test(value)
+
+/**
+ * Decode a base64 JPEG, bare or as a data: URL
+ */
+function decodeImage(value: string): Buffer {
+  return Buffer.from(value.replace(/^data:[^,]*,/, ""), "base64")
+}
+
+/**
+ * Upload a detection's crops (and its frame when store_detection_frames is on).
+ * Images that are already URLs are kept as they are. A crop that fails to
+ * upload stays inline so the read isn't lost; a frame is too big for that.
+ */
+export async function storeDetectionImages(
+  images: Partial<Record<ImageKind, string>> | undefined,
+  cameraId: string,
+  capturedAt: Date,
+): Promise<StoredDetectionImages> {
+  const stored: StoredDetectionImages = { images: {}, keys: [] }
+  if (!images) return stored
+
+  const storage = getImageStorage()
+  const storeFrames = await getSetting("store_detection_frames", false)
+  const folder = `${cameraId}/${capturedAt.toISOString().slice(0, 10)}/${crypto.randomUUID()}`
+
+  for (const kind of ["raw_crop", "processed_crop", "frame"] as const) {
+    const value = images[kind]
+    if (!value || (kind === "frame" && !storeFrames)) continue
+
+    if (isUrl(value)) {
+      stored.images[kind] = value
+      continue
+    }
+
+    const key = `${folder}/${kind}.jpg`
+    try {
+      stored.images[kind] = await storage.put(key, decodeImage(value), "image/jpeg")
+      stored.keys.push(key)
+    } catch (error) {
+      console.error(`Storing ${kind} in ${storage.name} storage failed:`, error)
+      if (kind !== "frame") stored.images[kind] = value
+    }
+  }
+
+  // image_url only ever points at storage, never at inline data
+  const { raw_crop, processed_crop, frame } = stored.images
+  stored.image_url = [raw_crop, processed_crop, frame].find(isUrl)
+  return stored
+}
+
+/**
+ * Delete stored images; missing files are not an error
+ */
+export async function removeDetectionImages(keys: string[]): Promise<void> {
+  if (keys.length) await getImageStorage().remove(keys)
+}
@@ -0,0 +1,177 @@
+// =============================================
+// OFFLINE QUEUE
+// Buffers camera frames (backend unreachable) and settled plates
+// (server unreachable) in IndexedDB, then replays them with their
+// original capture times once the connection is back
+// =============================================
+
+import type { DetectedPlate } from "@/lib/detection-backend"
+import { PlateTracker } from "@/lib/plate-tracker"
+import type { FrameSize } from "@/lib/zones"
+
+interface QueuedBase {
+  id?: number
+  cameraId?: string
+  // Failed replays so far; an entry that keeps failing is dropped so it can't block the queue
+  attempts?: number
+}
+
+export type QueuedCapture =
+  | (QueuedBase & { kind: "frame"; blob: Blob; size: FrameSize; capturedAt: number })
+  | (QueuedBase & { kind: "plates"; plates: DetectedPlate[]; size?: FrameSize; capturedAt?: number })
+
+export interface ReplayHandlers {
+  detect: (frame: Blob) => Promise<DetectedPlate[]>
+  // Resolves to the plates that couldn't be recorded
+  record: (plates: DetectedPlate[], cameraId?: string, capturedAt?: number, size?: FrameSize) => Promise<DetectedPlate[]>
+}
+
+const DB_NAME = "acdns-offline"
+const STORE = "captures"
+// Half an hour of constant motion at one frame a second; the oldest entries go first
+const MAX_QUEUED = 1800
+const MAX_ATTEMPTS = 5
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+/**
+ * FIFO of captures kept in this browser's IndexedDB
+ */
+export class OfflineQueue {
+  private opening: Promise<IDBDatabase> | null = null
+
+  constructor(private maxEntries = MAX_QUEUED) {}
+
+  private db(): Promise<IDBDatabase> {
+    if (!this.opening) {
+      const open = indexedDB.open(DB_NAME, 1)
+      open.onupgradeneeded = () => open.result.createObjectStore(STORE, { keyPath: "id", autoIncrement: true })
+      this.opening = request(open)
+    }
+    return this.opening
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    return (await this.db()).transaction(STORE, mode).objectStore(STORE)
+  }
+
+  async add(entry: QueuedCapture): Promise<void> {
+    await request((await this.store("readwrite")).add(entry))
+
+    const overflow = (await this.count()) - this.maxEntries
+    if (overflow > 0) {
+      const oldest = await this.peek(overflow)
+      await Promise.all(oldest.map((old) => this.remove(old.id!)))
+    }
+  }
+
+  async count(): Promise<number> {
+    return request((await this.store("readonly")).count())
+  }
+
+  // Oldest entries first
+  async peek(limit: number): Promise<QueuedCapture[]> {
+    return request((await this.store("readonly")).getAll(undefined, limit))
+  }
+
+  async update(entry: QueuedCapture): Promise<void> {
+    await request((await this.store("readwrite")).put(entry))
+  }
+
+  async remove(id: number): Promise<void> {
+    await request((await this.store("readwrite")).delete(id))
+  }
+}
+
+/**
+ * Replay queued captures in order. Frames go back through detection and
+ * a tracker of their own, so reads of one car merge as they would have live.
+ * Stops at the first failure, leaving the rest queued; plates that settled
+ * but couldn't be recorded are queued again.
+ */
+export async function replayOfflineQueue(
+  queue: OfflineQueue,
+  handlers: ReplayHandlers,
+  onProgress?: (remaining: number) => void,
+): Promise<void> {
+  const trackers = new Map<string, { tracker: PlateTracker; size: FrameSize }>()
+
+  const record = async (
+    plates: DetectedPlate[],
+    cameraId?: string,
+    capturedAt?: number,
+    size?: FrameSize,
+    attempts = 0,
+  ) => {
+    let failed = plates
+    let error: unknown
+    try {
+      failed = await handlers.record(plates, cameraId, capturedAt, size)
+    } catch (err) {
+      error = err
+    }
+    if (!failed.length) return
+
+    // Only the plates that weren't saved go back in the queue
+    if (attempts + 1 < MAX_ATTEMPTS) {
+      await queue.add({ kind: "plates", plates: failed, cameraId, capturedAt, size, attempts: attempts + 1 })
+    } else {
+      console.error(`Dropping ${failed.length} queued plates after ${MAX_ATTEMPTS} failed replays`)
+    }
+    throw error ?? new Error(`${failed.length} plate(s) could not be recorded`)
+  }
+
+  // A frame the backend keeps rejecting is given up on rather than retried forever
+  const detect = async (entry: Extract<QueuedCapture, { kind: "frame" }>) => {
+    try {
+      return await handlers.detect(entry.blob)
+    } catch (error) {
+      const attempts = (entry.attempts ?? 0) + 1
+      if (attempts < MAX_ATTEMPTS) {
+        await queue.update({ ...entry, attempts })
+      } else {
+        console.error(`Dropping a queued frame after ${MAX_ATTEMPTS} failed replays`)
+        await queue.remove(entry.id!)
+      }
+      throw error
+    }
+  }
+
+  try {
+    for (;;) {
+      const [entry] = await queue.peek(1)
+      if (!entry) break
+
+      if (entry.kind === "plates") {
+        await queue.remove(entry.id!)
+        await record(entry.plates, entry.cameraId, entry.capturedAt, entry.size, entry.attempts)
+      } else {
+        // Detection failing usually means the backend is still down; the frame stays queued
+        const reads = await detect(entry)
+        await queue.remove(entry.id!)
+
+        const key = entry.cameraId ?? ""
+        const track = trackers.get(key) ?? { tracker: new PlateTracker(), size: entry.size }
+        track.size = entry.size
+        trackers.set(key, track)
+
+        const plates = track.tracker.update(reads, entry.capturedAt)
+        if (plates.length) await record(plates, entry.cameraId, entry.capturedAt, entry.size)
+      }
+
+      onProgress?.(await queue.count())
+    }
+  } finally {
+    // Whatever was still being tracked is queued as plates if it can't be saved now
+    for (const [cameraId, { tracker, size }] of trackers) {
+      const remaining = tracker.flush()
+      if (remaining.length) await record(remaining, cameraId || undefined, undefined, size).catch(() => {})
+    }
+    onProgress?.(await queue.count())
+  }
+}
@@ -0,0 +1,60 @@
+// =============================================
+// PARKING ZONES
+// Parking zones and their occupancy, shared by the overstay sweep
+// and the dashboard; no server imports, so the browser can load it
+// =============================================
+
+import { supabase } from "@/lib/supabase"
+import type { Camera, CameraZone, ParkingOccupancy, ParkingSession } from "@/types/database"
+
+export type ParkingZone = CameraZone & { cameras: Pick<Camera, "id" | "name" | "location"> | null }
+
+/**
+ * Whether a parked vehicle has been in its zone longer than the zone allows
+ */
+export function isOverstaying(
+  session: Pick<ParkingSession, "arrived_at">,
+  zone: Pick<CameraZone, "max_stay_minutes">,
+  now: Date = new Date(),
+): boolean {
+  if (!zone.max_stay_minutes) return false
+  return now.getTime() - new Date(session.arrived_at).getTime() > zone.max_stay_minutes * 60 * 1000
+}
+
+/**
+ * Active parking zones with their camera
+ */
+export async function getParkingZones(client = supabase): Promise<ParkingZone[]> {
+  const { data, error } = await client
+    .from("camera_zones")
+    .select("*, cameras(id, name, location)")
+    .eq("zone_type", "parking")
+    .eq("is_active", true)
+    .order("zone_name")
+
+  if (error) throw error
+  return (data || []) as ParkingZone[]
+}
+
+/**
+ * Vehicles parked in each parking zone, against its capacity
+ */
+export async function getParkingOccupancy(client = supabase): Promise<ParkingOccupancy[]> {
+  const [zones, sessionsResult] = await Promise.all([
+    getParkingZones(client),
+    client.from("parking_sessions").select("zone_id, arrived_at").eq("status", "parked"),
+  ])
+
+  if (sessionsResult.error) throw sessionsResult.error
+
+  const now = new Date()
+  return zones.map(({ cameras, ...zone }) => {
+    const parked = (sessionsResult.data || []).filter((s) => s.zone_id === zone.id)
+    return {
+      zone,
+      camera: cameras,
+      occupied: parked.length,
+      overstaying: parked.filter((s) => isOverstaying(s, zone, now)).length,
+    }
+  })
+}
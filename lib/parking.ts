@@ -0,0 +1,206 @@
+// =============================================
+// PARKING
+// Occupancy and dwell time for parking zones, built from detections,
+// with reminder / alert texts when a vehicle overstays
+// =============================================
+
+import { createServerClient } from "@/lib/supabase"
+import { getSetting } from "@/lib/system-settings"
+import { sendLoggedSms } from "@/lib/sms-log"
+import { renderOverstayMessage } from "@/lib/ai-sms-generator"
+import { getSubscribedRecipients } from "@/lib/sms-recipients"
+import { logActivity } from "@/lib/activity-log"
+import { formatDuration } from "@/lib/visits"
+import type { AlertOutcome } from "@/lib/detection-alerts"
+import { getParkingZones, isOverstaying, type ParkingZone } from "@/lib/parking-zones"
+import type { Detection, ParkingSession, Vehicle } from "@/types/database"
+
+// How often the piggybacked overstay sweep may run in one process
+const OVERSTAY_CHECK_INTERVAL_MS = 60_000
+
+/**
+ * Open or refresh parking sessions for a detection. A read anywhere outside
+ * a vehicle's current parking zone means it has moved on, so that session ends.
+ */
+export async function recordParkingEvent(detection: Detection): Promise<void> {
+  if (detection.review_status === "needs_review" || detection.review_status === "rejected") return
+
+  const supabase = createServerClient()
+  const seenAt = detection.detection_timestamp
+  const zoneIds: string[] = (detection.additional_data?.zones ?? [])
+    .filter((zone: { type: string }) => zone.type === "parking")
+    .map((zone: { id: string }) => zone.id)
+
+  const { data: open, error } = await supabase
+    .from("parking_sessions")
+    .select("*")
+    .eq("license_plate", detection.license_plate)
+    .eq("status", "parked")
+
+  if (error) throw error
+
+  for (const session of open || []) {
+    if (zoneIds.includes(session.zone_id)) continue
+    // Ignore reads older than the last sighting (e.g. a late review)
+    if (new Date(seenAt) <= new Date(session.last_seen_at)) continue
+
+    const { error: closeError } = await supabase
+      .from("parking_sessions")
+      .update({ status: "departed", departed_at: seenAt })
+      .eq("id", session.id)
+      .eq("status", "parked")
+    if (closeError) throw closeError
+  }
+
+  for (const zoneId of zoneIds) {
+    const session = open?.find((s) => s.zone_id === zoneId)
+
+    if (session) {
+      if (new Date(seenAt) <= new Date(session.last_seen_at)) continue
+      const { error: updateError } = await supabase
+        .from("parking_sessions")
+        .update({ last_seen_at: seenAt, vehicle_id: session.vehicle_id ?? detection.vehicle_id ?? null })
+        .eq("id", session.id)
+      if (updateError) throw updateError
+      continue
+    }
+
+    const { error: insertError } = await supabase.from("parking_sessions").insert({
+      zone_id: zoneId,
+      license_plate: detection.license_plate,
+      vehicle_id: detection.vehicle_id ?? null,
+      arrived_at: seenAt,
+      last_seen_at: seenAt,
+    })
+    // Another reader opened the session first
+    if (insertError && insertError.code !== "23505") throw insertError
+  }
+}
+
+/**
+ * Text the owner (reminder) or security (alert) about an overstay.
+ * Reminders fall back to security when there's no owner to remind.
+ */
+async function notifyOverstay(
+  session: ParkingSession,
+  zone: ParkingZone,
+  vehicle: Vehicle | null,
+  now: Date,
+): Promise<AlertOutcome> {
+  try {
+    const messageType = zone.overstay_action === "reminder" && vehicle?.owner_phone ? "reminder" : "alert"
+    const targets =
+      messageType === "reminder"
+        ? [{ phone: vehicle!.owner_phone }]
+        : (await getSubscribedRecipients("alert")).map((r) => ({ phone: r.phone, recipientId: r.id }))
+    if (targets.length === 0) return "skipped"
+
+    const message = renderOverstayMessage(messageType, {
+      vehicleLicense: session.license_plate,
+      ownerName: vehicle?.owner_name,
+      zoneName: zone.zone_name,
+      // Cameras without a location are named instead
+      cameraLocation: zone.cameras?.location || zone.cameras?.name,
+      parkedDuration: formatDuration(now.getTime() - new Date(session.arrived_at).getTime()),
+      maxStay: formatDuration((zone.max_stay_minutes ?? 0) * 60 * 1000),
+    })
+
+    const result = await sendLoggedSms(targets, message, {
+      messageType,
+      relatedVehicleId: vehicle?.id,
+      deliveryStatus: { zone_id: zone.id, parking_session_id: session.id, camera_id: zone.camera_id },
+    })
+
+    return result.success > 0 ? "sent" : "failed"
+  } catch (error) {
+    console.error(`Overstay notification failed for ${session.license_plate}:`, error)
+    return "failed"
+  }
+}
+
+let lastOverstayCheck = 0
+
+/**
+ * Run checkParkingOverstays at most once a minute in this process
+ */
+export async function checkParkingOverstaysThrottled(): Promise<ParkingSession[]> {
+  if (Date.now() - lastOverstayCheck < OVERSTAY_CHECK_INTERVAL_MS) return []
+  return checkParkingOverstays()
+}
+
+/**
+ * End sessions that haven't been seen for parking_session_timeout_hours,
+ * then notify once for each vehicle over its zone's max stay
+ */
+export async function checkParkingOverstays(now: Date = new Date()): Promise<ParkingSession[]> {
+  lastOverstayCheck = now.getTime()
+  const supabase = createServerClient()
+  const timeoutHours = Number(await getSetting("parking_session_timeout_hours", 24))
+  const staleBefore = new Date(now.getTime() - timeoutHours * 60 * 60 * 1000).toISOString()
+
+  const { data: stale, error: staleError } = await supabase
+    .from("parking_sessions")
+    .select("id, last_seen_at")
+    .eq("status", "parked")
+    .lt("last_seen_at", staleBefore)
+
+  if (staleError) throw staleError
+
+  for (const session of stale || []) {
+    const { error } = await supabase
+      .from("parking_sessions")
+      .update({ status: "departed", departed_at: session.last_seen_at })
+      .eq("id", session.id)
+      .eq("status", "parked")
+    if (error) throw error
+  }
+
+  const zones = (await getParkingZones(supabase)).filter((zone) => zone.max_stay_minutes)
+  if (zones.length === 0) return []
+
+  const { data: sessions, error } = await supabase
+    .from("parking_sessions")
+    .select("*, vehicles(*)")
+    .eq("status", "parked")
+    .is("overstay_notified_at", null)
+    .in("zone_id", zones.map((zone) => zone.id))
+
+  if (error) throw error
+
+  const notified: ParkingSession[] = []
+  for (const { vehicles: vehicle, ...session } of sessions || []) {
+    const zone = zones.find((z) => z.id === session.zone_id)
+    if (!zone || !isOverstaying(session, zone, now)) continue
+
+    // Claim the session first so concurrent sweeps notify once
+    const { data: claimed, error: claimError } = await supabase
+      .from("parking_sessions")
+      .update({ overstay_notified_at: now.toISOString() })
+      .eq("id", session.id)
+      .is("overstay_notified_at", null)
+      .select("id")
+
+    if (claimError) throw claimError
+    if (!claimed?.length) continue
+
+    const outcome = await notifyOverstay(session, zone, vehicle, now)
+    await supabase.from("parking_sessions").update({ overstay_alert: outcome }).eq("id", session.id)
+
+    await logActivity({
+      action: "parking_overstay",
+      resource_type: "parking_session",
+      resource_id: session.id,
+      details: {
+        license_plate: session.license_plate,
+        zone_id: zone.id,
+        arrived_at: session.arrived_at,
+        max_stay_minutes: zone.max_stay_minutes,
+        alert: outcome,
+      },
+    })
+
+    notified.push({ ...session, overstay_notified_at: now.toISOString(), overstay_alert: outcome })
+  }
+
+  return notified
+}
@@ -0,0 +1,52 @@
+// =============================================
+// PLATE FORMAT
+// Pure helpers for plate reads, shared by the browser pages and the
+// server. Keep this free of server imports so client bundles stay small.
+// =============================================
+
+import type { BoundingBox, Detection } from "@/types/database"
+
+// Crops may come back as URLs or bare base64 JPEG data
+export const toImageSrc = (value?: string) =>
+  !value ? undefined : /^(https?:|data:|\/)/.test(value) ? value : `data:image/jpeg;base64,${value}`
+
+// Stored crop, or the inline crop kept on rows from before image storage
+export const detectionThumbnail = (detection: Pick<Detection, "image_url" | "additional_data">) =>
+  detection.image_url || toImageSrc(detection.additional_data?.images?.raw_crop)
+
+/**
+ * Normalize a plate read so it can be matched against vehicles.license_plate
+ */
+export function normalizePlate(plate: string): string {
+  return plate.trim().toUpperCase().replace(/\s+/g, " ")
+}
+
+/**
+ * A plate reduced to its letters and digits, so "GR 1234-20" and
+ * "GR1234-20" compare equal. Matches the plate_key columns.
+ */
+export function plateKey(plate: string): string {
+  return plate.toUpperCase().replace(/[^A-Z0-9]/g, "")
+}
+
+/**
+ * Convert a backend confidence (0-1 or 0-100) into the 0-1 range used by the schema
+ */
+export function toConfidenceScore(conf?: number): number {
+  if (conf === undefined || Number.isNaN(conf)) return 0
+  const score = conf > 1 ? conf / 100 : conf
+  return Math.min(1, Math.max(0, Number(score.toFixed(4))))
+}
+
+/**
+ * Accept either {x, y, width, height} or [x1, y1, x2, y2] boxes
+ */
+export function toBoundingBox(bbox?: BoundingBox | number[]): BoundingBox | undefined {
+  if (!bbox) return undefined
+  if (Array.isArray(bbox)) {
+    if (bbox.length < 4) return undefined
+    const [x1, y1, x2, y2] = bbox
+    return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 }
+  }
+  return { x: bbox.x, y: bbox.y, width: bbox.width, height: bbox.height }
+}
@@ -0,0 +1,203 @@
+// =============================================
+// PLATE TRACKER
+// Groups reads of the same vehicle across consecutive frames
+// and votes per character to settle OCR jitter
+// =============================================
+
+import type { DetectedPlate } from "@/lib/detection-backend"
+import { normalizePlate, plateKey, toBoundingBox, toConfidenceScore } from "@/lib/plate-format"
+import type { BoundingBox } from "@/types/database"
+
+export interface PlateTrackerOptions {
+  // A track closes once no matching read arrives for this long
+  maxGapMs: number
+  // Long-lived tracks (a car parked at the gate) emit once after this long
+  maxTrackMs: number
+  // Reads whose plate keys are within this edit distance belong together
+  maxEditDistance: number
+  // Reads whose boxes overlap this much belong together if their text is
+  // within maxOverlapEditDistance, so a car replacing another in place starts a new track
+  minOverlap: number
+  maxOverlapEditDistance: number
+}
+
+// Emitted plates always carry the time their track started
+export type TrackedPlate = DetectedPlate & { captured_at: number }
+
+interface PlateRead {
+  plate: string
+  confidence: number
+  bbox?: BoundingBox
+  images?: DetectedPlate["images"]
+}
+
+interface Track {
+  reads: PlateRead[]
+  startedAt: number
+  lastSeenAt: number
+  emitted: boolean
+}
+
+const DEFAULT_OPTIONS: PlateTrackerOptions = {
+  maxGapMs: 2500,
+  maxTrackMs: 10000,
+  maxEditDistance: 2,
+  minOverlap: 0.3,
+  maxOverlapEditDistance: 4,
+}
+
+function editDistance(a: string, b: string): number {
+  const dp = Array.from({ length: b.length + 1 }, (_, j) => j)
+
+  for (let i = 1; i <= a.length; i++) {
+    let prev = dp[0]
+    dp[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = dp[j]
+      dp[j] = Math.min(dp[j] + 1, dp[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1))
+      prev = tmp
+    }
+  }
+
+  return dp[b.length]
+}
+
+function overlap(a?: BoundingBox, b?: BoundingBox): number {
+  if (!a || !b) return 0
+  const w = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x)
+  const h = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y)
+  if (w <= 0 || h <= 0) return 0
+  const intersection = w * h
+  return intersection / (a.width * a.height + b.width * b.height - intersection)
+}
+
+/**
+ * Weighted per-character vote over the reads of one track.
+ * Only reads of the winning length take part in the character vote.
+ */
+function voteOnReads(reads: PlateRead[]): { plate: string; confidence: number } {
+  const lengthWeights = new Map<number, number>()
+  for (const read of reads) {
+    lengthWeights.set(read.plate.length, (lengthWeights.get(read.plate.length) ?? 0) + read.confidence + 1e-6)
+  }
+  const length = [...lengthWeights.entries()].sort((a, b) => b[1] - a[1])[0][0]
+  const candidates = reads.filter((r) => r.plate.length === length)
+
+  let plate = ""
+  let confidence = 1
+
+  for (let i = 0; i < length; i++) {
+    const votes = new Map<string, { weight: number; misses: number }>()
+    let total = 0
+
+    for (const read of candidates) {
+      const vote = votes.get(read.plate[i]) ?? { weight: 0, misses: 1 }
+      vote.weight += read.confidence
+      vote.misses *= 1 - read.confidence
+      votes.set(read.plate[i], vote)
+      total += read.confidence
+    }
+
+    const [char, winner] = [...votes.entries()].sort((a, b) => b[1].weight - a[1].weight)[0]
+    plate += char
+
+    // Agreeing reads reinforce each other; dissenting reads pull the score down
+    const support = total > 0 ? winner.weight / total : 0
+    confidence = Math.min(confidence, (1 - winner.misses) * support)
+  }
+
+  return { plate, confidence: Number(confidence.toFixed(4)) }
+}
+
+export class PlateTracker {
+  private tracks: Track[] = []
+  private options: PlateTrackerOptions
+
+  constructor(options: Partial<PlateTrackerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+  }
+
+  /**
+   * Feed the reads from one frame; returns consolidated plates for tracks that are done
+   */
+  update(plates: DetectedPlate[], now: number = Date.now()): TrackedPlate[] {
+    for (const det of plates) {
+      if (!det.plate) continue
+
+      const read: PlateRead = {
+        plate: normalizePlate(det.plate),
+        confidence: toConfidenceScore(det.ocr_conf),
+        bbox: toBoundingBox(det.bbox),
+        images: det.images,
+      }
+
+      const track = this.findTrack(read)
+      if (track?.emitted) {
+        // Once emitted a track only has to keep matching; the latest read is enough
+        track.reads = [{ ...read, images: undefined }]
+        track.lastSeenAt = now
+      } else if (track) {
+        track.reads.push(read)
+        track.lastSeenAt = now
+      } else {
+        this.tracks.push({ reads: [read], startedAt: now, lastSeenAt: now, emitted: false })
+      }
+    }
+
+    return this.collect(now, false)
+  }
+
+  /**
+   * Close every open track, e.g. when the stream stops
+   */
+  flush(): TrackedPlate[] {
+    return this.collect(Date.now(), true)
+  }
+
+  private findTrack(read: PlateRead): Track | undefined {
+    const { maxEditDistance, minOverlap, maxOverlapEditDistance } = this.options
+
+    return this.tracks.find((track) => {
+      const last = track.reads[track.reads.length - 1]
+      const distance = editDistance(plateKey(last.plate), plateKey(read.plate))
+      if (distance <= maxEditDistance) return true
+      return distance <= maxOverlapEditDistance && overlap(last.bbox, read.bbox) >= minOverlap
+    })
+  }
+
+  private collect(now: number, closeAll: boolean): TrackedPlate[] {
+    const { maxGapMs, maxTrackMs } = this.options
+    const ready: TrackedPlate[] = []
+
+    this.tracks = this.tracks.filter((track) => {
+      const closed = closeAll || now - track.lastSeenAt > maxGapMs
+      const stale = now - track.startedAt >= maxTrackMs
+
+      if ((closed || stale) && !track.emitted) {
+        ready.push(this.consolidate(track))
+        track.emitted = true
+      }
+      return !closed
+    })
+
+    return ready
+  }
+
+  private consolidate(track: Track): TrackedPlate {
+    const { plate, confidence } = voteOnReads(track.reads)
+    const best = [...track.reads].sort((a, b) => b.confidence - a.confidence)[0]
+    const last = track.reads[track.reads.length - 1]
+
+    return {
+      plate,
+      ocr_conf: confidence,
+      bbox: last.bbox,
+      images: best.images,
+      captured_at: track.startedAt,
+      consensus: {
+        reads: track.reads.length,
+        candidates: Array.from(new Set(track.reads.map((r) => r.plate))),
+      },
+    }
+  }
+}
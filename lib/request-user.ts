@@ -0,0 +1,38 @@
+// =============================================
+// REQUEST USER
+// Works out which user a server action or route runs for from the
+// caller's Supabase access token, rather than a user id it sends
+// =============================================
+
+import { createServerClient } from "@/lib/supabase"
+import type { User } from "@/types/database"
+
+export type UserRole = User["role"]
+
+// Everyone but viewers: record and review detections, manage cameras
+export const STAFF_ROLES: UserRole[] = ["operator", "supervisor", "administrator"]
+
+/**
+ * Id of the user an access token belongs to, or undefined when the token
+ * is missing, expired or invalid
+ */
+export async function userIdFromToken(token?: string | null): Promise<string | undefined> {
+  if (!token) return undefined
+  const { data, error } = await createServerClient().auth.getUser(token)
+  return error ? undefined : data.user?.id
+}
+
+/**
+ * Id of the signed-in user behind a server action. Throws when the token
+ * isn't valid or, given roles, when the user's role isn't one of them.
+ */
+export async function requireUser(token: string | null | undefined, roles?: UserRole[]): Promise<string> {
+  const userId = await userIdFromToken(token)
+  if (!userId) throw new Error("Sign in to do that")
+  if (!roles) return userId
+
+  const { data, error } = await createServerClient().from("users").select("role").eq("id", userId).maybeSingle()
+  if (error) throw error
+  if (!data || !roles.includes(data.role)) throw new Error("Your account isn't allowed to do that")
+  return userId
+}
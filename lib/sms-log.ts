@@ -0,0 +1,161 @@
+// =============================================
+// SMS LOG
+// Sends a message and records it in sms_messages, with one
+// sms_delivery_log row per recipient for every send attempt
+// =============================================
+
+import { createServerClient } from "@/lib/supabase"
+import { cleanPhone, smsService, type BulkSmsResult, type SmsResult } from "@/lib/sms-service"
+import type { DeliveryReceipt } from "@/lib/sms-webhooks"
+import type { SmsDeliveryLogInsert, SmsDeliveryLogUpdate, SmsMessage } from "@/types/database"
+
+export interface SmsTarget {
+  phone: string
+  // Saved sms_recipients row, when the number belongs to one
+  recipientId?: string | null
+}
+
+export interface SmsLogOptions {
+  messageType: string
+  relatedDetectionId?: string
+  relatedVehicleId?: string
+  sentBy?: string
+  // Extra context kept on the sms_messages row
+  deliveryStatus?: Record<string, any>
+}
+
+export interface LoggedSmsResult extends BulkSmsResult {
+  // Missing when the message row couldn't be written; the SMS still goes out
+  messageId?: string
+}
+
+const messageStatus = (result: Pick<BulkSmsResult, "success" | "failed">): SmsMessage["status"] =>
+  result.failed === 0 ? "sent" : result.success > 0 ? "partial" : "failed"
+
+/**
+ * Delivery log fields describing how one recipient's send went
+ */
+export function deliveryUpdate(result: SmsResult): SmsDeliveryLogUpdate {
+  const failedOver = result.failedOver?.length ? `Failed over from ${result.failedOver.join(", ")}` : undefined
+
+  return {
+    status: result.success ? "sent" : "failed",
+    provider: result.provider,
+    provider_message_id: result.messageId,
+    // A send that only succeeded after failover keeps a note of it
+    error_message: result.success ? failedOver : result.error,
+    sent_at: result.success ? new Date().toISOString() : undefined,
+  }
+}
+
+const deliveryRow = (messageId: string, target: SmsTarget, result: SmsResult): SmsDeliveryLogInsert => ({
+  message_id: messageId,
+  recipient_id: target.recipientId ?? null,
+  // The form the send and rate limits used
+  phone: cleanPhone(target.phone),
+  ...deliveryUpdate(result),
+})
+
+/**
+ * Create the sms_messages row a send is logged against
+ */
+export async function createSmsMessage(
+  message: string,
+  recipientsCount: number,
+  options: SmsLogOptions,
+): Promise<string> {
+  const { data, error } = await createServerClient()
+    .from("sms_messages")
+    .insert({
+      message_content: message,
+      message_type: options.messageType,
+      recipients_count: recipientsCount,
+      status: "pending",
+      related_detection_id: options.relatedDetectionId,
+      related_vehicle_id: options.relatedVehicleId,
+      sent_by: options.sentBy,
+      delivery_status: options.deliveryStatus,
+    })
+    .select("id")
+    .single()
+
+  if (error) throw error
+  return data.id
+}
+
+/**
+ * Recompute a message's status from its delivery log
+ */
+export async function refreshMessageStatus(messageId: string): Promise<void> {
+  const { error } = await createServerClient().rpc("refresh_sms_message_status", { p_message_id: messageId })
+  if (error) console.error(`Failed to update status of SMS ${messageId}:`, error)
+}
+
+/**
+ * Send one message to every target and log it. Each recipient's row is
+ * written as soon as its send finishes, so a crash mid-batch still leaves
+ * a record of who was texted.
+ */
+export async function sendLoggedSms(
+  targets: SmsTarget[],
+  message: string,
+  options: SmsLogOptions,
+): Promise<LoggedSmsResult> {
+  const supabase = createServerClient()
+  const messageId = await createSmsMessage(message, targets.length, options).catch((error) => {
+    console.error(`Failed to log ${options.messageType} SMS:`, error)
+    return undefined
+  })
+
+  // Over-limit recipients come back failed with the reason; a direct send isn't retried
+  const result = await smsService.sendBulkSms(
+    targets.map((t) => t.phone),
+    message,
+    {
+      sentBy: options.sentBy,
+      onResult: async (sent, index) => {
+        if (!messageId) return
+        const { error } = await supabase.from("sms_delivery_log").insert(deliveryRow(messageId, targets[index], sent))
+        if (error) console.error(`Failed to log SMS delivery to ${targets[index].phone}:`, error)
+      },
+    },
+  )
+
+  if (messageId) {
+    const { error } = await supabase
+      .from("sms_messages")
+      .update({ status: messageStatus(result), sent_at: new Date().toISOString() })
+      .eq("id", messageId)
+    if (error) console.error(`Failed to update ${options.messageType} SMS status:`, error)
+  }
+
+  return { ...result, messageId }
+}
+
+/**
+ * Apply a gateway's delivery receipt to the matching delivery log rows and
+ * roll the result up into each message's status. Returns how many rows matched.
+ */
+export async function applyDeliveryReceipt(provider: string, receipt: DeliveryReceipt): Promise<number> {
+  const supabase = createServerClient()
+
+  const update: SmsDeliveryLogUpdate = { status: receipt.status }
+  if (receipt.status === "delivered") update.delivered_at = new Date().toISOString()
+  if (receipt.error) update.error_message = receipt.error
+
+  let query = supabase
+    .from("sms_delivery_log")
+    .update(update)
+    .eq("provider_message_id", receipt.providerMessageId)
+    .eq("provider", provider)
+  // Receipts can arrive out of order; a late "sent" mustn't undo a final status
+  if (receipt.status === "sent") query = query.in("status", ["pending", "sent"])
+
+  const { data, error } = await query.select("message_id")
+  if (error) throw error
+
+  for (const messageId of new Set((data || []).map((row) => row.message_id))) {
+    await refreshMessageStatus(messageId)
+  }
+  return data?.length ?? 0
+}
@@ -0,0 +1,163 @@
+// =============================================
+// SMS PROVIDERS
+// One SmsProvider per gateway; SmsService chains them with failover
+// =============================================
+
+export type SmsProviderId = "arkesel" | "twilio" | "mock"
+
+export interface SmsResult {
+  success: boolean
+  messageId?: string
+  error?: string
+  provider: string
+  // Providers that failed before this one answered
+  failedOver?: string[]
+  // On failure: whether trying again later might work (timeouts, 5xx, rate limits)
+  retryable?: boolean
+  // Held back by our own rate limits; nothing was sent and it can go out after this time
+  retryAfter?: string
+}
+
+/**
+ * A gateway answered with an error. 4xx responses other than 429 mean the
+ * message itself was rejected (bad number, opted out) and won't go through on retry.
+ */
+export class SmsProviderError extends Error {
+  retryable: boolean
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = "SmsProviderError"
+    this.retryable = status === 429 || status >= 500
+  }
+}
+
+export interface SmsProvider {
+  id: SmsProviderId
+  name: string
+  // Whether the credentials this provider needs are present
+  isConfigured: () => boolean
+  // Resolves with the gateway's message id; rejects on any failure
+  send: (to: string, message: string, signal?: AbortSignal) => Promise<SmsResult>
+}
+
+// Arkesel (Ghana), the primary gateway
+export class ArkeselProvider implements SmsProvider {
+  id = "arkesel" as const
+  name = "Arkesel"
+  apiUrl = "https://sms.arkesel.com/api/v2/sms/send"
+
+  isConfigured(): boolean {
+    return !!(process.env.ARKESEL_API_KEY && process.env.ARKESEL_SENDER_ID)
+  }
+
+  async send(to: string, message: string, signal?: AbortSignal): Promise<SmsResult> {
+    const response = await fetch(this.apiUrl, {
+      method: "POST",
+      headers: {
+        "api-key": process.env.ARKESEL_API_KEY!,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        sender: process.env.ARKESEL_SENDER_ID || "Acdns",
+        message,
+        recipients: [to],
+        callback_url: webhookUrl(this.id),
+      }),
+      signal,
+    })
+
+    const result = await response.json().catch(() => ({}))
+    if (response.ok && (result.code === "ok" || result.status === "success")) {
+      return {
+        success: true,
+        messageId: result.data?.[0]?.id || `arkesel_${Date.now()}`,
+        provider: this.name,
+      }
+    }
+    throw new SmsProviderError(result.message || `Arkesel SMS failed (${response.status})`, response.status)
+  }
+}
+
+// Twilio, for international numbers or when Arkesel is down
+export class TwilioProvider implements SmsProvider {
+  id = "twilio" as const
+  name = "Twilio"
+
+  isConfigured(): boolean {
+    return !!(process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN && process.env.TWILIO_PHONE_NUMBER)
+  }
+
+  async send(to: string, message: string, signal?: AbortSignal): Promise<SmsResult> {
+    const accountSid = process.env.TWILIO_ACCOUNT_SID
+    const authToken = process.env.TWILIO_AUTH_TOKEN
+    const params = new URLSearchParams({
+      From: process.env.TWILIO_PHONE_NUMBER!,
+      To: to,
+      Body: message,
+    })
+    const statusCallback = webhookUrl(this.id)
+    if (statusCallback) params.set("StatusCallback", statusCallback)
+
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString("base64")}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: params,
+      signal,
+    })
+
+    const result = await response.json().catch(() => ({}))
+    if (response.ok) {
+      return { success: true, messageId: result.sid, provider: this.name }
+    }
+    throw new SmsProviderError(result.message || `Twilio SMS failed (${response.status})`, response.status)
+  }
+}
+
+// Logs instead of sending, for development
+export class MockProvider implements SmsProvider {
+  id = "mock" as const
+  name = "Mock SMS (Development)"
+
+  isConfigured(): boolean {
+    return true
+  }
+
+  async send(to: string, message: string): Promise<SmsResult> {
+    console.log("📱 MOCK SMS SENT:")
+    console.log(`To: ${to}`)
+    console.log(`Message: ${message}`)
+    console.log("---")
+
+    // Simulate API delay
+    await new Promise((resolve) => setTimeout(resolve, 500))
+
+    return { success: true, messageId: `mock_${Date.now()}`, provider: this.name }
+  }
+}
+
+export const SMS_PROVIDERS: Record<SmsProviderId, SmsProvider> = {
+  arkesel: new ArkeselProvider(),
+  twilio: new TwilioProvider(),
+  mock: new MockProvider(),
+}
+
+/**
+ * Where a gateway should post delivery receipts, when SMS_WEBHOOK_BASE_URL
+ * is set. Arkesel can't sign its callbacks, so it gets a shared token.
+ */
+export function webhookUrl(id: SmsProviderId): string | undefined {
+  const base = process.env.SMS_WEBHOOK_BASE_URL
+  if (!base) return undefined
+
+  const url = new URL(`/api/sms/webhooks/${id}`, base)
+  if (id === "arkesel" && process.env.ARKESEL_WEBHOOK_SECRET) {
+    url.searchParams.set("token", process.env.ARKESEL_WEBHOOK_SECRET)
+  }
+  return url.toString()
+}
+
+export const isSmsProviderId = (value: string): value is SmsProviderId => Object.hasOwn(SMS_PROVIDERS, value)
@@ -0,0 +1,221 @@
+// =============================================
+// SMS QUEUE
+// Durable outbound queue in sms_jobs, one job per recipient. Broadcasts
+// are queued and the request sends only the first few; the SMS worker
+// (bun run sms-worker) or /api/sms/queue sends the rest with limited
+// concurrency, retrying transient failures with exponential backoff
+// and dead-lettering the rest.
+// =============================================
+
+import { hostname } from "os"
+import { createServerClient } from "@/lib/supabase"
+import { getSetting } from "@/lib/system-settings"
+import { smsService, type SmsResult } from "@/lib/sms-service"
+import {
+  createSmsMessage,
+  deliveryUpdate,
+  refreshMessageStatus,
+  type SmsLogOptions,
+  type SmsTarget,
+} from "@/lib/sms-log"
+import type { SmsDeliveryLogInsert, SmsJob, SmsJobAttempt, SmsJobInsert } from "@/types/database"
+
+export interface QueuedSms {
+  messageId: string
+  queued: number
+  // Numbers that failed validation and were logged as failed without a job
+  rejected: number
+}
+
+export interface QueueRunResult {
+  sent: number
+  retried: number
+  // Held back by a rate limit until it frees up; doesn't use an attempt
+  deferred: number
+  dead: number
+}
+
+interface QueuedMessage {
+  content: string
+  sentBy?: string
+}
+
+// Longer than one send can take with every provider in the chain timing out
+const LOCK_SECONDS = 120
+const BACKOFF_BASE_MS = 30_000
+const BACKOFF_MAX_MS = 60 * 60 * 1000
+const INSERT_CHUNK = 500
+
+const WORKER_ID = `${hostname()}:${process.pid}`
+
+/**
+ * Wait before retry n (1-based): 30s, 1m, 2m, ... up to an hour,
+ * with some jitter so a failed broadcast doesn't retry in lockstep
+ */
+export function retryDelayMs(attempt: number): number {
+  const delay = Math.min(BACKOFF_BASE_MS * 2 ** (attempt - 1), BACKOFF_MAX_MS)
+  return Math.round(delay * (0.8 + Math.random() * 0.4))
+}
+
+const chunks = <T>(rows: T[]): T[][] =>
+  Array.from({ length: Math.ceil(rows.length / INSERT_CHUNK) }, (_, i) =>
+    rows.slice(i * INSERT_CHUNK, (i + 1) * INSERT_CHUNK),
+  )
+
+/**
+ * Queue one message for every target. Each recipient gets a pending
+ * delivery log row straight away, so progress can be followed there.
+ */
+export async function queueLoggedSms(
+  targets: SmsTarget[],
+  message: string,
+  options: SmsLogOptions,
+): Promise<QueuedSms> {
+  const supabase = createServerClient()
+  const messageId = await createSmsMessage(message, targets.length, options)
+  const maxAttempts = Number(await getSetting("sms_max_attempts", 5))
+
+  const deliveries: SmsDeliveryLogInsert[] = []
+  const jobs: SmsJobInsert[] = []
+
+  for (const target of targets) {
+    const id = crypto.randomUUID()
+    // Cleaned the way sends and rate limits see it, or as typed when invalid
+    const validation = smsService.validatePhoneNumber(target.phone)
+    deliveries.push({
+      id,
+      message_id: messageId,
+      recipient_id: target.recipientId ?? null,
+      phone: validation.formatted,
+      status: validation.isValid ? "pending" : "failed",
+      error_message: validation.error,
+    })
+    if (validation.isValid) {
+      jobs.push({ message_id: messageId, delivery_id: id, phone: validation.formatted, max_attempts: maxAttempts })
+    }
+  }
+
+  for (const chunk of chunks(deliveries)) {
+    const { error } = await supabase.from("sms_delivery_log").insert(chunk)
+    if (error) throw error
+  }
+  for (const chunk of chunks(jobs)) {
+    const { error } = await supabase.from("sms_jobs").insert(chunk)
+    if (error) throw error
+  }
+  if (jobs.length === 0) await refreshMessageStatus(messageId)
+
+  return { messageId, queued: jobs.length, rejected: targets.length - jobs.length }
+}
+
+/**
+ * Send one claimed job and record how it went. The delivery row shows the
+ * latest result; every attempt is appended to the job's attempt_log.
+ */
+async function runJob(job: SmsJob, message: QueuedMessage): Promise<keyof QueueRunResult> {
+  const supabase = createServerClient()
+
+  // A job reclaimed after its worker died may already be out of attempts
+  const result: SmsResult =
+    job.attempts > job.max_attempts
+      ? { success: false, error: "Worker stopped while sending", provider: "None" }
+      : await smsService.sendSms(job.phone, message.content, { sentBy: message.sentBy })
+
+  let outcome: keyof QueueRunResult
+  if (result.success) {
+    outcome = "sent"
+  } else if (result.retryAfter) {
+    outcome = "deferred"
+  } else if (result.retryable && job.attempts < job.max_attempts) {
+    outcome = "retried"
+  } else {
+    outcome = "dead"
+  }
+
+  // A retry leaves the recipient pending, with the error so far
+  const delivery = deliveryUpdate(result)
+  if (outcome === "retried" || outcome === "deferred") delivery.status = "pending"
+  const { error: deliveryError } = await supabase.from("sms_delivery_log").update(delivery).eq("id", job.delivery_id)
+  if (deliveryError) console.error(`Failed to log SMS delivery to ${job.phone}:`, deliveryError)
+
+  const attempt: SmsJobAttempt = {
+    attempt: job.attempts,
+    at: new Date().toISOString(),
+    provider: result.provider,
+    outcome,
+    error: result.error,
+  }
+
+  // The job is locked to this worker, so nothing else appends meanwhile
+  const { error } = await supabase
+    .from("sms_jobs")
+    .update({
+      status: outcome === "retried" || outcome === "deferred" ? "queued" : outcome,
+      run_at:
+        outcome === "deferred"
+          ? result.retryAfter
+          : outcome === "retried"
+            ? new Date(Date.now() + retryDelayMs(job.attempts)).toISOString()
+            : undefined,
+      // Nothing was sent, so the attempt is handed back
+      attempts: outcome === "deferred" ? job.attempts - 1 : undefined,
+      locked_by: null,
+      locked_at: null,
+      last_error: result.error,
+      attempt_log: [...(job.attempt_log ?? []), attempt],
+    })
+    .eq("id", job.id)
+  if (error) throw error
+
+  if (outcome === "dead") console.warn(`📭 SMS to ${job.phone} dead-lettered after ${job.attempts} attempt(s): ${result.error}`)
+  if (outcome === "sent" || outcome === "dead") await refreshMessageStatus(job.message_id)
+  return outcome
+}
+
+/**
+ * Send due jobs until none are left (or maxJobs have been handled),
+ * sms_queue_concurrency at a time. Several processes can run this at
+ * once; each job is claimed by exactly one of them.
+ */
+export async function processSmsQueue(maxJobs = Infinity): Promise<QueueRunResult> {
+  const supabase = createServerClient()
+  const concurrency = Math.max(1, Number(await getSetting("sms_queue_concurrency", 4)))
+  const totals: QueueRunResult = { sent: 0, retried: 0, deferred: 0, dead: 0 }
+  const messages = new Map<string, Promise<QueuedMessage>>()
+  let claimed = 0
+
+  const loadMessage = async (messageId: string): Promise<QueuedMessage> => {
+    const { data, error } = await supabase
+      .from("sms_messages")
+      .select("message_content, sent_by")
+      .eq("id", messageId)
+      .single()
+    if (error) throw error
+    return { content: data.message_content, sentBy: data.sent_by }
+  }
+  // Jobs of one broadcast share the message
+  const queuedMessage = (messageId: string) => {
+    if (!messages.has(messageId)) messages.set(messageId, loadMessage(messageId))
+    return messages.get(messageId)!
+  }
+
+  // Each slot claims and sends one job at a time
+  const slot = async () => {
+    while (claimed < maxJobs) {
+      claimed++
+      const { data, error } = await supabase.rpc("claim_sms_jobs", {
+        p_worker: WORKER_ID,
+        p_limit: 1,
+        p_lock_seconds: LOCK_SECONDS,
+      })
+      if (error) throw error
+
+      const job = data?.[0]
+      if (!job) return
+      totals[await runJob(job, await queuedMessage(job.message_id))]++
+    }
+  }
+
+  await Promise.all(Array.from({ length: concurrency }, slot))
+  return totals
+}
@@ -0,0 +1,105 @@
+// =============================================
+// SMS RATE LIMITS
+// Hourly caps on SMS overall (max_sms_per_hour), per sending user and per
+// recipient phone. Each send takes a claim in sms_rate_claims first, so
+// every server process and worker shares the same budget. A limit of 0
+// turns that cap off.
+// =============================================
+
+import { createServerClient } from "@/lib/supabase"
+import { getSetting } from "@/lib/system-settings"
+import { logActivity } from "@/lib/activity-log"
+
+export type RateLimitScope = "global" | "user" | "recipient"
+
+export interface RateLimitHit {
+  scope: RateLimitScope
+  limit: number
+  // When the oldest send in the window ages out and a slot frees up
+  retryAfter: string
+  reason: string
+}
+
+const WINDOW_MS = 60 * 60 * 1000
+// Repeat hits on the same limit are only written to activity_logs this often
+const LOG_INTERVAL_MS = 5 * 60 * 1000
+
+const lastLogged = new Map<string, number>()
+
+function describe(scope: RateLimitScope, limit: number, phone: string): string {
+  switch (scope) {
+    case "global":
+      return `Rate limited: ${limit} SMS already sent in the last hour`
+    case "user":
+      return `Rate limited: this user has sent ${limit} SMS in the last hour`
+    case "recipient":
+      return `Rate limited: ${phone} has received ${limit} SMS in the last hour`
+  }
+}
+
+async function logHit(hit: RateLimitHit, phone: string, sentBy?: string) {
+  const key = `${hit.scope}:${hit.scope === "user" ? sentBy : hit.scope === "recipient" ? phone : ""}`
+  const now = Date.now()
+  if (now - (lastLogged.get(key) ?? 0) < LOG_INTERVAL_MS) return
+  lastLogged.set(key, now)
+
+  console.warn(`🚦 ${hit.reason}`)
+  await logActivity({
+    user_id: sentBy,
+    action: "sms_rate_limited",
+    resource_type: "sms",
+    details: { scope: hit.scope, limit: hit.limit, phone, retry_after: hit.retryAfter },
+  })
+}
+
+export type QuotaClaim =
+  // claimId is missing when every limit is off and nothing was counted
+  | { ok: true; claimId?: string }
+  | { ok: false; hit: RateLimitHit }
+
+/**
+ * Count one SMS to this phone against the limits, or return the first
+ * limit it would break. The claim is taken atomically by claim_sms_quota,
+ * so concurrent senders can't both take the last slot. Hits are recorded
+ * in activity_logs.
+ */
+export async function claimSmsQuota(phone: string, sentBy?: string): Promise<QuotaClaim> {
+  const limits: Record<RateLimitScope, number> = {
+    global: Number(await getSetting("max_sms_per_hour", 100)),
+    user: Number(await getSetting("max_sms_per_user_per_hour", 60)),
+    recipient: Number(await getSetting("max_sms_per_recipient_per_hour", 20)),
+  }
+  if (!limits.global && !limits.user && !limits.recipient) return { ok: true }
+
+  const { data, error } = await createServerClient().rpc("claim_sms_quota", {
+    p_phone: phone,
+    p_user_id: sentBy ?? null,
+    p_global_limit: limits.global,
+    p_user_limit: limits.user,
+    p_recipient_limit: limits.recipient,
+    p_window_seconds: WINDOW_MS / 1000,
+  })
+  if (error) throw error
+
+  const result = data?.[0]
+  if (!result?.scope) return { ok: true, claimId: result?.claim_id ?? undefined }
+
+  const now = Date.now()
+  const oldest = result.oldest_claimed_at ? new Date(result.oldest_claimed_at).getTime() : now
+  const hit: RateLimitHit = {
+    scope: result.scope,
+    limit: limits[result.scope],
+    retryAfter: new Date(Math.max(oldest + WINDOW_MS, now)).toISOString(),
+    reason: describe(result.scope, limits[result.scope], phone),
+  }
+  await logHit(hit, phone, sentBy)
+  return { ok: false, hit }
+}
+
+/**
+ * Hand a claim back when nothing was sent, so it doesn't count
+ */
+export async function releaseSmsQuota(claimId: string): Promise<void> {
+  const { error } = await createServerClient().from("sms_rate_claims").delete().eq("id", claimId)
+  if (error) console.error("Failed to release SMS rate claim:", error)
+}
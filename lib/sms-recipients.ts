@@ -0,0 +1,31 @@
+// =============================================
+// SMS RECIPIENTS
+// Looks up who is subscribed to each notification type
+// =============================================
+
+import { createServerClient } from "@/lib/supabase"
+import type { SmsRecipient } from "@/types/database"
+
+export type NotificationType = "detection" | "alert" | "system"
+
+/**
+ * Active recipients subscribed to a notification type,
+ * optionally narrowed to specific recipient ids
+ */
+export async function getSubscribedRecipients(
+  notificationType: NotificationType,
+  recipientIds?: string[] | null,
+): Promise<SmsRecipient[]> {
+  const supabase = createServerClient()
+  let query = supabase
+    .from("sms_recipients")
+    .select("*")
+    .eq("is_active", true)
+    .contains("notification_types", [notificationType])
+
+  if (recipientIds?.length) query = query.in("id", recipientIds)
+
+  const { data, error } = await query
+  if (error) throw error
+  return data || []
+}
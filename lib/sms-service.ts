@@ -1,199 +1,304 @@
 // =============================================
 // SMS SERVICE INTEGRATION
-// Supports Arkesel and other SMS providers
+// Sends through an ordered chain of SMS providers (sms_provider setting)
+// with failover on error or timeout and per-provider health tracking
 // =============================================
 
-interface SmsProvider {
-  name: string
-  send: (to: string, message: string) => Promise<SmsResult>
+import { getSetting } from "@/lib/system-settings"
+import { claimSmsQuota, releaseSmsQuota, type QuotaClaim } from "@/lib/sms-rate-limit"
+import {
+  SMS_PROVIDERS,
+  SmsProviderError,
+  isSmsProviderId,
+  type SmsProvider,
+  type SmsProviderId,
+  type SmsResult,
+} from "@/lib/sms-providers"
+
+export type { SmsResult }
+
+export interface SendOptions {
+  // User the message is sent on behalf of, for the per-user rate limit
+  sentBy?: string
 }
 
-interface SmsResult {
-  success: boolean
-  messageId?: string
-  error?: string
-  provider: string
+export interface BulkSmsOptions extends SendOptions {
+  // Called for each recipient as soon as its send finishes
+  onResult?: (result: SmsResult, index: number) => Promise<void> | void
 }
 
-interface BulkSmsResult {
+export interface BulkSmsResult {
   success: number
   failed: number
   results: SmsResult[]
 }
 
-// Arkesel SMS Provider
-export const arkeselProvider = {
-  name: "Arkesel",
-  apiUrl: "https://sms.arkesel.com/api/v2/sms/send",
-  available: !!(process.env.ARKESEL_API_KEY && process.env.ARKESEL_SENDER_ID),
+export interface SmsProviderHealth {
+  id: SmsProviderId
+  name: string
+  configured: boolean
+  // down: skipped until retryAfter after repeated failures
+  status: "healthy" | "degraded" | "down"
+  sent: number
+  failed: number
+  consecutiveFailures: number
+  avgLatencyMs?: number
+  lastSuccessAt?: string
+  lastFailureAt?: string
+  lastError?: string
+  retryAfter?: string
 }
 
-// Twilio SMS Provider (backup)
-const twilioProvider = {
-  name: "Twilio",
-  available: !!(process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN && process.env.TWILIO_PHONE_NUMBER),
+// Gateways tried after the ones named in sms_provider
+const DEFAULT_CHAIN: SmsProviderId[] = ["arkesel", "twilio"]
+const PROVIDER_TIMEOUT_MS = Number(process.env.SMS_PROVIDER_TIMEOUT_MS) || 10_000
+const FAILURES_BEFORE_COOLDOWN = 3
+const COOLDOWN_MS = 60_000
+
+/**
+ * Provider order from the sms_provider setting: a provider id, a comma
+ * separated list or a JSON array. Other gateways follow as fallbacks,
+ * and the mock provider comes last outside production.
+ */
+export function parseProviderChain(setting: unknown): SmsProviderId[] {
+  const names = Array.isArray(setting) ? setting : String(setting ?? "").split(",")
+  const chain = [
+    ...new Set(names.map((name) => String(name).trim().toLowerCase()).filter(isSmsProviderId)),
+  ]
+
+  for (const id of DEFAULT_CHAIN) {
+    if (!chain.includes(id)) chain.push(id)
+  }
+  if (process.env.NODE_ENV !== "production" && !chain.includes("mock")) chain.push("mock")
+  return chain
 }
 
-// Mock SMS Provider for development
-const mockProvider = {
-  name: "Mock SMS (Development)",
-  available: true,
+/**
+ * Clean and format phone number. Sends, delivery logs and rate limits all
+ * use this form, so one phone is counted the same however it was typed.
+ */
+export function cleanPhone(phone: string): string {
+  // Remove all non-digit characters
+  let cleaned = phone.replace(/\D/g, "")
+
+  // Handle Ghana phone numbers
+  if (cleaned.startsWith("0") && cleaned.length === 10) {
+    // Convert 0241234567 to +233241234567
+    cleaned = "233" + cleaned.substring(1)
+  } else if (cleaned.startsWith("233") && cleaned.length === 12) {
+    // Already in correct format
+    cleaned = cleaned
+  } else if (cleaned.length === 9) {
+    // Add Ghana country code
+    cleaned = "233" + cleaned
+  }
+
+  // Add + prefix if not present
+  if (!cleaned.startsWith("+")) {
+    cleaned = "+" + cleaned
+  }
+
+  return cleaned
 }
 
 // SMS Service Manager
 class SmsService {
-  private providers = {
-    arkesel: arkeselProvider,
-    twilio: twilioProvider,
-    mock: mockProvider,
-  };
+  private chain: SmsProviderId[] = parseProviderChain(undefined);
+  private health = new Map<SmsProviderId, SmsProviderHealth>();
 
   constructor() {
     console.log("📱 SMS Service initialized");
     console.log("Available providers:", this.getAvailableProviders());
   }
 
-  /**  
-
-   * Get list of available SMS providers
+  /**
+   * Configured providers, in the order they are tried
    */
   getAvailableProviders(): string[] {
-    return Object.entries(this.providers)
-      .filter(([_, config]) => config.available)
-      .map(([_, config]) => config.name);
+    return this.providers().map((provider) => provider.name);
   }
 
   /**
-   * Get the primary provider name
+   * Name of the provider tried first
    */
   getProviderName(): string {
-    if (this.providers.arkesel.available) return this.providers.arkesel.name;
-    if (this.providers.twilio.available) return this.providers.twilio.name;
-    return this.providers.mock.name;
+    return this.providers()[0]?.name ?? "None";
   }
 
   /**
-   * Send SMS using the best available provider
+   * Health of every provider in the chain
    */
-  async sendSms(to: string, message: string): Promise<SmsResult> {
-    const cleanPhone = this.cleanPhoneNumber(to);
+  getProviderHealth(): SmsProviderHealth[] {
+    return this.chain.map((id) => this.healthOf(SMS_PROVIDERS[id]));
+  }
 
-    // Try Arkesel first (primary provider)
-    if (this.providers.arkesel.available) {
-      try {
-      } catch (error) {
-        console.error("Arkesel SMS failed:", error);
+  /**
+   * Re-read the chain order from the sms_provider setting
+   */
+  async loadChain(): Promise<SmsProviderId[]> {
+    this.chain = parseProviderChain(await getSetting<unknown>("sms_provider", null));
+    return this.chain;
+  }
+
+  /**
+   * Send SMS through the chain, failing over to the next provider on
+   * error or timeout. Providers that keep failing are tried last until
+   * their cooldown ends. Messages over a rate limit aren't sent and come
+   * back with the reason and retryAfter.
+   */
+  async sendSms(
+    to: string,
+    message: string,
+    options: SendOptions = {}
+  ): Promise<SmsResult> {
+    const phone = cleanPhone(to);
+    await this.loadChain();
+
+    // The limits guard against runaway sends; if they can't be checked the message still goes
+    const quota = await claimSmsQuota(phone, options.sentBy).catch(
+      (error): QuotaClaim => {
+        console.error("SMS rate limit check failed:", error);
+        return { ok: true };
       }
+    );
+    if (!quota.ok) {
+      return {
+        success: false,
+        error: quota.hit.reason,
+        provider: "None",
+        retryable: true,
+        retryAfter: quota.hit.retryAfter,
+      };
     }
-    return await this.sendViaArkesel(cleanPhone, message);
 
-    // Try Twilio as fallback
-    if (this.providers.twilio.available) {
+    const now = Date.now();
+    const providers = this.providers();
+    const ordered = [
+      ...providers.filter((p) => !this.isCoolingDown(p, now)),
+      ...providers.filter((p) => this.isCoolingDown(p, now)),
+    ];
+
+    const failedOver: string[] = [];
+    let lastError = "No SMS provider is configured";
+    // Worth retrying unless every provider rejected the message outright
+    let retryable = ordered.length === 0;
+
+    for (const provider of ordered) {
+      const started = Date.now();
       try {
-        return await this.sendViaTwilio(cleanPhone, message);
+        const result = await this.sendWithTimeout(provider, phone, message);
+        this.recordSuccess(provider, Date.now() - started);
+        return failedOver.length ? { ...result, failedOver } : result;
       } catch (error) {
-        console.error("Twilio SMS failed:", error);
+        lastError = error instanceof Error ? error.message : String(error);
+        this.recordFailure(provider, lastError);
+        if (!(error instanceof SmsProviderError) || error.retryable) {
+          retryable = true;
+        }
+        failedOver.push(provider.name);
+        console.error(`${provider.name} SMS failed:`, lastError);
       }
     }
 
-    // Use mock service for development
-    return this.sendViaMock(cleanPhone, message);
+    if (quota.claimId) await releaseSmsQuota(quota.claimId);
+    return {
+      success: false,
+      error: lastError,
+      provider: failedOver[failedOver.length - 1] ?? "None",
+      failedOver,
+      retryable,
+    };
+  }
+
+  private providers(): SmsProvider[] {
+    return this.chain
+      .map((id) => SMS_PROVIDERS[id])
+      .filter((provider) => provider.isConfigured());
   }
 
   /**
-   * Send SMS via Arkesel
+   * A timed-out request is abandoned; the gateway may still deliver it,
+   * which is preferred over the alert never arriving
    */
-  private async sendViaArkesel(
+  private async sendWithTimeout(
+    provider: SmsProvider,
     to: string,
     message: string
   ): Promise<SmsResult> {
-    const apiKey = process.env.ARKESEL_API_KEY;
-    const senderId = process.env.ARKESEL_SENDER_ID || "Acdns";
-
-    const response = await fetch(this.providers.arkesel.apiUrl, {
-      method: "POST",
-      headers: {
-        "api-key": apiKey!,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        sender: senderId,
-        message: message,
-        recipients: [to],
-        // sandbox: process.env.NODE_ENV === "development",
-      }),
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`${provider.name} timed out after ${PROVIDER_TIMEOUT_MS}ms`));
+      }, PROVIDER_TIMEOUT_MS);
     });
 
-    const result = await response.json();
-    
-if (response.ok && (result.code === "ok" || result.status === "success")) {
-  return {
-    success: true,
-    messageId: result.data?.[0]?.id || `arkesel_${Date.now()}`,
-    provider: "Arkesel",
-  };
-} else {
-  throw new Error(result.message || "Arkesel SMS failed");
-}
-
+    try {
+      return await Promise.race([
+        provider.send(to, message, controller.signal),
+        timeout,
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
   }
 
-  /**
-   * Send SMS via Twilio
-   */
-  private async sendViaTwilio(to: string, message: string): Promise<SmsResult> {
-    const accountSid = process.env.TWILIO_ACCOUNT_SID;
-    const authToken = process.env.TWILIO_AUTH_TOKEN;
-    const fromNumber = process.env.TWILIO_PHONE_NUMBER;
-
-    const response = await fetch(
-      `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`,
-      {
-        method: "POST",
-        headers: {
-          Authorization: `Basic ${Buffer.from(
-            `${accountSid}:${authToken}`
-          ).toString("base64")}`,
-          "Content-Type": "application/x-www-form-urlencoded",
-        },
-        body: new URLSearchParams({
-          From: fromNumber!,
-          To: to,
-          Body: message,
-        }),
-      }
-    );
-
-    const result = await response.json();
-
-    if (response.ok) {
-      return {
-        success: true,
-        messageId: result.sid,
-        provider: "Twilio",
+  private healthOf(provider: SmsProvider): SmsProviderHealth {
+    let health = this.health.get(provider.id);
+    if (!health) {
+      health = {
+        id: provider.id,
+        name: provider.name,
+        configured: provider.isConfigured(),
+        status: "healthy",
+        sent: 0,
+        failed: 0,
+        consecutiveFailures: 0,
       };
-    } else {
-      throw new Error(result.message || "Twilio SMS failed");
+      this.health.set(provider.id, health);
     }
+    health.configured = provider.isConfigured();
+    return health;
   }
 
-  /**
-   * Mock SMS service for development
-   */
-  private async sendViaMock(to: string, message: string): Promise<SmsResult> {
-    console.log("📱 MOCK SMS SENT:");
-    console.log(`To: ${to}`);
-    console.log(`Message: ${message}`);
-    console.log("---");
+  private isCoolingDown(provider: SmsProvider, now: number): boolean {
+    const retryAfter = this.health.get(provider.id)?.retryAfter;
+    return !!retryAfter && new Date(retryAfter).getTime() > now;
+  }
 
-    // Simulate API delay
-    await new Promise((resolve) => setTimeout(resolve, 500));
+  private recordSuccess(provider: SmsProvider, latencyMs: number) {
+    const health = this.healthOf(provider);
+    if (health.status !== "healthy") {
+      console.log(`✅ ${provider.name} SMS is healthy again`);
+    }
+    health.status = "healthy";
+    health.sent++;
+    health.consecutiveFailures = 0;
+    health.retryAfter = undefined;
+    health.lastSuccessAt = new Date().toISOString();
+    // Running average that favours recent sends
+    health.avgLatencyMs = health.avgLatencyMs
+      ? Math.round(health.avgLatencyMs * 0.8 + latencyMs * 0.2)
+      : latencyMs;
+  }
 
-    return {
-      success: true,
-      messageId: `mock_${Date.now()}`,
-      provider: "Mock SMS (Development)",
-    };
+  private recordFailure(provider: SmsProvider, error: string) {
+    const health = this.healthOf(provider);
+    health.failed++;
+    health.consecutiveFailures++;
+    health.lastFailureAt = new Date().toISOString();
+    health.lastError = error;
+
+    if (health.consecutiveFailures >= FAILURES_BEFORE_COOLDOWN) {
+      health.status = "down";
+      health.retryAfter = new Date(Date.now() + COOLDOWN_MS).toISOString();
+      console.warn(
+        `⚠️ ${provider.name} SMS failed ${health.consecutiveFailures} times in a row; trying it last for ${COOLDOWN_MS / 1000}s`
+      );
+    } else {
+      health.status = "degraded";
+    }
   }
 
   /**
@@ -201,29 +306,32 @@ if (response.ok && (result.code === "ok" || result.status === "success")) {
    */
   async sendBulkSms(
     phoneNumbers: string[],
-    message: string
+    message: string,
+    { onResult, ...options }: BulkSmsOptions = {}
   ): Promise<BulkSmsResult> {
     const results: SmsResult[] = [];
     let successCount = 0;
     let failedCount = 0;
 
-    for (const phone of phoneNumbers) {
+    for (const [index, phone] of phoneNumbers.entries()) {
+      let result: SmsResult;
       try {
-        const result = await this.sendSms(phone, message);
-        results.push(result);
-        if (result.success) {
-          successCount++;
-        } else {
-          failedCount++;
-        }
+        result = await this.sendSms(phone, message, options);
       } catch (error) {
-        results.push({
+        result = {
           success: false,
           error: error instanceof Error ? error.message : "Unknown error",
           provider: this.getProviderName(),
-        });
+        };
+      }
+
+      results.push(result);
+      if (result.success) {
+        successCount++;
+      } else {
         failedCount++;
       }
+      await onResult?.(result, index);
 
       // Small delay between messages to avoid rate limiting
       await new Promise((resolve) => setTimeout(resolve, 100));
@@ -236,33 +344,6 @@ if (response.ok && (result.code === "ok" || result.status === "success")) {
     };
   }
 
-  /**
-   * Clean and format phone number
-   */
-  private cleanPhoneNumber(phone: string): string {
-    // Remove all non-digit characters
-    let cleaned = phone.replace(/\D/g, "");
-
-    // Handle Ghana phone numbers
-    if (cleaned.startsWith("0") && cleaned.length === 10) {
-      // Convert 0241234567 to +233241234567
-      cleaned = "233" + cleaned.substring(1);
-    } else if (cleaned.startsWith("233") && cleaned.length === 12) {
-      // Already in correct format
-      cleaned = cleaned;
-    } else if (cleaned.length === 9) {
-      // Add Ghana country code
-      cleaned = "233" + cleaned;
-    }
-
-    // Add + prefix if not present
-    if (!cleaned.startsWith("+")) {
-      cleaned = "+" + cleaned;
-    }
-
-    return cleaned;
-  }
-
   /**
    * Validate phone number format
    */
@@ -272,7 +353,7 @@ if (response.ok && (result.code === "ok" || result.status === "success")) {
     error?: string;
   } {
     try {
-      const formatted = this.cleanPhoneNumber(phone);
+      const formatted = cleanPhone(phone);
 
       // Basic validation for Ghana numbers
       if (formatted.startsWith("+233") && formatted.length === 13) {
@@ -321,9 +402,11 @@ export async function sendCarRegistrationSms(
   make: string,
   model: string,
 ): Promise<SmsResult> {
-  const message = `Hi ${ownerName}! Your ${make} ${model} (${licensePlate}) has been successfully registered with Acdns Security System. Welcome aboard! 🎉`
+  return await smsService.sendSms(phone, carRegistrationMessage(ownerName, licensePlate, make, model))
+}
 
-  return await smsService.sendSms(phone, message)
+export function carRegistrationMessage(ownerName: string, licensePlate: string, make: string, model: string): string {
+  return `Hi ${ownerName}! Your ${make} ${model} (${licensePlate}) has been successfully registered with Acdns Security System. Welcome aboard! 🎉`
 }
 
 /**
@@ -351,9 +434,11 @@ export async function sendDetectionAlert(
   location: string,
   confidence: number,
 ): Promise<BulkSmsResult> {
-  const message = `Vehicle Alert: ${licensePlate} detected at ${location}. Confidence: ${confidence.toFixed(
+  return await smsService.sendBulkSms(phoneNumbers, detectionAlertMessage(licensePlate, location, confidence))
+}
+
+export function detectionAlertMessage(licensePlate: string, location: string, confidence: number): string {
+  return `Vehicle Alert: ${licensePlate} detected at ${location}. Confidence: ${confidence.toFixed(
     1,
   )}%. Time: ${new Date().toLocaleString()}`
-
-  return await smsService.sendBulkSms(phoneNumbers, message)
 }
@@ -0,0 +1,123 @@
+// =============================================
+// SMS WEBHOOKS
+// Verifies and parses the delivery receipts SMS gateways post back
+// to /api/sms/webhooks/[provider]
+// =============================================
+
+import { createHmac, timingSafeEqual } from "crypto"
+import type { SmsProviderId } from "@/lib/sms-providers"
+import type { SmsDeliveryLog } from "@/types/database"
+
+export interface DeliveryReceipt {
+  providerMessageId: string
+  status: Exclude<SmsDeliveryLog["status"], "pending">
+  error?: string
+}
+
+export interface ReceiptRequest {
+  // The URL the gateway called, as it saw it
+  url: string
+  // Query string and body fields together
+  params: Record<string, string>
+  headers: Headers
+}
+
+interface ReceiptHandler {
+  // False when the request can't be shown to come from the gateway
+  verify: (request: ReceiptRequest) => boolean
+  // null for statuses we don't track (queued, sending, ...)
+  parse: (params: Record<string, string>) => DeliveryReceipt | null
+}
+
+const safeEqual = (a: string, b: string) => {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+  return left.length === right.length && timingSafeEqual(left, right)
+}
+
+/**
+ * Twilio signs the full URL followed by every POST field, sorted by name
+ * https://www.twilio.com/docs/usage/security#validating-requests
+ */
+export function twilioSignature(authToken: string, url: string, params: Record<string, string>): string {
+  const payload = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + params[key], url)
+  return createHmac("sha1", authToken).update(payload).digest("base64")
+}
+
+const TWILIO_STATUSES: Record<string, DeliveryReceipt["status"]> = {
+  sent: "sent",
+  delivered: "delivered",
+  undelivered: "undelivered",
+  failed: "failed",
+}
+
+const ARKESEL_STATUSES: Record<string, DeliveryReceipt["status"]> = {
+  submitted: "sent",
+  sent: "sent",
+  delivered: "delivered",
+  undelivered: "undelivered",
+  rejected: "undelivered",
+  expired: "undelivered",
+  failed: "failed",
+}
+
+const RECEIPT_HANDLERS: Partial<Record<SmsProviderId, ReceiptHandler>> = {
+  twilio: {
+    verify: ({ url, params, headers }) => {
+      const authToken = process.env.TWILIO_AUTH_TOKEN
+      const signature = headers.get("x-twilio-signature")
+      if (!authToken || !signature) return false
+
+      // Twilio only signs body fields; query parameters are already in the URL
+      const fields = { ...params }
+      for (const key of new URL(url).searchParams.keys()) delete fields[key]
+      return safeEqual(signature, twilioSignature(authToken, url, fields))
+    },
+    parse: (params) => {
+      const status = TWILIO_STATUSES[params.MessageStatus?.toLowerCase()]
+      if (!params.MessageSid || !status) return null
+      return {
+        providerMessageId: params.MessageSid,
+        status,
+        error: params.ErrorCode ? `Twilio error ${params.ErrorCode}` : undefined,
+      }
+    },
+  },
+
+  // Arkesel doesn't sign callbacks; the URL carries ARKESEL_WEBHOOK_SECRET instead
+  arkesel: {
+    verify: ({ params }) => {
+      const secret = process.env.ARKESEL_WEBHOOK_SECRET
+      if (!secret) return process.env.NODE_ENV !== "production"
+      return !!params.token && safeEqual(params.token, secret)
+    },
+    parse: (params) => {
+      const providerMessageId = params.sms_id || params.id || params.message_id
+      const status = ARKESEL_STATUSES[params.status?.toLowerCase()]
+      if (!providerMessageId || !status) return null
+      return {
+        providerMessageId,
+        status,
+        error: status === "sent" || status === "delivered" ? undefined : `Arkesel reported ${params.status}`,
+      }
+    },
+  },
+}
+
+export const acceptsReceipts = (provider: SmsProviderId) => !!RECEIPT_HANDLERS[provider]
+
+/**
+ * Check a receipt came from the gateway and read it.
+ * Returns "unverified" when the signature or token doesn't match.
+ */
+export function readDeliveryReceipt(
+  provider: SmsProviderId,
+  request: ReceiptRequest,
+): DeliveryReceipt | "unverified" | null {
+  const handler = RECEIPT_HANDLERS[provider]
+  if (!handler) return null
+  if (!handler.verify(request)) return "unverified"
+  return handler.parse(request.params)
+}
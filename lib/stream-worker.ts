@@ -0,0 +1,321 @@
+// =============================================
+// STREAM WORKER
+// Headless detection for network cameras: pulls frames from each
+// active camera's rtsp_url / stream_url and runs the same tracking,
+// recording and alert pipeline as the /camera page
+// =============================================
+
+import { createServerClient } from "@/lib/supabase"
+import type { DetectedPlate } from "@/lib/detection-backend"
+import { getDetectionBackend } from "@/lib/detection-backend-config"
+import { PlateTracker } from "@/lib/plate-tracker"
+import { cleanupExpiredDetectionsThrottled, recordDetections } from "@/lib/detections"
+import {
+  checkCameraHealthThrottled,
+  getHeartbeatIntervalSeconds,
+  recordHeartbeat,
+  type HeartbeatHealth,
+} from "@/lib/camera-monitor"
+import { checkParkingOverstaysThrottled } from "@/lib/parking"
+import { getSetting } from "@/lib/system-settings"
+import { decryptCameraPassword } from "@/lib/camera-credentials"
+import { FfmpegFrameSource, isFileSource, type Frame } from "@/lib/frame-source"
+import type { FrameSize } from "@/lib/zones"
+import type { Camera } from "@/types/database"
+
+export type WorkerCamera = Pick<
+  Camera,
+  "id" | "name" | "location" | "stream_url" | "rtsp_url" | "username" | "password_encrypted" | "fps"
+>
+
+export interface StreamWorkerOptions {
+  // Only ingest these cameras (default: every active camera with a stream)
+  cameraIds?: string[]
+  // Read this file or URL as the one selected camera instead, for local testing
+  source?: string
+  // Most frames sampled per second from any camera (default DEFAULT_SAMPLE_FPS)
+  fps?: number
+}
+
+export interface StreamWorker {
+  stop: () => Promise<void>
+  // Resolves once every source has ended (file sources only; streams reconnect)
+  finished: Promise<void>
+}
+
+// Plenty for plates at a gate; cameras.fps is the camera's own frame rate,
+// so a camera only gets sampled slower when it produces fewer frames than this
+const DEFAULT_SAMPLE_FPS = 2
+const RECONNECT_MIN_MS = 2_000
+const RECONNECT_MAX_MS = 60_000
+const CAMERA_REFRESH_MS = 60_000
+
+// Browser-bound cameras keep stream_url "browser"; only real stream URLs are pulled
+const STREAM_URL = /^(rtsps?|rtmp|https?):\/\//i
+
+/**
+ * URL the worker should read for a camera, with stored credentials filled in
+ */
+export function streamUrlFor(camera: WorkerCamera, override?: string): string | null {
+  if (override) return override
+
+  const url = camera.rtsp_url || (STREAM_URL.test(camera.stream_url) ? camera.stream_url : null)
+  if (!url || !camera.username || !camera.password_encrypted) return url
+
+  const parsed = new URL(url)
+  if (parsed.username) return url
+
+  parsed.username = encodeURIComponent(camera.username)
+  parsed.password = encodeURIComponent(decryptCameraPassword(camera.password_encrypted))
+  return parsed.toString()
+}
+
+/**
+ * Redact credentials before a URL reaches the logs
+ */
+function redact(url: string): string {
+  return url.replace(/\/\/[^/@]*@/, "//***@")
+}
+
+/**
+ * One camera's frame source, plate tracker and heartbeat
+ */
+export class CameraIngestor {
+  private source: FfmpegFrameSource | null = null
+  private tracker = new PlateTracker()
+  private frameSize: FrameSize | undefined
+  private pending: Promise<void> | null = null
+  private stopped = false
+  private lastHeartbeat = 0
+  private reconnectDelay = RECONNECT_MIN_MS
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+
+  frames = 0
+  dropped = 0
+
+  constructor(
+    readonly camera: WorkerCamera,
+    private url: string,
+    private fps: number,
+    private heartbeatMs: number,
+    private onFinished: () => void,
+  ) {}
+
+  start(): void {
+    if (this.stopped) return
+    console.log(`▶️ ${this.camera.name}: reading ${redact(this.url)} at ${this.fps} fps`)
+
+    this.source = new FfmpegFrameSource({
+      url: this.url,
+      fps: this.fps,
+      onFrame: (frame) => this.handleFrame(frame),
+      onEnd: (error) => this.handleEnd(error),
+    })
+    this.source.start()
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer)
+    this.source?.stop()
+    await this.flush()
+  }
+
+  private handleFrame(frame: Frame): void {
+    this.frames++
+    this.reconnectDelay = RECONNECT_MIN_MS
+    if (frame.size) this.frameSize = frame.size
+    this.heartbeat("online")
+
+    // Detection is slower than the stream; drop frames instead of queueing them
+    if (this.pending) {
+      this.dropped++
+      return
+    }
+
+    this.pending = this.detect(frame)
+  }
+
+  private async detect(frame: Frame): Promise<void> {
+    try {
+      const backend = await getDetectionBackend()
+      const reads = await backend.detect(new Blob([new Uint8Array(frame.jpeg)], { type: "image/jpeg" }))
+      if (reads.length && (await getSetting("store_detection_frames", false))) {
+        const jpeg = frame.jpeg.toString("base64")
+        for (const read of reads) read.images = { ...read.images, frame: jpeg }
+      }
+      // Only tracks that have settled come back from the tracker
+      const plates = this.tracker.update(reads, frame.capturedAt)
+      if (plates.length) await this.record(plates, frame.capturedAt)
+    } catch (error) {
+      console.error(`Detection failed on ${this.camera.name}:`, error)
+    } finally {
+      this.pending = null
+    }
+  }
+
+  private async record(plates: DetectedPlate[], capturedAt?: number): Promise<void> {
+    try {
+      const { recorded, failed } = await recordDetections(
+        plates,
+        this.camera.id,
+        capturedAt ? new Date(capturedAt) : undefined,
+        this.frameSize,
+      )
+
+      for (const { detection, flag, alert } of recorded) {
+        console.log(
+          `🚗 ${this.camera.name}: ${detection.license_plate} (${detection.review_status})${
+            flag ? ` flagged ${flag.label},` : ""
+          } alert ${alert}`,
+        )
+      }
+      if (failed.length) console.error(`${failed.length} detection(s) could not be recorded on ${this.camera.name}`)
+    } catch (error) {
+      console.error(`Recording detections failed on ${this.camera.name}:`, error)
+    }
+  }
+
+  // Waits for the frame in flight so its plates reach the tracker first
+  private async flush(): Promise<void> {
+    await this.pending
+    const remaining = this.tracker.flush()
+    if (remaining.length) await this.record(remaining)
+  }
+
+  // Error heartbeats always go out; online ones once per interval
+  private heartbeat(health: HeartbeatHealth, reason?: string): void {
+    const now = Date.now()
+    if (health === "online" && now - this.lastHeartbeat < this.heartbeatMs) return
+    this.lastHeartbeat = now
+
+    recordHeartbeat(this.camera.id, health, reason).catch((error) =>
+      console.error(`Heartbeat failed for ${this.camera.name}:`, error),
+    )
+  }
+
+  private handleEnd(error?: Error): void {
+    this.source = null
+    if (this.stopped) return
+
+    if (!error) {
+      console.log(`⏹️ ${this.camera.name}: source ended after ${this.frames} frames (${this.dropped} dropped)`)
+      this.flush().finally(this.onFinished)
+      return
+    }
+
+    void this.flush()
+
+    console.error(`${this.camera.name}: ${error.message}; retrying in ${this.reconnectDelay / 1000}s`)
+    this.lastHeartbeat = 0
+    this.heartbeat("error", error.message)
+
+    this.reconnectTimer = setTimeout(() => this.start(), this.reconnectDelay)
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, RECONNECT_MAX_MS)
+  }
+}
+
+/**
+ * Frames per second to sample from a camera: its own frame rate, capped
+ * at the worker's rate
+ */
+export function sampleFps(camera: Pick<WorkerCamera, "fps">, cap = DEFAULT_SAMPLE_FPS): number {
+  return camera.fps > 0 ? Math.min(camera.fps, cap) : cap
+}
+
+/**
+ * Active cameras the worker can read
+ */
+async function loadWorkerCameras(options: StreamWorkerOptions): Promise<WorkerCamera[]> {
+  let query = createServerClient()
+    .from("cameras")
+    .select("id, name, location, stream_url, rtsp_url, username, password_encrypted, fps")
+    .eq("is_active", true)
+
+  if (options.cameraIds?.length) query = query.in("id", options.cameraIds)
+
+  const { data, error } = await query
+  if (error) throw error
+  return (data || []).filter(
+    (camera) => options.source || camera.rtsp_url || STREAM_URL.test(camera.stream_url),
+  )
+}
+
+/**
+ * Start ingesting every selected camera, picking up added or
+ * deactivated cameras once a minute, and run the camera and parking monitors
+ * and detection retention
+ */
+export async function startStreamWorker(options: StreamWorkerOptions = {}): Promise<StreamWorker> {
+  // Replaying one recording as several cameras would record every plate once per camera
+  if (options.source && options.cameraIds?.length !== 1) {
+    throw new Error("A source can only be replayed as exactly one camera")
+  }
+
+  const ingestors = new Map<string, CameraIngestor>()
+  const fileMode = !!options.source && isFileSource(options.source)
+  let resolveFinished: () => void = () => {}
+  const finished = new Promise<void>((resolve) => (resolveFinished = resolve))
+
+  const finishedOne = (id: string) => {
+    ingestors.delete(id)
+    if (fileMode && ingestors.size === 0) resolveFinished()
+  }
+
+  const sync = async () => {
+    const cameras = await loadWorkerCameras(options)
+    const heartbeatMs = (await getHeartbeatIntervalSeconds()) * 1000
+    const ids = new Set(cameras.map((camera) => camera.id))
+
+    for (const [id, ingestor] of ingestors) {
+      if (ids.has(id)) continue
+      console.log(`⏹️ ${ingestor.camera.name}: no longer active`)
+      ingestors.delete(id)
+      await ingestor.stop()
+    }
+
+    for (const camera of cameras) {
+      if (ingestors.has(camera.id)) continue
+      let url: string | null
+      try {
+        url = streamUrlFor(camera, options.source)
+      } catch (error) {
+        console.error(`Skipping ${camera.name}: can't read its credentials:`, error)
+        continue
+      }
+      if (!url) continue
+
+      const fps = sampleFps(camera, options.fps)
+      const ingestor = new CameraIngestor(camera, url, fps, heartbeatMs, () => finishedOne(camera.id))
+      ingestors.set(camera.id, ingestor)
+      ingestor.start()
+    }
+
+    return cameras.length
+  }
+
+  const count = await sync()
+  if (count === 0) throw new Error("No active cameras with an rtsp_url or stream_url to ingest")
+
+  // A file is read once, so there is nothing to refresh
+  const refreshTimer = fileMode
+    ? null
+    : setInterval(() => sync().catch((error) => console.error("Camera refresh failed:", error)), CAMERA_REFRESH_MS)
+
+  const monitorTimer = setInterval(() => {
+    checkCameraHealthThrottled().catch((error) => console.error("Camera monitor failed:", error))
+    checkParkingOverstaysThrottled().catch((error) => console.error("Parking monitor failed:", error))
+    cleanupExpiredDetectionsThrottled().catch((error) => console.error("Detection cleanup failed:", error))
+  }, 15_000)
+
+  return {
+    finished,
+    stop: async () => {
+      if (refreshTimer) clearInterval(refreshTimer)
+      clearInterval(monitorTimer)
+      await Promise.all([...ingestors.values()].map((ingestor) => ingestor.stop()))
+      ingestors.clear()
+      resolveFinished()
+    },
+  }
+}
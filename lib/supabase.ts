@@ -21,3 +21,9 @@ export const createServerClient = () => {
     },
   })
 }
+
+// Access token of the browser's session, for server actions that check who is calling
+export async function getAccessToken(): Promise<string | undefined> {
+  const { data } = await supabase.auth.getSession()
+  return data.session?.access_token
+}
@@ -0,0 +1,51 @@
+// =============================================
+// SYSTEM SETTINGS
+// Typed, cached access to the system_settings table
+// =============================================
+
+import { createServerClient } from "@/lib/supabase"
+
+const CACHE_TTL_MS = 60_000
+
+let cache: { values: Record<string, any>; loadedAt: number } | null = null
+
+/**
+ * Load every setting into a key/value map (cached for a minute)
+ */
+export async function getAllSettings(): Promise<Record<string, any>> {
+  if (cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) {
+    return cache.values
+  }
+
+  try {
+    const supabase = createServerClient()
+    const { data, error } = await supabase.from("system_settings").select("setting_key, setting_value")
+    if (error) throw error
+
+    const values: Record<string, any> = {}
+    for (const row of data || []) {
+      values[row.setting_key] = row.setting_value
+    }
+    cache = { values, loadedAt: Date.now() }
+    return values
+  } catch (error) {
+    console.error("Failed to load system settings:", error)
+    return cache?.values ?? {}
+  }
+}
+
+/**
+ * Read a single setting, falling back when it is missing
+ */
+export async function getSetting<T>(key: string, fallback: T): Promise<T> {
+  const settings = await getAllSettings()
+  const value = settings[key]
+  return value === undefined || value === null ? fallback : (value as T)
+}
+
+/**
+ * Drop the cached settings so the next read hits the database
+ */
+export function clearSettingsCache(): void {
+  cache = null
+}
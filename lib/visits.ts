@@ -0,0 +1,187 @@
+// =============================================
+// VEHICLE VISITS
+// Pairs entrance and exit detections into visits so we know
+// which vehicles are on site and how long they have been here
+// =============================================
+
+import { createServerClient, supabase } from "@/lib/supabase"
+import { getSetting } from "@/lib/system-settings"
+import type { Detection, VehicleVisit, VehicleVisitWithRelations } from "@/types/database"
+
+export type VisitDirection = "entry" | "exit"
+
+export const VISIT_SELECT =
+  "*, vehicles(id, license_plate, owner_name, make, model, color), entry_camera:cameras!vehicle_visits_entry_camera_id_fkey(id, name, location), exit_camera:cameras!vehicle_visits_exit_camera_id_fkey(id, name, location)"
+
+/**
+ * Entry or exit, from the entrance / exit zones recorded on the detection.
+ * A read in both kinds of zone (or neither) isn't a gate event.
+ */
+export function visitDirection(detection: Pick<Detection, "additional_data">): VisitDirection | null {
+  const types: string[] = (detection.additional_data?.zones ?? []).map((zone: { type: string }) => zone.type)
+  const entrance = types.includes("entrance")
+  const exit = types.includes("exit")
+
+  if (entrance === exit) return null
+  return entrance ? "entry" : "exit"
+}
+
+async function findOpenVisit(licensePlate: string): Promise<VehicleVisit | null> {
+  const { data, error } = await createServerClient()
+    .from("vehicle_visits")
+    .select("*")
+    .eq("license_plate", licensePlate)
+    .eq("status", "on_site")
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+async function findLastExit(licensePlate: string): Promise<VehicleVisit | null> {
+  const { data, error } = await createServerClient()
+    .from("vehicle_visits")
+    .select("*")
+    .eq("license_plate", licensePlate)
+    .not("exited_at", "is", null)
+    .order("exited_at", { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+async function openVisit(detection: Detection): Promise<VehicleVisit> {
+  const { data, error } = await createServerClient()
+    .from("vehicle_visits")
+    .insert({
+      license_plate: detection.license_plate,
+      vehicle_id: detection.vehicle_id ?? null,
+      status: "on_site",
+      entered_at: detection.detection_timestamp,
+      entry_detection_id: detection.id,
+      entry_camera_id: detection.camera_id,
+    })
+    .select()
+    .single()
+
+  // Another reader opened it first (one open visit per plate)
+  if (error?.code === "23505") {
+    const existing = await findOpenVisit(detection.license_plate)
+    if (existing) return existing
+  }
+  if (error) throw error
+  return data
+}
+
+/**
+ * Update a visit with an entrance or exit detection. Reads still waiting for
+ * review (or rejected) are ignored until an operator confirms them.
+ */
+export async function recordVisitEvent(detection: Detection): Promise<VehicleVisit | null> {
+  if (detection.review_status === "needs_review" || detection.review_status === "rejected") return null
+
+  const direction = visitDirection(detection)
+  if (!direction) return null
+
+  const supabase = createServerClient()
+  const open = await findOpenVisit(detection.license_plate)
+  const graceMinutes = Number(await getSetting("visit_reentry_grace_minutes", 5))
+
+  if (direction === "entry") {
+    if (open) {
+      // A car idling at the gate is read more than once on the way in
+      const sinceEntry = new Date(detection.detection_timestamp).getTime() - new Date(open.entered_at ?? 0).getTime()
+      if (sinceEntry < graceMinutes * 60 * 1000) return open
+
+      const { error } = await supabase
+        .from("vehicle_visits")
+        .update({ status: "missed_exit" })
+        .eq("id", open.id)
+        .eq("status", "on_site")
+      if (error) throw error
+    }
+    return openVisit(detection)
+  }
+
+  if (open) {
+    const { data, error } = await supabase
+      .from("vehicle_visits")
+      .update({
+        status: "exited",
+        exited_at: detection.detection_timestamp,
+        exit_detection_id: detection.id,
+        exit_camera_id: detection.camera_id,
+        vehicle_id: open.vehicle_id ?? detection.vehicle_id ?? null,
+      })
+      .eq("id", open.id)
+      .eq("status", "on_site")
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    if (data) return data
+  }
+
+  // Likewise on the way out: a repeat exit read belongs to the visit that just ended
+  const last = await findLastExit(detection.license_plate)
+  if (last) {
+    const sinceExit = new Date(detection.detection_timestamp).getTime() - new Date(last.exited_at!).getTime()
+    if (sinceExit >= 0 && sinceExit < graceMinutes * 60 * 1000) return last
+  }
+
+  const { data, error } = await supabase
+    .from("vehicle_visits")
+    .insert({
+      license_plate: detection.license_plate,
+      vehicle_id: detection.vehicle_id ?? null,
+      status: "missed_entry",
+      exited_at: detection.detection_timestamp,
+      exit_detection_id: detection.id,
+      exit_camera_id: detection.camera_id,
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+/**
+ * Vehicles currently on site, longest stay first
+ */
+export async function getVehiclesOnSite(client = supabase): Promise<VehicleVisitWithRelations[]> {
+  const { data, error } = await client
+    .from("vehicle_visits")
+    .select(VISIT_SELECT)
+    .eq("status", "on_site")
+    .order("entered_at", { ascending: true })
+
+  if (error) throw error
+  return (data || []) as VehicleVisitWithRelations[]
+}
+
+/**
+ * Length of a visit in milliseconds, up to now while the vehicle is still on site
+ */
+export function visitDuration(visit: Pick<VehicleVisit, "entered_at" | "exited_at">, now: Date = new Date()): number | null {
+  if (!visit.entered_at) return null
+  const end = visit.exited_at ? new Date(visit.exited_at) : now
+  return end.getTime() - new Date(visit.entered_at).getTime()
+}
+
+/**
+ * Human-readable duration, e.g. "2h 15m"
+ */
+export function formatDuration(ms: number | null): string {
+  if (ms === null) return "—"
+  const minutes = Math.max(0, Math.floor(ms / 60000))
+  const days = Math.floor(minutes / 1440)
+  const hours = Math.floor((minutes % 1440) / 60)
+  const mins = minutes % 60
+
+  if (days) return `${days}d ${hours}h`
+  if (hours) return `${hours}h ${mins}m`
+  return `${mins}m`
+}
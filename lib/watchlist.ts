@@ -0,0 +1,83 @@
+// =============================================
+// WATCHLIST
+// Flags plates that should alert security instead of the owner:
+// blocked / expired registered vehicles and watchlist entries
+// =============================================
+
+import { createServerClient } from "@/lib/supabase"
+import { plateKey } from "@/lib/plate-format"
+import type { Vehicle, WatchlistEntry } from "@/types/database"
+
+export interface PlateFlag {
+  source: "vehicle" | "watchlist" | "zone"
+  reason: string
+  label: string
+  priority: WatchlistEntry["priority"]
+  watchlistId?: string
+  zoneId?: string
+  recipientIds?: string[] | null
+  cooldownMinutes?: number | null
+}
+
+const FLAG_LABELS: Record<string, string> = {
+  blocked: "blocked vehicle",
+  expired: "expired registration",
+  stolen: "reported stolen",
+  wanted: "wanted vehicle",
+  banned: "banned from site",
+  other: "watchlisted plate",
+}
+
+/**
+ * Look up an active, unexpired watchlist entry for a plate, ignoring spaces and hyphens
+ */
+export async function findWatchlistEntry(plate: string): Promise<WatchlistEntry | null> {
+  const supabase = createServerClient()
+  const { data, error } = await supabase
+    .from("watchlist")
+    .select("*")
+    .eq("plate_key", plateKey(plate))
+    .eq("is_active", true)
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+export type VehicleStanding = "registered" | "blocked" | "expired"
+
+/**
+ * Whether a registered vehicle is cleared to be on site. Inactive vehicles
+ * and those past their expiry_date count as expired.
+ */
+export function vehicleStanding(vehicle: Pick<Vehicle, "status" | "expiry_date">, now = new Date()): VehicleStanding {
+  if (vehicle.status === "blocked") return "blocked"
+  if (vehicle.status !== "active" || (vehicle.expiry_date && new Date(vehicle.expiry_date) < now)) return "expired"
+  return "registered"
+}
+
+/**
+ * Work out whether a sighting should raise a security alert.
+ * A registered vehicle's own status wins over any watchlist entry for the same plate.
+ */
+export async function getPlateFlag(plate: string, vehicle: Vehicle | null): Promise<PlateFlag | null> {
+  const standing = vehicle && vehicleStanding(vehicle)
+  if (standing && standing !== "registered") {
+    return { source: "vehicle", reason: standing, label: FLAG_LABELS[standing], priority: "high" }
+  }
+
+  const entry = await findWatchlistEntry(plate)
+  if (!entry) return null
+
+  return {
+    source: "watchlist",
+    reason: entry.reason,
+    label: FLAG_LABELS[entry.reason] ?? FLAG_LABELS.other,
+    priority: entry.priority,
+    watchlistId: entry.id,
+    recipientIds: entry.notify_recipient_ids,
+    cooldownMinutes: entry.alert_cooldown_minutes,
+  }
+}
@@ -0,0 +1,96 @@
+// =============================================
+// CAMERA ZONES
+// Polygon zones drawn over a camera's frame. Vertices are stored
+// as fractions (0-1) of the frame so they survive resolution changes.
+// =============================================
+
+import { createServerClient } from "@/lib/supabase"
+import type { PlateFlag } from "@/lib/watchlist"
+import type { BoundingBox, CameraZone, Coordinate } from "@/types/database"
+
+export interface FrameSize {
+  width: number
+  height: number
+}
+
+export interface ZoneMatch {
+  // Outside every detection zone on a camera that defines some
+  ignored: boolean
+  zones: CameraZone[]
+  // Restricted zones with alert_enabled that the plate is in
+  alerting: CameraZone[]
+}
+
+/**
+ * Ray-casting point-in-polygon test
+ */
+export function pointInPolygon(point: Coordinate, polygon: Coordinate[]): boolean {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+    if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+/**
+ * Centre of a bounding box as a fraction of the frame.
+ * Boxes already in 0-1 units are used as-is when no frame size is known.
+ */
+export function normalizedCenter(bbox: BoundingBox, frame?: FrameSize): Coordinate | null {
+  const cx = bbox.x + bbox.width / 2
+  const cy = bbox.y + bbox.height / 2
+
+  if (frame?.width && frame?.height) return { x: cx / frame.width, y: cy / frame.height }
+  if (cx <= 1 && cy <= 1) return { x: cx, y: cy }
+  return null
+}
+
+/**
+ * Active zones for a camera
+ */
+export async function getCameraZones(cameraId: string): Promise<CameraZone[]> {
+  const supabase = createServerClient()
+  const { data, error } = await supabase
+    .from("camera_zones")
+    .select("*")
+    .eq("camera_id", cameraId)
+    .eq("is_active", true)
+
+  if (error) throw error
+  return data || []
+}
+
+/**
+ * Check a plate's bounding box against a camera's zones.
+ * Plates without a usable box are never ignored, so cameras without zones behave as before.
+ */
+export function matchZones(zones: CameraZone[], bbox?: BoundingBox, frame?: FrameSize): ZoneMatch {
+  const center = bbox ? normalizedCenter(bbox, frame) : null
+  if (!center) return { ignored: false, zones: [], alerting: [] }
+
+  const matched = zones.filter((zone) => zone.coordinates.length >= 3 && pointInPolygon(center, zone.coordinates))
+  const hasDetectionZones = zones.some((zone) => zone.zone_type === "detection")
+
+  return {
+    ignored: hasDetectionZones && !matched.some((zone) => zone.zone_type === "detection"),
+    zones: matched,
+    alerting: matched.filter((zone) => zone.zone_type === "restricted" && zone.alert_enabled),
+  }
+}
+
+/**
+ * Security alert flag for a plate seen inside a restricted zone
+ */
+export function restrictedZoneFlag(zone: CameraZone): PlateFlag {
+  return {
+    source: "zone",
+    reason: "restricted",
+    label: `in restricted zone ${zone.zone_name}`,
+    priority: "high",
+    zoneId: zone.id,
+  }
+}
@@ -11,6 +11,10 @@ const nextConfig = {
   },
   experimental: {
     serverComponentsExternalPackages: ['@supabase/supabase-js'],
+    // Detections can carry a full frame for image storage
+    serverActions: {
+      bodySizeLimit: '8mb',
+    },
   },
 }
 
@@ -0,0 +1,39 @@
+-- =============================================
+-- Normalize Stored Plates
+-- Run this in your Supabase SQL Editor on databases created before
+-- vehicles.plate_key existed. Older rows were saved with toUpperCase()
+-- only; this trims them and collapses runs of spaces (as normalizePlate
+-- does) and adds the plate_key columns plate lookups match on.
+-- =============================================
+
+-- Plates that only differ in spacing collide on the UNIQUE constraint;
+-- list them first and merge or delete the duplicates by hand
+SELECT regexp_replace(BTRIM(UPPER(license_plate)), '\s+', ' ', 'g') AS plate, COUNT(*)
+FROM public.vehicles
+GROUP BY 1
+HAVING COUNT(*) > 1;
+
+UPDATE public.vehicles
+SET license_plate = regexp_replace(BTRIM(UPPER(license_plate)), '\s+', ' ', 'g')
+WHERE license_plate <> regexp_replace(BTRIM(UPPER(license_plate)), '\s+', ' ', 'g');
+
+ALTER TABLE public.vehicles
+    ADD COLUMN IF NOT EXISTS plate_key VARCHAR(20)
+    GENERATED ALWAYS AS (regexp_replace(UPPER(license_plate), '[^A-Z0-9]', '', 'g')) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_vehicles_plate_key ON public.vehicles(plate_key);
+
+SELECT regexp_replace(BTRIM(UPPER(license_plate)), '\s+', ' ', 'g') AS plate, COUNT(*)
+FROM public.watchlist
+GROUP BY 1
+HAVING COUNT(*) > 1;
+
+UPDATE public.watchlist
+SET license_plate = regexp_replace(BTRIM(UPPER(license_plate)), '\s+', ' ', 'g')
+WHERE license_plate <> regexp_replace(BTRIM(UPPER(license_plate)), '\s+', ' ', 'g');
+
+ALTER TABLE public.watchlist
+    ADD COLUMN IF NOT EXISTS plate_key VARCHAR(20)
+    GENERATED ALWAYS AS (regexp_replace(UPPER(license_plate), '[^A-Z0-9]', '', 'g')) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_watchlist_plate_key ON public.watchlist(plate_key);
@@ -0,0 +1,102 @@
+import { describe, expect, test } from "bun:test"
+import { runBatchDetection, sortImageFiles, type SampledFrame } from "@/lib/batch-detection"
+import type { DetectedPlate, DetectionBackend } from "@/lib/detection-backend"
+
+const file = (name: string, type = "image/jpeg") => new File(["x"], name, { type })
+
+// Replays canned reads, one list per frame, in the order frames are detected
+function scriptedBackend(readsPerFrame: DetectedPlate[][]): DetectionBackend {
+  let call = 0
+  return {
+    name: "scripted",
+    detect: async () => readsPerFrame[call++] ?? [],
+    checkHealth: async () => true,
+  }
+}
+
+async function* frames(times: number[], sourceFile = "gate.mp4"): AsyncGenerator<SampledFrame> {
+  for (const [index, time] of times.entries()) {
+    yield {
+      blob: new Blob(["frame"]),
+      size: { width: 1280, height: 720 },
+      time,
+      offset: index * 2,
+      sourceFile,
+      index,
+      total: times.length,
+    }
+  }
+}
+
+describe("sortImageFiles", () => {
+  test("orders frames by natural filename order", () => {
+    const sorted = sortImageFiles([file("frame_10.jpg"), file("frame_2.jpg"), file("frame_1.jpg")])
+    expect(sorted.map((f) => f.name)).toEqual(["frame_1.jpg", "frame_2.jpg", "frame_10.jpg"])
+  })
+
+  test("keeps images by MIME type or extension and drops everything else", () => {
+    const sorted = sortImageFiles([
+      file("notes.txt", "text/plain"),
+      file("b.PNG", ""),
+      file("a", "image/webp"),
+      file("clip.mp4", "video/mp4"),
+    ])
+    expect(sorted.map((f) => f.name)).toEqual(["a", "b.PNG"])
+  })
+})
+
+describe("runBatchDetection", () => {
+  test("merges repeat reads of one car into a timeline entry at its first frame", async () => {
+    const backend = scriptedBackend([
+      [{ plate: "GR 1234-21", ocr_conf: 0.9, bbox: [10, 10, 110, 50] }],
+      [{ plate: "GR 1234-2I", ocr_conf: 0.6, bbox: [12, 10, 112, 50] }],
+      [{ plate: "GR 1234-21", ocr_conf: 0.8, bbox: [14, 10, 114, 50] }],
+    ])
+
+    const timeline = await runBatchDetection(frames([1_000, 3_000, 5_000]), backend, 2)
+
+    expect(timeline).toHaveLength(1)
+    expect(timeline[0]).toMatchObject({
+      plate: "GR 1234-21",
+      captured_at: 1_000,
+      offset: 0,
+      sourceFile: "gate.mp4",
+      frameSize: { width: 1280, height: 720 },
+      consensus: { reads: 3 },
+    })
+  })
+
+  test("lists separate cars in time order with their own frames", async () => {
+    const backend = scriptedBackend([
+      [{ plate: "AS 555-20", ocr_conf: 0.9 }],
+      [],
+      [],
+      [],
+      [{ plate: "GT 8080-19", ocr_conf: 0.9 }],
+    ])
+
+    const timeline = await runBatchDetection(frames([0, 10_000, 20_000, 30_000, 40_000]), backend, 10)
+
+    expect(timeline.map((entry) => [entry.plate, entry.captured_at, entry.offset])).toEqual([
+      ["AS 555-20", 0, 0],
+      ["GT 8080-19", 40_000, 8],
+    ])
+  })
+
+  test("matches plates to their own frame when image files share a timestamp", async () => {
+    const backend = scriptedBackend([[{ plate: "AS 555-20", ocr_conf: 0.9 }], [], [{ plate: "GT 8080-19", ocr_conf: 0.9 }]])
+
+    const timeline = await runBatchDetection(frames([5_000, 5_000, 5_000], "frames"), backend, 60)
+
+    expect(timeline.map((entry) => [entry.plate, entry.captured_at, entry.offset])).toEqual([
+      ["AS 555-20", 5_000, 0],
+      ["GT 8080-19", 5_000, 4],
+    ])
+  })
+
+  test("reports progress after every frame", async () => {
+    const progress: number[] = []
+    await runBatchDetection(frames([0, 1_000, 2_000]), scriptedBackend([]), 1, (p) => progress.push(p.processed))
+    expect(progress).toEqual([1, 2, 3])
+  })
+})
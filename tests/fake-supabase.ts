@@ -0,0 +1,105 @@
+// =============================================
+// FAKE SUPABASE
+// Stands in for the PostgREST API at NEXT_PUBLIC_SUPABASE_URL by
+// replacing fetch. Tables are plain arrays of rows; only what the code
+// under test uses is supported (select / insert / update / delete with
+// eq, in and is filters, order and limit, .single(), and RPCs given as
+// functions over the tables).
+// =============================================
+
+type Row = Record<string, any>
+
+export type FakeTables = Record<string, Row[]>
+export type FakeRpc = (tables: FakeTables, args: Record<string, any>) => unknown
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } })
+
+const MODIFIERS = ["select", "order", "limit"]
+
+// PostgREST filters look like column=eq.value, column=in.(a,"b") or column=not.is.null
+function matches(row: Row, params: URLSearchParams): boolean {
+  for (const [column, filter] of params) {
+    if (MODIFIERS.includes(column)) continue
+    const [, not, operator, value] = filter.match(/^(not\.)?(\w+)\.(.*)$/) ?? []
+    let match = true
+    if (operator === "eq") match = String(row[column]) === value
+    if (operator === "is") match = value === "null" ? row[column] == null : String(row[column]) === value
+    if (operator === "in") {
+      const values = value.replace(/^\(|\)$/g, "").split(",").map((v) => v.replace(/^"|"$/g, ""))
+      match = values.includes(String(row[column]))
+    }
+    if (match === !!not) return false
+  }
+  return true
+}
+
+// order=column.desc and limit=n
+function arrange(rows: Row[], params: URLSearchParams): Row[] {
+  const [column, direction] = params.get("order")?.split(".") ?? []
+  const sorted = column
+    ? [...rows].sort((a, b) => (a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0) * (direction === "desc" ? -1 : 1))
+    : rows
+  const limit = params.get("limit")
+  return limit ? sorted.slice(0, Number(limit)) : sorted
+}
+
+const pick = (row: Row, select: string | null) =>
+  !select || select === "*" ? { ...row } : Object.fromEntries(select.split(",").map((column) => [column, row[column]]))
+
+/**
+ * Serve Supabase requests from tables until the returned restore is called
+ */
+export function fakeSupabase(tables: FakeTables, rpcs: Record<string, FakeRpc> = {}): () => void {
+  const realFetch = globalThis.fetch
+  const base = `${process.env.NEXT_PUBLIC_SUPABASE_URL}/rest/v1/`
+
+  const fake = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const request = new Request(input, init)
+    if (!request.url.startsWith(base)) return realFetch(input, init)
+
+    const url = new URL(request.url)
+    const path = url.pathname.slice(new URL(base).pathname.length)
+    const body = request.method === "GET" ? undefined : await request.json().catch(() => undefined)
+
+    if (path.startsWith("rpc/")) {
+      const rpc = rpcs[path.slice(4)]
+      if (!rpc) return json({ message: `Unknown function ${path}` }, 404)
+      return json(rpc(tables, body ?? {}) ?? null)
+    }
+
+    const rows = (tables[path] ?? []).filter((row) => matches(row, url.searchParams))
+    const select = url.searchParams.get("select")
+    const respond = (result: Row[], status = 200) => {
+      // .single() asks for one object instead of an array
+      if (request.headers.get("Accept")?.startsWith("application/vnd.pgrst.object+json")) {
+        if (result.length !== 1) return json({ code: "PGRST116", message: `${result.length} rows returned` }, 406)
+        return json(pick(result[0], select), status)
+      }
+      return json(result.map((row) => pick(row, select)), status)
+    }
+
+    switch (request.method) {
+      case "GET":
+        return respond(arrange(rows, url.searchParams))
+      case "POST": {
+        const inserted = [body].flat().map((row: Row) => ({ id: crypto.randomUUID(), ...row }))
+        tables[path] = [...(tables[path] ?? []), ...inserted]
+        return respond(inserted, 201)
+      }
+      case "PATCH":
+        for (const row of rows) Object.assign(row, body)
+        return respond(rows)
+      case "DELETE":
+        tables[path] = (tables[path] ?? []).filter((row) => !rows.includes(row))
+        return respond(rows)
+      default:
+        return json({ message: `${request.method} is not supported` }, 405)
+    }
+  }
+
+  globalThis.fetch = Object.assign(fake, { preconnect: realFetch.preconnect }) as typeof fetch
+  return () => {
+    globalThis.fetch = realFetch
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, expect, test } from "bun:test"
+import { JpegSplitter, jpegSize } from "@/lib/frame-source"
+import { sampleFps } from "@/lib/stream-worker"
+
+// A minimal JPEG: SOI, an APP0 segment, a baseline SOF0 header and EOI
+function jpeg(width: number, height: number, sof = 0xc0): Buffer {
+  const app0 = [0xff, 0xe0, 0x00, 0x06, 0x4a, 0x46, 0x49, 0x46]
+  const sofSegment = [0xff, sof, 0x00, 0x0b, 0x08, height >> 8, height & 0xff, width >> 8, width & 0xff, 0x01, 0x01, 0x11, 0x00]
+  return Buffer.from([0xff, 0xd8, ...app0, ...sofSegment, 0x12, 0x34, 0xff, 0xd9])
+}
+
+describe("jpegSize", () => {
+  test("reads the size from the start-of-frame marker after other segments", () => {
+    expect(jpegSize(jpeg(1280, 720))).toEqual({ width: 1280, height: 720 })
+  })
+
+  test("reads progressive frames too", () => {
+    expect(jpegSize(jpeg(640, 480, 0xc2))).toEqual({ width: 640, height: 480 })
+  })
+
+  test("skips DHT segments, which share the SOF marker range", () => {
+    const dht = Buffer.from([0xff, 0xc4, 0x00, 0x06, 0x00, 0x00, 0x00, 0x00])
+    const image = jpeg(320, 240)
+    expect(jpegSize(Buffer.concat([image.subarray(0, 2), dht, image.subarray(2)]))).toEqual({ width: 320, height: 240 })
+  })
+
+  test("gives up on data that isn't a marker or is cut short", () => {
+    expect(jpegSize(Buffer.from([0xff, 0xd8, 0x00, 0x01, 0x02, 0x03, 0x04, 0x05, 0x06, 0x07, 0x08, 0x09]))).toBeNull()
+    expect(jpegSize(jpeg(1280, 720).subarray(0, 14))).toBeNull()
+  })
+})
+
+describe("JpegSplitter", () => {
+  test("splits concatenated frames from one chunk", () => {
+    const first = jpeg(1280, 720)
+    const second = jpeg(640, 480)
+    const frames = new JpegSplitter().push(Buffer.concat([first, second]))
+
+    expect(frames).toEqual([first, second])
+  })
+
+  test("holds a partial frame until the rest arrives", () => {
+    const image = jpeg(1280, 720)
+    const splitter = new JpegSplitter()
+
+    expect(splitter.push(image.subarray(0, 10))).toEqual([])
+    expect(splitter.push(image.subarray(10))).toEqual([image])
+  })
+
+  test("finds an end marker split across chunks", () => {
+    const image = jpeg(1280, 720)
+    const splitter = new JpegSplitter()
+
+    expect(splitter.push(image.subarray(0, image.length - 1))).toEqual([])
+    expect(splitter.push(image.subarray(image.length - 1))).toEqual([image])
+  })
+
+  test("finds a start marker split across chunks", () => {
+    const image = jpeg(1280, 720)
+    const splitter = new JpegSplitter()
+
+    expect(splitter.push(Buffer.from([0x00, 0x00, 0xff]))).toEqual([])
+    expect(splitter.push(image.subarray(1))).toEqual([image])
+  })
+
+  test("drops bytes before the first start marker", () => {
+    const image = jpeg(1280, 720)
+    expect(new JpegSplitter().push(Buffer.concat([Buffer.from([0x01, 0x02]), image]))).toEqual([image])
+  })
+})
+
+describe("sampleFps", () => {
+  test("samples at the cap when the camera is faster", () => {
+    expect(sampleFps({ fps: 30 })).toBe(2)
+    expect(sampleFps({ fps: 30 }, 5)).toBe(5)
+  })
+
+  test("samples at the camera's own rate when it is slower than the cap", () => {
+    expect(sampleFps({ fps: 1 })).toBe(1)
+  })
+
+  test("falls back to the cap when the camera's rate is unset", () => {
+    expect(sampleFps({ fps: null as unknown as number })).toBe(2)
+    expect(sampleFps({ fps: 0 }, 4)).toBe(4)
+  })
+})
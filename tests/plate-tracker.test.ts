@@ -0,0 +1,87 @@
+import { describe, expect, test } from "bun:test"
+import type { DetectedPlate } from "@/lib/detection-backend"
+import { PlateTracker } from "@/lib/plate-tracker"
+
+const read = (plate: string, ocr_conf: number, bbox?: number[]): DetectedPlate => ({ plate, ocr_conf, bbox })
+
+// Feeds one read per frame, a second apart, then waits out the gap so the track closes
+function track(reads: DetectedPlate[], tracker = new PlateTracker()) {
+  const emitted = reads.flatMap((r, i) => tracker.update([r], i * 1000))
+  return [...emitted, ...tracker.update([], reads.length * 1000 + 5000)]
+}
+
+describe("per-character voting", () => {
+  test("the reads agreeing on a character outvote a jittery one", () => {
+    const [plate] = track([read("GR 1234-20", 0.9), read("GR 1284-20", 0.6), read("GR 1234-20", 0.8)])
+
+    expect(plate.plate).toBe("GR 1234-20")
+    expect(plate.consensus).toEqual({ reads: 3, candidates: ["GR 1234-20", "GR 1284-20"] })
+    expect(plate.captured_at).toBe(0)
+  })
+
+  test("votes are weighted by confidence, not counted", () => {
+    const [plate] = track([read("GR 1284-20", 0.3), read("GR 1284-20", 0.3), read("GR 1234-20", 0.95)])
+
+    expect(plate.plate).toBe("GR 1234-20")
+  })
+
+  test("reads of a length that lost the length vote don't take part", () => {
+    const [plate] = track([read("GR 1234-20", 0.6), read("GR 1234-2", 0.9), read("GR 1234-20", 0.6)])
+
+    expect(plate.plate).toBe("GR 1234-20")
+  })
+
+  test("reads far apart in text and position are separate vehicles", () => {
+    const plates = track([read("GR 1234-20", 0.9, [0, 0, 100, 40]), read("AS 9876-19", 0.9, [500, 300, 600, 340])])
+
+    expect(plates.map((p) => p.plate).sort()).toEqual(["AS 9876-19", "GR 1234-20"])
+  })
+})
+
+describe("minimum frame support", () => {
+  test("nothing is emitted while the vehicle is still in view", () => {
+    const tracker = new PlateTracker()
+
+    expect(tracker.update([read("GR 1234-20", 0.9)], 0)).toEqual([])
+    expect(tracker.update([read("GR 1234-20", 0.9)], 1000)).toEqual([])
+    expect(tracker.update([], 3000)).toEqual([])
+    expect(tracker.update([], 3600)).toHaveLength(1)
+  })
+
+  test("a plate read in a single frame is still emitted once its track closes", () => {
+    const [plate] = track([read("GR 1234-20", 0.7)])
+
+    expect(plate.plate).toBe("GR 1234-20")
+    expect(plate.ocr_conf).toBe(0.7)
+    expect(plate.consensus?.reads).toBe(1)
+  })
+
+  test("a parked vehicle is emitted once after the longest track time, not again", () => {
+    const tracker = new PlateTracker({ maxTrackMs: 5000 })
+    const emitted = Array.from({ length: 12 }, (_, i) => tracker.update([read("GR 1234-20", 0.9)], i * 1000)).flat()
+
+    expect(emitted).toHaveLength(1)
+    expect(tracker.flush()).toEqual([])
+  })
+})
+
+describe("combined confidence", () => {
+  test("agreeing reads are more certain together than alone", () => {
+    const [plate] = track([read("GR 1234-20", 0.6), read("GR 1234-20", 0.6)])
+
+    expect(plate.ocr_conf).toBeCloseTo(1 - 0.4 * 0.4, 4)
+  })
+
+  test("the weakest character bounds the plate and dissent pulls it down", () => {
+    const [plate] = track([read("GR 1234-20", 0.9), read("GR 1284-20", 0.6), read("GR 1234-20", 0.8)])
+
+    // Third digit: 0.9 and 0.8 agree (1 - 0.1 * 0.2) against 0.6 dissenting (support 1.7 / 2.3)
+    expect(plate.ocr_conf).toBeCloseTo((1 - 0.1 * 0.2) * (1.7 / 2.3), 4)
+  })
+
+  test("percentage confidences are read as fractions", () => {
+    const [plate] = track([read("GR 1234-20", 80)])
+
+    expect(plate.ocr_conf).toBe(0.8)
+  })
+})
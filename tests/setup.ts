@@ -0,0 +1,10 @@
+// =============================================
+// TEST SETUP
+// Environment for modules that build Supabase clients at import time.
+// Nothing is ever sent to this URL; tests that touch the database
+// replace fetch with a fake.
+// =============================================
+
+process.env.NEXT_PUBLIC_SUPABASE_URL ??= "http://supabase.test"
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ??= "test-anon-key"
+process.env.SUPABASE_SERVICE_ROLE_KEY ??= "test-service-role-key"
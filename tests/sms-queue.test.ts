@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from "bun:test"
+import { processSmsQueue, retryDelayMs } from "@/lib/sms-queue"
+import { smsService } from "@/lib/sms-service"
+import type { SmsResult } from "@/lib/sms-providers"
+import { clearSettingsCache } from "@/lib/system-settings"
+import { fakeSupabase, type FakeTables } from "./fake-supabase"
+
+const SECOND = 1000
+
+let tables: FakeTables
+let restore: () => void
+let refreshed: string[]
+
+// Same selection as claim_sms_jobs in database/schema.sql
+function claimSmsJobs(tables: FakeTables, { p_worker, p_limit }: Record<string, any>) {
+  const due = tables.sms_jobs
+    .filter((job) => job.status === "queued" && Date.parse(job.run_at) <= Date.now())
+    .slice(0, p_limit)
+  for (const job of due) {
+    Object.assign(job, { status: "sending", locked_by: p_worker, locked_at: new Date().toISOString(), attempts: job.attempts + 1 })
+  }
+  return due.map((job) => ({ ...job }))
+}
+
+const job = () => tables.sms_jobs[0]
+const delivery = () => tables.sms_delivery_log[0]
+const sendResults = (...results: SmsResult[]) => {
+  const send = spyOn(smsService, "sendSms")
+  for (const result of results) send.mockResolvedValueOnce(result)
+  return send
+}
+const timeout: SmsResult = { success: false, retryable: true, error: "Gateway timed out", provider: "Twilio" }
+
+// Makes a retried job due again without waiting out its backoff
+async function runDue() {
+  job().run_at = new Date(Date.now() - SECOND).toISOString()
+  return processSmsQueue()
+}
+
+beforeEach(() => {
+  clearSettingsCache()
+  refreshed = []
+  tables = {
+    system_settings: [{ setting_key: "sms_queue_concurrency", setting_value: 1 }],
+    sms_messages: [{ id: "msg-1", message_content: "Gate alert", sent_by: null, status: "pending" }],
+    sms_delivery_log: [{ id: "d-1", message_id: "msg-1", phone: "233241234567", status: "pending" }],
+    sms_jobs: [
+      {
+        id: "job-1",
+        message_id: "msg-1",
+        delivery_id: "d-1",
+        phone: "233241234567",
+        status: "queued",
+        attempts: 0,
+        max_attempts: 3,
+        run_at: new Date(Date.now() - SECOND).toISOString(),
+        attempt_log: [],
+      },
+    ],
+  }
+  restore = fakeSupabase(tables, {
+    claim_sms_jobs: claimSmsJobs,
+    refresh_sms_message_status: (_, { p_message_id }) => void refreshed.push(p_message_id),
+  })
+})
+
+afterEach(() => {
+  restore()
+  mock.restore()
+  clearSettingsCache()
+})
+
+describe("attempt history", () => {
+  test("a sent job records its attempt and the delivery", async () => {
+    const send = sendResults({ success: true, messageId: "SM1", provider: "Twilio" })
+
+    expect(await processSmsQueue()).toEqual({ sent: 1, retried: 0, deferred: 0, dead: 0 })
+    expect(send).toHaveBeenCalledWith("233241234567", "Gate alert", { sentBy: null })
+    expect(job()).toMatchObject({ status: "sent", attempts: 1, locked_by: null })
+    expect(job().attempt_log).toEqual([{ attempt: 1, at: expect.any(String), provider: "Twilio", outcome: "sent" }])
+    expect(delivery()).toMatchObject({ status: "sent", provider: "Twilio", provider_message_id: "SM1" })
+    expect(refreshed).toEqual(["msg-1"])
+  })
+
+  test("every attempt is appended, and a retry leaves the recipient pending", async () => {
+    sendResults(timeout, { ...timeout, error: "HTTP 503", provider: "Arkesel" })
+
+    await processSmsQueue()
+    await runDue()
+
+    expect(job().attempt_log.map((a: any) => [a.attempt, a.provider, a.outcome, a.error])).toEqual([
+      [1, "Twilio", "retried", "Gateway timed out"],
+      [2, "Arkesel", "retried", "HTTP 503"],
+    ])
+    expect(job()).toMatchObject({ status: "queued", attempts: 2, last_error: "HTTP 503" })
+    expect(delivery()).toMatchObject({ status: "pending", error_message: "HTTP 503" })
+    expect(refreshed).toEqual([])
+  })
+
+  test("a send held back by a rate limit hands its attempt back", async () => {
+    const retryAfter = new Date(Date.now() + 60 * SECOND).toISOString()
+    sendResults({ success: false, error: "Hourly SMS limit reached", provider: "None", retryAfter })
+
+    expect(await processSmsQueue()).toMatchObject({ deferred: 1 })
+    expect(job()).toMatchObject({ status: "queued", attempts: 0, run_at: retryAfter })
+    expect(job().attempt_log[0].outcome).toBe("deferred")
+  })
+})
+
+describe("backoff scheduling", () => {
+  test("a retry is scheduled about 30 seconds out, then twice as long each time", async () => {
+    sendResults(timeout, timeout)
+
+    const firstRun = Date.now()
+    await processSmsQueue()
+    const firstDelay = Date.parse(job().run_at) - firstRun
+    expect(firstDelay).toBeGreaterThanOrEqual(24 * SECOND - SECOND)
+    expect(firstDelay).toBeLessThanOrEqual(36 * SECOND + SECOND)
+
+    // Not due yet, so nothing is claimed
+    expect(await processSmsQueue()).toEqual({ sent: 0, retried: 0, deferred: 0, dead: 0 })
+
+    const secondRun = Date.now()
+    await runDue()
+    const secondDelay = Date.parse(job().run_at) - secondRun
+    expect(secondDelay).toBeGreaterThanOrEqual(48 * SECOND - SECOND)
+    expect(secondDelay).toBeLessThanOrEqual(72 * SECOND + SECOND)
+  })
+
+  test("delays stop growing at an hour, give or take the jitter", () => {
+    for (const attempt of [8, 12, 20]) {
+      expect(retryDelayMs(attempt)).toBeGreaterThanOrEqual(48 * 60 * SECOND)
+      expect(retryDelayMs(attempt)).toBeLessThanOrEqual(72 * 60 * SECOND)
+    }
+  })
+})
+
+describe("dead-lettering", () => {
+  test("a job still failing on its last attempt is dead-lettered", async () => {
+    sendResults(timeout, timeout, timeout)
+
+    expect(await processSmsQueue()).toMatchObject({ retried: 1 })
+    expect(await runDue()).toMatchObject({ retried: 1 })
+    expect(await runDue()).toMatchObject({ dead: 1 })
+
+    expect(job()).toMatchObject({ status: "dead", attempts: 3 })
+    expect(job().attempt_log.map((a: any) => a.outcome)).toEqual(["retried", "retried", "dead"])
+    expect(delivery()).toMatchObject({ status: "failed", error_message: "Gateway timed out" })
+    expect(refreshed).toEqual(["msg-1"])
+
+    // Nothing is left to claim
+    expect(await runDue()).toEqual({ sent: 0, retried: 0, deferred: 0, dead: 0 })
+  })
+
+  test("a failure that won't go away on retry is dead-lettered straight away", async () => {
+    sendResults({ success: false, retryable: false, error: "Invalid number", provider: "Twilio" })
+
+    expect(await processSmsQueue()).toMatchObject({ dead: 1 })
+    expect(job()).toMatchObject({ status: "dead", attempts: 1 })
+    expect(delivery().status).toBe("failed")
+  })
+})
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from "bun:test"
+import { claimSmsQuota, releaseSmsQuota } from "@/lib/sms-rate-limit"
+import { SMS_PROVIDERS } from "@/lib/sms-providers"
+import { smsService } from "@/lib/sms-service"
+import { clearSettingsCache } from "@/lib/system-settings"
+import { fakeSupabase, type FakeTables } from "./fake-supabase"
+
+const HOUR = 60 * 60 * 1000
+const PHONE = "+233241234567"
+
+let tables: FakeTables
+let restore: () => void
+
+// Same checks, in the same order, as claim_sms_quota in database/schema.sql
+function claimSmsQuotaRpc(tables: FakeTables, args: Record<string, any>) {
+  const since = Date.now() - args.p_window_seconds * 1000
+  tables.sms_rate_claims = tables.sms_rate_claims.filter((claim) => Date.parse(claim.claimed_at) >= since)
+
+  const checks: [string, number, (claim: Record<string, any>) => boolean][] = [
+    ["global", args.p_global_limit, () => true],
+    ["user", args.p_user_id ? args.p_user_limit : 0, (claim) => claim.user_id === args.p_user_id],
+    ["recipient", args.p_recipient_limit, (claim) => claim.phone === args.p_phone],
+  ]
+  for (const [scope, limit, counts] of checks) {
+    const used = tables.sms_rate_claims.filter(counts)
+    if (limit > 0 && used.length >= limit) {
+      const oldest = used.map((claim) => claim.claimed_at).sort()[0]
+      return [{ claim_id: null, scope, oldest_claimed_at: oldest }]
+    }
+  }
+
+  const claim = { id: crypto.randomUUID(), phone: args.p_phone, user_id: args.p_user_id, claimed_at: new Date().toISOString() }
+  tables.sms_rate_claims.push(claim)
+  return [{ claim_id: claim.id, scope: null, oldest_claimed_at: null }]
+}
+
+const claim = (phone: string, minutesAgo: number, user_id: string | null = null) => ({
+  id: crypto.randomUUID(),
+  phone,
+  user_id,
+  claimed_at: new Date(Date.now() - minutesAgo * 60 * 1000).toISOString(),
+})
+
+function limits(global: number, user: number, recipient: number) {
+  tables.system_settings = [
+    { setting_key: "max_sms_per_hour", setting_value: global },
+    { setting_key: "max_sms_per_user_per_hour", setting_value: user },
+    { setting_key: "max_sms_per_recipient_per_hour", setting_value: recipient },
+    { setting_key: "sms_provider", setting_value: "mock" },
+  ]
+}
+
+beforeEach(() => {
+  clearSettingsCache()
+  tables = { system_settings: [], sms_rate_claims: [], activity_logs: [] }
+  limits(100, 60, 20)
+  restore = fakeSupabase(tables, { claim_sms_quota: claimSmsQuotaRpc })
+})
+
+afterEach(() => {
+  restore()
+  mock.restore()
+  clearSettingsCache()
+})
+
+describe("quota exceeded", () => {
+  test("the global cap refuses the send and says when a slot frees up", async () => {
+    limits(2, 60, 20)
+    tables.sms_rate_claims.push(claim("233200000001", 50), claim("233200000002", 10))
+
+    const result = await claimSmsQuota(PHONE)
+
+    expect(result.ok).toBe(false)
+    if (result.ok) return
+    expect(result.hit).toMatchObject({ scope: "global", limit: 2 })
+    expect(Date.parse(result.hit.retryAfter)).toBe(Date.parse(tables.sms_rate_claims[0].claimed_at) + HOUR)
+    expect(tables.sms_rate_claims).toHaveLength(2)
+    expect(tables.activity_logs).toMatchObject([{ action: "sms_rate_limited", details: { scope: "global", limit: 2 } }])
+  })
+
+  test("claims older than the window don't count", async () => {
+    limits(2, 60, 20)
+    tables.sms_rate_claims.push(claim("233200000001", 90), claim("233200000002", 61))
+
+    expect(await claimSmsQuota(PHONE)).toMatchObject({ ok: true, claimId: expect.any(String) })
+    expect(tables.sms_rate_claims.map((c) => c.phone)).toEqual([PHONE])
+  })
+
+  test("with every limit off nothing is counted", async () => {
+    limits(0, 0, 0)
+
+    expect(await claimSmsQuota(PHONE)).toEqual({ ok: true })
+    expect(tables.sms_rate_claims).toHaveLength(0)
+  })
+})
+
+describe("partially claimed quota", () => {
+  test("the remaining slots are handed out, then the next send is refused", async () => {
+    limits(100, 3, 20)
+    tables.sms_rate_claims.push(claim("233200000001", 30, "user-1"))
+
+    expect((await claimSmsQuota("233200000002", "user-1")).ok).toBe(true)
+    expect((await claimSmsQuota("233200000003", "user-1")).ok).toBe(true)
+    expect(await claimSmsQuota("233200000004", "user-1")).toMatchObject({ ok: false, hit: { scope: "user", limit: 3 } })
+
+    // Another user's sends come out of their own allowance
+    expect((await claimSmsQuota("233200000004", "user-2")).ok).toBe(true)
+  })
+
+  test("a released claim frees its slot", async () => {
+    limits(100, 60, 1)
+
+    const first = await claimSmsQuota(PHONE)
+    expect((await claimSmsQuota(PHONE)).ok).toBe(false)
+
+    if (first.ok && first.claimId) await releaseSmsQuota(first.claimId)
+    expect((await claimSmsQuota(PHONE)).ok).toBe(true)
+  })
+})
+
+describe("cleaned phones", () => {
+  test("one phone typed different ways counts against the same recipient limit", async () => {
+    limits(100, 60, 2)
+    const send = spyOn(SMS_PROVIDERS.mock, "send").mockResolvedValue({ success: true, provider: "Mock" })
+
+    expect((await smsService.sendSms("024 123 4567", "First")).success).toBe(true)
+    expect((await smsService.sendSms("+233 24 123 4567", "Second")).success).toBe(true)
+    const third = await smsService.sendSms("0241234567", "Third")
+
+    expect(third).toMatchObject({ success: false, retryable: true, retryAfter: expect.any(String) })
+    expect(third.error).toContain("has received 2 SMS")
+    expect(send).toHaveBeenCalledTimes(2)
+    expect(new Set(tables.sms_rate_claims.map((c) => c.phone))).toEqual(new Set([PHONE]))
+  })
+})
@@ -0,0 +1,189 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { NextRequest } from "next/server"
+import { GET, POST } from "@/app/api/sms/webhooks/[provider]/route"
+import { SMS_PROVIDERS } from "@/lib/sms-providers"
+import { twilioSignature } from "@/lib/sms-webhooks"
+import { fakeSupabase, type FakeTables } from "./fake-supabase"
+
+const TWILIO_URL = "https://acdns.example/api/sms/webhooks/twilio"
+const ARKESEL_URL = "https://acdns.example/api/sms/webhooks/arkesel"
+
+let tables: FakeTables
+let restore: () => void
+
+// Same rollup as refresh_sms_message_status in database/schema.sql
+function refreshMessageStatus(tables: FakeTables, { p_message_id }: Record<string, any>) {
+  const rows = tables.sms_delivery_log.filter((row) => row.message_id === p_message_id)
+  const count = (...statuses: string[]) => rows.filter((row) => statuses.includes(row.status)).length
+  const message = tables.sms_messages.find((row) => row.id === p_message_id)
+  if (!message || rows.length === 0) return null
+
+  const failed = count("failed", "undelivered")
+  message.status =
+    count("pending") > 0
+      ? "pending"
+      : count("delivered") === rows.length
+        ? "delivered"
+        : failed === 0
+          ? "sent"
+          : failed === rows.length
+            ? "failed"
+            : "partial"
+  return message.status
+}
+
+const delivery = (id: string, provider: string, providerMessageId: string) => ({
+  id,
+  message_id: "msg-1",
+  phone: "233241234567",
+  status: "sent",
+  provider,
+  provider_message_id: providerMessageId,
+  delivered_at: null,
+  error_message: null,
+})
+
+const statusOf = (id: string) => tables.sms_delivery_log.find((row) => row.id === id)?.status
+const messageStatus = () => tables.sms_messages[0].status
+
+function twilioRequest(fields: Record<string, string>, signature?: string) {
+  return new NextRequest(TWILIO_URL, {
+    method: "POST",
+    headers: {
+      "content-type": "application/x-www-form-urlencoded",
+      "x-twilio-signature": signature ?? twilioSignature(process.env.TWILIO_AUTH_TOKEN!, TWILIO_URL, fields),
+    },
+    body: new URLSearchParams(fields).toString(),
+  })
+}
+
+const params = (provider: string) => ({ params: { provider } })
+
+beforeEach(() => {
+  process.env.TWILIO_AUTH_TOKEN = "twilio-auth-token"
+  process.env.ARKESEL_WEBHOOK_SECRET = "arkesel-secret"
+  tables = {
+    sms_messages: [{ id: "msg-1", status: "sent" }],
+    sms_delivery_log: [
+      delivery("d-1", SMS_PROVIDERS.twilio.name, "SM111"),
+      delivery("d-2", SMS_PROVIDERS.twilio.name, "SM222"),
+      delivery("d-3", SMS_PROVIDERS.arkesel.name, "ark-333"),
+    ],
+  }
+  restore = fakeSupabase(tables, { refresh_sms_message_status: refreshMessageStatus })
+})
+
+afterEach(() => {
+  restore()
+  delete process.env.TWILIO_AUTH_TOKEN
+  delete process.env.ARKESEL_WEBHOOK_SECRET
+})
+
+describe("Twilio receipts", () => {
+  test("a correctly signed form post updates the delivery", async () => {
+    const response = await POST(twilioRequest({ MessageSid: "SM111", MessageStatus: "delivered" }), params("twilio"))
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ success: true, updated: 1 })
+    expect(statusOf("d-1")).toBe("delivered")
+    expect(tables.sms_delivery_log[0].delivered_at).toBeString()
+    expect(statusOf("d-2")).toBe("sent")
+  })
+
+  test("a bad signature is rejected and nothing changes", async () => {
+    const response = await POST(
+      twilioRequest({ MessageSid: "SM111", MessageStatus: "delivered" }, "bm90IGEgc2lnbmF0dXJl"),
+      params("twilio"),
+    )
+
+    expect(response.status).toBe(401)
+    expect(statusOf("d-1")).toBe("sent")
+    expect(messageStatus()).toBe("sent")
+  })
+
+  test("a post without a signature is rejected", async () => {
+    const request = new NextRequest(TWILIO_URL, {
+      method: "POST",
+      headers: { "content-type": "application/x-www-form-urlencoded" },
+      body: "MessageSid=SM111&MessageStatus=delivered",
+    })
+
+    expect((await POST(request, params("twilio"))).status).toBe(401)
+    expect(statusOf("d-1")).toBe("sent")
+  })
+
+  test("an undelivered receipt records the error code", async () => {
+    await POST(twilioRequest({ MessageSid: "SM222", MessageStatus: "undelivered", ErrorCode: "30003" }), params("twilio"))
+
+    expect(statusOf("d-2")).toBe("undelivered")
+    expect(tables.sms_delivery_log[1].error_message).toBe("Twilio error 30003")
+  })
+})
+
+describe("Arkesel receipts", () => {
+  test("a JSON callback with the token updates the delivery", async () => {
+    const request = new NextRequest(`${ARKESEL_URL}?token=arkesel-secret`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ sms_id: "ark-333", status: "DELIVERED" }),
+    })
+
+    const response = await POST(request, params("arkesel"))
+    expect(response.status).toBe(200)
+    expect(statusOf("d-3")).toBe("delivered")
+  })
+
+  test("a query string callback with the token updates the delivery", async () => {
+    const request = new NextRequest(`${ARKESEL_URL}?token=arkesel-secret&sms_id=ark-333&status=REJECTED`)
+
+    const response = await GET(request, params("arkesel"))
+    expect(response.status).toBe(200)
+    expect(statusOf("d-3")).toBe("undelivered")
+    expect(tables.sms_delivery_log[2].error_message).toBe("Arkesel reported REJECTED")
+  })
+
+  test("callbacks without the token are rejected", async () => {
+    const json = new NextRequest(ARKESEL_URL, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ sms_id: "ark-333", status: "DELIVERED" }),
+    })
+    const query = new NextRequest(`${ARKESEL_URL}?token=wrong&sms_id=ark-333&status=DELIVERED`)
+
+    expect((await POST(json, params("arkesel"))).status).toBe(401)
+    expect((await GET(query, params("arkesel"))).status).toBe(401)
+    expect(statusOf("d-3")).toBe("sent")
+  })
+})
+
+describe("unknown providers", () => {
+  test("inherited object keys aren't taken for providers", async () => {
+    for (const provider of ["constructor", "toString", "__proto__"]) {
+      const response = await GET(new NextRequest(`https://acdns.example/api/sms/webhooks/${provider}`), params(provider))
+      expect(response.status).toBe(404)
+    }
+  })
+})
+
+describe("message rollup", () => {
+  test("the message is partial when one recipient fails and delivered once all arrive", async () => {
+    await POST(twilioRequest({ MessageSid: "SM111", MessageStatus: "delivered" }), params("twilio"))
+    expect(messageStatus()).toBe("sent")
+
+    await POST(twilioRequest({ MessageSid: "SM222", MessageStatus: "undelivered" }), params("twilio"))
+    expect(messageStatus()).toBe("partial")
+
+    // A late receipt for the same message settles it
+    await POST(twilioRequest({ MessageSid: "SM222", MessageStatus: "delivered" }), params("twilio"))
+    await GET(new NextRequest(`${ARKESEL_URL}?token=arkesel-secret&sms_id=ark-333&status=DELIVERED`), params("arkesel"))
+    expect(messageStatus()).toBe("delivered")
+  })
+
+  test("a late sent receipt doesn't undo a delivered one", async () => {
+    await POST(twilioRequest({ MessageSid: "SM111", MessageStatus: "delivered" }), params("twilio"))
+    const response = await POST(twilioRequest({ MessageSid: "SM111", MessageStatus: "sent" }), params("twilio"))
+
+    expect(await response.json()).toEqual({ success: true, updated: 0 })
+    expect(statusOf("d-1")).toBe("delivered")
+  })
+})
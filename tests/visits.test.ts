@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import { recordVisitEvent } from "@/lib/visits"
+import { clearSettingsCache } from "@/lib/system-settings"
+import type { Detection } from "@/types/database"
+import { fakeSupabase, type FakeTables } from "./fake-supabase"
+
+const START = Date.parse("2026-03-02T08:00:00Z")
+const PLATE = "GR 1234-20"
+
+let tables: FakeTables
+let restore: () => void
+
+// A gate read `minutes` after START, in an entrance or exit zone
+function read(direction: "entrance" | "exit", minutes: number, overrides: Partial<Detection> = {}): Detection {
+  return {
+    id: `det-${direction}-${minutes}`,
+    camera_id: direction === "entrance" ? "cam-in" : "cam-out",
+    vehicle_id: "veh-1",
+    license_plate: PLATE,
+    confidence_score: 0.92,
+    detection_timestamp: new Date(START + minutes * 60 * 1000).toISOString(),
+    additional_data: { zones: [{ id: `zone-${direction}`, type: direction }] },
+    review_status: "accepted",
+    is_verified: false,
+    created_at: new Date(START + minutes * 60 * 1000).toISOString(),
+    ...overrides,
+  }
+}
+
+const visits = () => tables.vehicle_visits
+
+beforeEach(() => {
+  clearSettingsCache()
+  tables = {
+    system_settings: [{ setting_key: "visit_reentry_grace_minutes", setting_value: 5 }],
+    vehicle_visits: [],
+  }
+  restore = fakeSupabase(tables)
+})
+
+afterEach(() => {
+  restore()
+  clearSettingsCache()
+})
+
+describe("entry and exit pairing", () => {
+  test("an entry opens a visit and the next exit closes it", async () => {
+    const opened = await recordVisitEvent(read("entrance", 0))
+    expect(opened).toMatchObject({
+      license_plate: PLATE,
+      status: "on_site",
+      entry_detection_id: "det-entrance-0",
+      entry_camera_id: "cam-in",
+    })
+
+    const closed = await recordVisitEvent(read("exit", 90))
+    expect(closed).toMatchObject({
+      id: opened!.id,
+      status: "exited",
+      exited_at: read("exit", 90).detection_timestamp,
+      exit_detection_id: "det-exit-90",
+      exit_camera_id: "cam-out",
+    })
+    expect(visits()).toHaveLength(1)
+  })
+
+  test("reads outside the gate zones, or still awaiting review, don't count", async () => {
+    expect(await recordVisitEvent(read("entrance", 0, { additional_data: { zones: [] } }))).toBeNull()
+    expect(await recordVisitEvent(read("entrance", 0, { review_status: "needs_review" }))).toBeNull()
+    expect(await recordVisitEvent(read("entrance", 0, { review_status: "rejected" }))).toBeNull()
+    expect(visits()).toHaveLength(0)
+  })
+})
+
+describe("repeated entries", () => {
+  test("a second entry read within the grace period is the same visit", async () => {
+    const opened = await recordVisitEvent(read("entrance", 0))
+    const repeat = await recordVisitEvent(read("entrance", 2))
+
+    expect(repeat?.id).toBe(opened!.id)
+    expect(visits()).toHaveLength(1)
+    expect(visits()[0].entered_at).toBe(read("entrance", 0).detection_timestamp)
+  })
+
+  test("an entry long after the last one closes that visit as a missed exit", async () => {
+    const first = await recordVisitEvent(read("entrance", 0))
+    const second = await recordVisitEvent(read("entrance", 240))
+
+    expect(second?.id).not.toBe(first!.id)
+    expect(visits().map((v) => [v.id, v.status])).toEqual([
+      [first!.id, "missed_exit"],
+      [second!.id, "on_site"],
+    ])
+  })
+})
+
+describe("exits without an open visit", () => {
+  test("an exit with no open visit is recorded as a missed entry", async () => {
+    const visit = await recordVisitEvent(read("exit", 30))
+
+    expect(visit).toMatchObject({
+      status: "missed_entry",
+      exited_at: read("exit", 30).detection_timestamp,
+      exit_detection_id: "det-exit-30",
+    })
+    expect(visit?.entered_at).toBeUndefined()
+  })
+
+  test("a repeat exit read just after the visit closed belongs to that visit", async () => {
+    const opened = await recordVisitEvent(read("entrance", 0))
+    await recordVisitEvent(read("exit", 60))
+    const repeat = await recordVisitEvent(read("exit", 61))
+
+    expect(repeat?.id).toBe(opened!.id)
+    expect(visits()).toHaveLength(1)
+  })
+
+  test("an exit well after the last visit ended is a new missed entry", async () => {
+    await recordVisitEvent(read("entrance", 0))
+    await recordVisitEvent(read("exit", 60))
+    const later = await recordVisitEvent(read("exit", 300))
+
+    expect(later?.status).toBe("missed_entry")
+    expect(visits().map((v) => v.status)).toEqual(["exited", "missed_entry"])
+  })
+})
@@ -6,60 +6,144 @@
 export interface Database {
   public: {
     Tables: {
-      users: {
-        Row: User
-        Insert: UserInsert
-        Update: UserUpdate
-      }
-      cameras: {
-        Row: Camera
-        Insert: CameraInsert
-        Update: CameraUpdate
-      }
-      vehicles: {
-        Row: Vehicle
-        Insert: VehicleInsert
-        Update: VehicleUpdate
-      }
-      detections: {
-        Row: Detection
-        Insert: DetectionInsert
-        Update: DetectionUpdate
-      }
-      sms_recipients: {
-        Row: SmsRecipient
-        Insert: SmsRecipientInsert
-        Update: SmsRecipientUpdate
-      }
-      sms_messages: {
-        Row: SmsMessage
-        Insert: SmsMessageInsert
-        Update: SmsMessageUpdate
-      }
-      sms_delivery_log: {
-        Row: SmsDeliveryLog
-        Insert: SmsDeliveryLogInsert
-        Update: SmsDeliveryLogUpdate
+      users: Table<User, UserInsert, UserUpdate>
+      cameras: Table<Camera, CameraInsert, CameraUpdate>
+      vehicles: Table<Vehicle, VehicleInsert, VehicleUpdate>
+      detections: Table<
+        Detection,
+        DetectionInsert,
+        DetectionUpdate,
+        [
+          {
+            foreignKeyName: "detections_camera_id_fkey"
+            columns: ["camera_id"]
+            isOneToOne: false
+            referencedRelation: "cameras"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "detections_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
+        ]
+      >
+      sms_recipients: Table<SmsRecipient, SmsRecipientInsert, SmsRecipientUpdate>
+      sms_messages: Table<SmsMessage, SmsMessageInsert, SmsMessageUpdate>
+      sms_delivery_log: Table<SmsDeliveryLog, SmsDeliveryLogInsert, SmsDeliveryLogUpdate>
+      sms_jobs: Table<SmsJob, SmsJobInsert, SmsJobUpdate>
+      sms_rate_claims: Table<SmsRateClaim, SmsRateClaimInsert, SmsRateClaimUpdate>
+      system_settings: Table<SystemSetting, SystemSettingInsert, SystemSettingUpdate>
+      activity_logs: Table<ActivityLog, ActivityLogInsert, ActivityLogUpdate>
+      camera_zones: Table<
+        CameraZone,
+        CameraZoneInsert,
+        CameraZoneUpdate,
+        [
+          {
+            foreignKeyName: "camera_zones_camera_id_fkey"
+            columns: ["camera_id"]
+            isOneToOne: false
+            referencedRelation: "cameras"
+            referencedColumns: ["id"]
+          },
+        ]
+      >
+      watchlist: Table<WatchlistEntry, WatchlistEntryInsert, WatchlistEntryUpdate>
+      parking_sessions: Table<
+        ParkingSession,
+        ParkingSessionInsert,
+        ParkingSessionUpdate,
+        [
+          {
+            foreignKeyName: "parking_sessions_zone_id_fkey"
+            columns: ["zone_id"]
+            isOneToOne: false
+            referencedRelation: "camera_zones"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "parking_sessions_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
+        ]
+      >
+      vehicle_visits: Table<
+        VehicleVisit,
+        VehicleVisitInsert,
+        VehicleVisitUpdate,
+        [
+          {
+            foreignKeyName: "vehicle_visits_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vehicle_visits_entry_camera_id_fkey"
+            columns: ["entry_camera_id"]
+            isOneToOne: false
+            referencedRelation: "cameras"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vehicle_visits_exit_camera_id_fkey"
+            columns: ["exit_camera_id"]
+            isOneToOne: false
+            referencedRelation: "cameras"
+            referencedColumns: ["id"]
+          },
+        ]
+      >
+    }
+    Views: { [_ in never]: never }
+    Functions: {
+      claim_plate_alert: {
+        Args: { p_camera_id: string; p_license_plate: string; p_cooldown_seconds: number }
+        Returns: boolean
       }
-      system_settings: {
-        Row: SystemSetting
-        Insert: SystemSettingInsert
-        Update: SystemSettingUpdate
+      claim_sms_quota: {
+        Args: {
+          p_phone: string
+          p_user_id: string | null
+          p_global_limit: number
+          p_user_limit: number
+          p_recipient_limit: number
+          p_window_seconds: number
+        }
+        Returns: {
+          claim_id: string | null
+          scope: "global" | "user" | "recipient" | null
+          oldest_claimed_at: string | null
+        }[]
       }
-      activity_logs: {
-        Row: ActivityLog
-        Insert: ActivityLogInsert
-        Update: ActivityLogUpdate
+      claim_sms_jobs: {
+        Args: { p_worker: string; p_limit: number; p_lock_seconds: number }
+        Returns: SmsJob[]
       }
-      camera_zones: {
-        Row: CameraZone
-        Insert: CameraZoneInsert
-        Update: CameraZoneUpdate
+      refresh_sms_message_status: {
+        Args: { p_message_id: string }
+        Returns: string | null
       }
     }
   }
 }
 
+// Supabase expects table shapes with index signatures and a Relationships
+// list (used to type embedded selects), which plain interfaces don't provide
+type Table<Row, Insert, Update, Relationships extends unknown[] = []> = {
+  Row: { [K in keyof Row]: Row[K] }
+  Insert: { [K in keyof Insert]: Insert[K] }
+  Update: { [K in keyof Update]: Update[K] }
+  Relationships: Relationships
+}
+
 // =============================================
 // USER TYPES
 // =============================================
@@ -124,6 +208,7 @@ export interface Camera {
   fps: number
   is_active: boolean
   last_heartbeat?: string
+  confidence_threshold?: number | null
   created_by?: string
   created_at: string
   updated_at: string
@@ -144,6 +229,7 @@ export interface CameraInsert {
   fps?: number
   is_active?: boolean
   last_heartbeat?: string
+  confidence_threshold?: number | null
   created_by?: string
 }
 
@@ -161,6 +247,7 @@ export interface CameraUpdate {
   fps?: number
   is_active?: boolean
   last_heartbeat?: string
+  confidence_threshold?: number | null
 }
 
 // =============================================
@@ -169,6 +256,8 @@ export interface CameraUpdate {
 export interface Vehicle {
   id: string
   license_plate: string
+  // license_plate reduced to letters and digits (generated column)
+  plate_key: string
   make: string
   model: string
   year: number
@@ -236,6 +325,7 @@ export interface Detection {
   image_url?: string
   bounding_box?: BoundingBox
   additional_data?: Record<string, any>
+  review_status: DetectionReviewStatus
   is_verified: boolean
   verified_by?: string
   verified_at?: string
@@ -252,6 +342,7 @@ export interface DetectionInsert {
   image_url?: string
   bounding_box?: BoundingBox
   additional_data?: Record<string, any>
+  review_status?: DetectionReviewStatus
   is_verified?: boolean
   verified_by?: string
   verified_at?: string
@@ -259,18 +350,21 @@ export interface DetectionInsert {
 
 export interface DetectionUpdate {
   camera_id?: string
-  vehicle_id?: string
+  vehicle_id?: string | null
   license_plate?: string
   confidence_score?: number
   detection_timestamp?: string
   image_url?: string
   bounding_box?: BoundingBox
   additional_data?: Record<string, any>
+  review_status?: DetectionReviewStatus
   is_verified?: boolean
   verified_by?: string
   verified_at?: string
 }
 
+export type DetectionReviewStatus = "accepted" | "needs_review" | "confirmed" | "corrected" | "rejected"
+
 export interface BoundingBox {
   x: number
   y: number
@@ -319,7 +413,7 @@ export interface SmsMessage {
   message_content: string
   message_type: string
   recipients_count: number
-  status: "pending" | "sent" | "failed" | "partial"
+  status: "pending" | "sent" | "delivered" | "failed" | "partial"
   sent_at?: string
   delivery_status?: Record<string, any>
   related_detection_id?: string
@@ -333,7 +427,7 @@ export interface SmsMessageInsert {
   message_content: string
   message_type?: string
   recipients_count?: number
-  status?: "pending" | "sent" | "failed" | "partial"
+  status?: "pending" | "sent" | "delivered" | "failed" | "partial"
   sent_at?: string
   delivery_status?: Record<string, any>
   related_detection_id?: string
@@ -345,17 +439,20 @@ export interface SmsMessageUpdate {
   message_content?: string
   message_type?: string
   recipients_count?: number
-  status?: "pending" | "sent" | "failed" | "partial"
+  status?: "pending" | "sent" | "delivered" | "failed" | "partial"
   sent_at?: string
   delivery_status?: Record<string, any>
+  related_detection_id?: string | null
 }
 
 export interface SmsDeliveryLog {
   id: string
   message_id: string
-  recipient_id: string
+  // null for vehicle owners and numbers that aren't saved recipients
+  recipient_id: string | null
   phone: string
   status: "pending" | "sent" | "delivered" | "failed" | "undelivered"
+  provider?: string
   provider_message_id?: string
   error_message?: string
   sent_at?: string
@@ -366,9 +463,10 @@ export interface SmsDeliveryLog {
 export interface SmsDeliveryLogInsert {
   id?: string
   message_id: string
-  recipient_id: string
+  recipient_id?: string | null
   phone: string
   status?: "pending" | "sent" | "delivered" | "failed" | "undelivered"
+  provider?: string
   provider_message_id?: string
   error_message?: string
   sent_at?: string
@@ -377,12 +475,81 @@ export interface SmsDeliveryLogInsert {
 
 export interface SmsDeliveryLogUpdate {
   status?: "pending" | "sent" | "delivered" | "failed" | "undelivered"
+  provider?: string
   provider_message_id?: string
   error_message?: string
   sent_at?: string
   delivered_at?: string
 }
 
+export type SmsJobStatus = "queued" | "sending" | "sent" | "dead"
+
+// One send of a job, kept in sms_jobs.attempt_log
+export interface SmsJobAttempt {
+  attempt: number
+  at: string
+  provider: string
+  outcome: "sent" | "retried" | "deferred" | "dead"
+  error?: string
+}
+
+export interface SmsJob {
+  id: string
+  message_id: string
+  // The recipient's sms_delivery_log row, updated after every attempt
+  delivery_id: string
+  phone: string
+  status: SmsJobStatus
+  attempts: number
+  max_attempts: number
+  run_at: string
+  locked_by?: string
+  locked_at?: string
+  last_error?: string
+  attempt_log: SmsJobAttempt[]
+  created_at: string
+  updated_at: string
+}
+
+export interface SmsJobInsert {
+  id?: string
+  message_id: string
+  delivery_id: string
+  phone: string
+  status?: SmsJobStatus
+  max_attempts?: number
+  run_at?: string
+}
+
+export interface SmsJobUpdate {
+  status?: SmsJobStatus
+  attempts?: number
+  run_at?: string
+  locked_by?: string | null
+  locked_at?: string | null
+  last_error?: string
+  attempt_log?: SmsJobAttempt[]
+}
+
+// A send counted against the hourly SMS limits (see claim_sms_quota)
+export interface SmsRateClaim {
+  id: string
+  phone: string
+  user_id?: string
+  claimed_at: string
+}
+
+export interface SmsRateClaimInsert {
+  id?: string
+  phone: string
+  user_id?: string | null
+  claimed_at?: string
+}
+
+export interface SmsRateClaimUpdate {
+  claimed_at?: string
+}
+
 // =============================================
 // SYSTEM TYPES
 // =============================================
@@ -457,6 +624,9 @@ export interface CameraZone {
   coordinates: Coordinate[]
   is_active: boolean
   alert_enabled: boolean
+  capacity?: number | null
+  max_stay_minutes?: number | null
+  overstay_action: "reminder" | "alert"
   created_by?: string
   created_at: string
   updated_at: string
@@ -470,6 +640,9 @@ export interface CameraZoneInsert {
   coordinates: Coordinate[]
   is_active?: boolean
   alert_enabled?: boolean
+  capacity?: number | null
+  max_stay_minutes?: number | null
+  overstay_action?: "reminder" | "alert"
   created_by?: string
 }
 
@@ -480,6 +653,9 @@ export interface CameraZoneUpdate {
   coordinates?: Coordinate[]
   is_active?: boolean
   alert_enabled?: boolean
+  capacity?: number | null
+  max_stay_minutes?: number | null
+  overstay_action?: "reminder" | "alert"
 }
 
 export interface Coordinate {
@@ -487,6 +663,132 @@ export interface Coordinate {
   y: number
 }
 
+export type WatchlistReason = "stolen" | "wanted" | "banned" | "other"
+
+export interface WatchlistEntry {
+  id: string
+  license_plate: string
+  plate_key: string
+  reason: WatchlistReason
+  description?: string
+  priority: "high" | "normal"
+  notify_recipient_ids?: string[] | null
+  alert_cooldown_minutes?: number | null
+  is_active: boolean
+  expires_at?: string | null
+  created_by?: string
+  created_at: string
+  updated_at: string
+}
+
+export interface WatchlistEntryInsert {
+  id?: string
+  license_plate: string
+  reason?: WatchlistReason
+  description?: string
+  priority?: "high" | "normal"
+  notify_recipient_ids?: string[] | null
+  alert_cooldown_minutes?: number | null
+  is_active?: boolean
+  expires_at?: string | null
+  created_by?: string
+}
+
+export interface WatchlistEntryUpdate {
+  license_plate?: string
+  reason?: WatchlistReason
+  description?: string
+  priority?: "high" | "normal"
+  notify_recipient_ids?: string[] | null
+  alert_cooldown_minutes?: number | null
+  is_active?: boolean
+  expires_at?: string | null
+}
+
+// =============================================
+// VEHICLE VISIT TYPES
+// =============================================
+// missed_exit: the car was seen entering again before any exit was read
+// missed_entry: an exit was read with no open visit to close
+export type VehicleVisitStatus = "on_site" | "exited" | "missed_exit" | "missed_entry"
+
+export interface VehicleVisit {
+  id: string
+  license_plate: string
+  vehicle_id?: string | null
+  status: VehicleVisitStatus
+  entered_at?: string | null
+  exited_at?: string | null
+  entry_detection_id?: string | null
+  exit_detection_id?: string | null
+  entry_camera_id?: string | null
+  exit_camera_id?: string | null
+  closed_by?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface VehicleVisitInsert {
+  id?: string
+  license_plate: string
+  vehicle_id?: string | null
+  status?: VehicleVisitStatus
+  entered_at?: string | null
+  exited_at?: string | null
+  entry_detection_id?: string | null
+  exit_detection_id?: string | null
+  entry_camera_id?: string | null
+  exit_camera_id?: string | null
+  closed_by?: string | null
+}
+
+export interface VehicleVisitUpdate {
+  vehicle_id?: string | null
+  status?: VehicleVisitStatus
+  entered_at?: string | null
+  exited_at?: string | null
+  exit_detection_id?: string | null
+  exit_camera_id?: string | null
+  closed_by?: string | null
+}
+
+// =============================================
+// PARKING TYPES
+// =============================================
+export interface ParkingSession {
+  id: string
+  zone_id: string
+  license_plate: string
+  vehicle_id?: string | null
+  status: "parked" | "departed"
+  arrived_at: string
+  last_seen_at: string
+  departed_at?: string | null
+  overstay_notified_at?: string | null
+  overstay_alert?: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ParkingSessionInsert {
+  id?: string
+  zone_id: string
+  license_plate: string
+  vehicle_id?: string | null
+  status?: "parked" | "departed"
+  arrived_at: string
+  last_seen_at: string
+}
+
+export interface ParkingSessionUpdate {
+  vehicle_id?: string | null
+  status?: "parked" | "departed"
+  last_seen_at?: string
+  departed_at?: string | null
+  overstay_notified_at?: string | null
+  overstay_alert?: string | null
+}
+
 // =============================================
 // UTILITY TYPES
 // =============================================
@@ -526,6 +828,24 @@ export interface DetectionEvent {
   timestamp: string
 }
 
+export interface DetectionWithRelations extends Detection {
+  cameras?: Pick<Camera, "id" | "name" | "location"> | null
+  vehicles?: Pick<Vehicle, "id" | "license_plate" | "owner_name" | "owner_phone" | "status"> | null
+}
+
+export interface VehicleVisitWithRelations extends VehicleVisit {
+  vehicles?: Pick<Vehicle, "id" | "license_plate" | "owner_name" | "make" | "model" | "color"> | null
+  entry_camera?: Pick<Camera, "id" | "name" | "location"> | null
+  exit_camera?: Pick<Camera, "id" | "name" | "location"> | null
+}
+
+export interface ParkingOccupancy {
+  zone: CameraZone
+  camera?: Pick<Camera, "id" | "name" | "location"> | null
+  occupied: number
+  overstaying: number
+}
+
 export interface CameraStatus {
   camera: Camera
   isOnline: boolean
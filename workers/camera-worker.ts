@@ -0,0 +1,71 @@
+// =============================================
+// CAMERA WORKER
+// Headless ingestion so gates are watched without a browser tab.
+//
+//   bun run worker                                  every active network camera
+//   bun run worker --camera <id>                    one camera (repeatable)
+//   bun run worker --camera <id> --source gate.mp4  replay a local file as that camera
+//   bun run worker --fps 1                          at most 1 frame a second per camera (default 2)
+//
+// Needs ffmpeg on PATH (or FFMPEG_PATH), SUPABASE_SERVICE_ROLE_KEY and,
+// for cameras with stored passwords, CAMERA_CREDENTIALS_KEY.
+// CAMERA_WORKER_CAMERA_IDS (comma separated) limits the cameras like --camera.
+// =============================================
+
+import { startStreamWorker, type StreamWorkerOptions } from "@/lib/stream-worker"
+
+function parseArgs(argv: string[]): StreamWorkerOptions {
+  const options: StreamWorkerOptions = {
+    cameraIds: (process.env.CAMERA_WORKER_CAMERA_IDS || "").split(",").filter(Boolean),
+  }
+
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1]
+    switch (argv[i]) {
+      case "--camera":
+        options.cameraIds!.push(value)
+        i++
+        break
+      case "--source":
+        options.source = value
+        i++
+        break
+      case "--fps":
+        options.fps = Number(value)
+        if (!(options.fps > 0)) throw new Error(`--fps must be a positive number, got ${value}`)
+        i++
+        break
+      default:
+        throw new Error(`Unknown argument: ${argv[i]}`)
+    }
+  }
+
+  if (options.source && options.cameraIds!.length !== 1) {
+    throw new Error("--source needs exactly one --camera to record the file as")
+  }
+
+  return options
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2))
+  const worker = await startStreamWorker(options)
+
+  const shutdown = async (signal: string) => {
+    console.log(`🛑 ${signal} received, flushing open tracks...`)
+    await worker.stop()
+    process.exit(0)
+  }
+  process.on("SIGINT", () => shutdown("SIGINT"))
+  process.on("SIGTERM", () => shutdown("SIGTERM"))
+
+  await worker.finished
+  await worker.stop()
+  console.log("✅ All sources finished")
+  process.exit(0)
+}
+
+main().catch((error) => {
+  console.error("Camera worker failed:", error)
+  process.exit(1)
+})
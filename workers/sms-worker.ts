@@ -0,0 +1,52 @@
+// =============================================
+// SMS WORKER
+// Sends the outbound SMS queue (sms_jobs) outside the web server.
+//
+//   bun run sms-worker
+//
+// Needs SUPABASE_SERVICE_ROLE_KEY and the SMS provider credentials.
+// SMS_WORKER_POLL_MS sets how often it looks for due jobs (default 2000).
+// Several workers can run at once; each job is claimed by one of them.
+// =============================================
+
+import { processSmsQueue } from "@/lib/sms-queue"
+
+const POLL_MS = Number(process.env.SMS_WORKER_POLL_MS) || 2000
+
+async function main() {
+  let running = true
+  let wake: (() => void) | null = null
+
+  const shutdown = (signal: string) => {
+    console.log(`🛑 ${signal} received, finishing sends in progress...`)
+    running = false
+    wake?.()
+  }
+  process.on("SIGINT", () => shutdown("SIGINT"))
+  process.on("SIGTERM", () => shutdown("SIGTERM"))
+
+  console.log("📨 SMS worker started")
+  while (running) {
+    try {
+      const { sent, retried, deferred, dead } = await processSmsQueue()
+      if (sent || retried || deferred || dead) {
+        console.log(`📨 Sent ${sent}, retrying ${retried}, rate limited ${deferred}, dead-lettered ${dead}`)
+      }
+    } catch (error) {
+      console.error("SMS queue run failed:", error)
+    }
+
+    await new Promise<void>((resolve) => {
+      wake = resolve
+      setTimeout(resolve, POLL_MS)
+    })
+  }
+
+  console.log("✅ SMS worker stopped")
+  process.exit(0)
+}
+
+main().catch((error) => {
+  console.error("SMS worker failed:", error)
+  process.exit(1)
+})